@@ -67,12 +67,45 @@ Generate a complete new pattern from the user's description. Add a brief one-lin
 ## DSL Syntax Reference
 
 ### Global Settings
-- \`TEMPO <60-200>\` — Set beats per minute (default: 120)
+- \`TEMPO <20-300>\` — Set beats per minute (default: 120); fractions like \`TEMPO 92.5\` are fine
+  - Ramp: \`TEMPO 120 -> 140 over 8 bars\` glides from the first tempo to the second from the start of playback, then holds it (1-64 bars). Use for build-ups and slow-downs.
+- \`TIME <beats>/<unit>\` — Time signature (default 4/4), e.g. \`TIME 7/8\`; one bar is the shortest loop. In 7/8 a bar of 16ths is 14 steps, in 3/4 it is 12. TEMPO still counts quarter notes.
+- \`SEED <number>\` — Seed for probability trigs so variations repeat the same way each play
+- \`SCALE <root>[octave] <mode> [transpose=<-24..24>]\` — Set the key for scale degrees on \`notes\` lines
+  - **Modes:** major, minor, dorian, phrygian, lydian, mixolydian, locrian
+  - Degree 1 is the root in octave 3 unless given (\`SCALE A2 minor\`); \`transpose\` shifts every \`notes\` line by semitones
+  - Example: \`SCALE A minor\`
 
 ### Sequences
 - \`seq <name>: <pattern>\` — Define a step sequence (exactly 16 steps for standard 4/4)
-  - **Valid chars:** \`X\` (accent), \`x\` (hit), \`o\` (ghost), \`.\` (rest)
+  - **Valid chars:** \`X\` (accent), \`x\` (hit), \`o\` (ghost), \`f\` (flam), \`r\` (roll), \`.\` (rest), \`-\` (tie)
+  - **Ties:** each \`-\` after a hit holds it one more step (\`x---\` = 4 steps); the envelope releases when the note ends. A \`-\` must follow a hit or another \`-\`.
   - Example: \`seq kick: X...x...o...x...\`
+  - Example: \`seq snare: ....f.......x..r\` (flam on beat 2, roll into the next bar)
+  - **Ratchets:** follow \`x\`, \`X\` or \`o\` with a hit count 2-8 (\`x3\` or \`X{4}\`) to repeat it within one step; add \`<\` to ramp velocity up or \`>\` to ramp down. The suffix does not add steps.
+  - Example: \`seq hihat: x.x.x.x.x.x.x3<x.\` (trap hi-hat roll into the bar line)
+  - **Conditions:** after a hit, \`?<1-100>\` sets a probability (\`x?50\`); \`@A:B\` plays on loop A of every B (\`x@1:4\`, B up to 8); \`@fill\` / \`@!fill\` play only with Fill on / off; \`@pre\` / \`@!pre\` follow whether the previous conditional hit on the track played.
+  - Example: \`seq hihat: x.x?60.x.x@2:2.x.x?30.x.x@fill.\` (evolving hats with a fill)
+  - **Multi-bar:** for phrases longer than one bar, write up to 8 bars (128 steps) with \`|\` between them. Every bar must have the same number of steps (16 each in 4/4); \`|\` is not a step.
+  - Example: \`seq kick: x...x...x...x...|x...x...x..xx.x.\` (2 bars, fill at the end)
+  - **Resolution:** end a \`seq\` or \`notes\` line with \`res=8n\`, \`res=16n\` (default), \`res=16t\` (16th triplets, 12 per 4/4 bar) or \`res=32n\` to change how long each step lasts. Lines with different resolutions play together.
+  - Example: \`seq hihat: xxxxxxxxxxxx res=16t\` (triplet hats) / \`seq snare: ....x... res=8n\` (half-time backbeat)
+  - **Generators:** instead of steps, write \`euclid(<hits>,<steps>,rot=<n>)\` for an evenly spread Euclidean rhythm (rotated left by \`rot\`) or \`every(<n>,<steps>,off=<n>)\` for a hit every n steps. They expand to plain \`x\`/\`.\` steps (up to 128).
+  - Example: \`seq perc: euclid(5,16,rot=2)\` / \`seq hat: every(3,16)\`
+- \`articulation <name>: flam=<0.005..0.1> roll=<2..8>\` — Flam grace-note lead in seconds (default 0.03) and hits per roll step (default 3)
+- \`notes <name>: <note|.> ...\` — Melodic sequence, one space-separated token per step
+  - **Tokens:** note names like \`C2\`, \`F#3\`, \`Bb1\` (C4 = middle C), \`.\` (rest) or \`-\` (tie: hold the previous note one more step)
+  - Example: \`notes pad: A3 - - - - - - - C4 - - - E4 - - -\` (held pad chords; pair with an \`env\` release)
+  - With a \`SCALE\` line, scale degrees \`1\`-\`7\` (\`b\`/\`#\` prefix for chromatic notes, \`+\`/\`-\` suffix per octave up/down). **Prefer degrees** so melodies stay in key.
+  - Example: \`notes bass: 1 . 1 . 3 . 5- .\`
+  - Use for basslines and leads; samples are repitched, synth voices play the note
+  - Example: \`notes bass: C2 . E2 G2 . . A#1 .\`
+
+### Song Arrangement
+- \`section <name>:\` — Following \`seq\` lines belong to this section (until the next \`section\`)
+- \`song: <section>[*repeats] ...\` — Play order of sections, repeats 1-64 (default: declared order, once each)
+  - \`seq\` lines before the first \`section\` play under every section; module lines (eq, filter, ...) stay global
+  - Example: \`song: intro verse*4 chorus*2\`
 
 ### Groove & Feel
 - \`groove <instrument|master>: type=<swing|humanize|rush|drag|template> amount=<0..1> [steps=<odd|even|all|indices>] [subdivision=<8n|16n|4n>] [name=<preset>]\`
@@ -100,9 +133,12 @@ Generate a complete new pattern from the user's description. Add a brief one-lin
   - Example: \`groove kick: type=template name=mpc-swing-66 amount=0.7\`
 
 ### Synthesis & Sound Design
-- \`sample <instrument>: <sampleName> [gain=<-3..3>]\`
+- \`sample <instrument>: <sampleName> [gain=<-3..3>] [options]\`
   - Samples: kick, kick808, snare, clap, rim, hat, openhat, ride, crash, tom, cowbell, shaker, bass, sub, lead, pluck, saw, square
   - Example: \`sample hat: openhat gain=-1\`
+  - \`user:<name>\` plays a sample the user imported (e.g. \`sample kick: user:my-kick\`). Only use names the user mentions.
+  - Playback options: \`start=<0..1>\` and \`end=<0..1>\` (start must be before end), \`pitch=<-24..24>\` semitones, \`reverse\`, \`loop\`, \`fade=<0..1>\` seconds
+  - Example: \`sample pad: user:choir start=0.2 end=0.45 loop fade=0.05\`, \`sample crash: crash reverse\`
 
 - \`note <instrument>: <pitch>\`
   - Sets the base pitch for synth/sample.
@@ -114,15 +150,28 @@ Generate a complete new pattern from the user's description. Add a brief one-lin
   - Example: \`env pad: attack=0.5 decay=0.2 sustain=0.8 release=2.0\`
 
 ### Modulation & Effects
-- \`lfo <name>.<target>: [rate=<0.1..20>Hz] [depth=<0..1>] [wave=<sine|triangle|square|sawtooth>]\`
+- \`lfo <name>.<target>: [rate=<0.1..20>Hz|<note>|<N>bar] [depth=<0..1>] [wave=<sine|triangle|square|sawtooth|sample-hold|random-smooth>] [reset=<bar|off>]\`
+  - **Rates:** Hz, or synced to the tempo: note values \`1/8\`, triplets \`1/8t\`, dotted \`1/4.\`, or bars \`2bar\`. Synced LFOs restart at each bar (or every N bars) unless \`reset=off\`; \`reset=bar\` restarts Hz LFOs too.
+  - **Waves:** \`sample-hold\` steps to a new random level each cycle, \`random-smooth\` glides between random levels.
   - **Targets:**
-    - \`amp\` (Tremolo) - Works on any instrument or \`master\`.
-    - \`filter.freq\` (Filter Sweep) - Instrument only.
-    - \`filter.q\` (Resonance) - Instrument only.
-    - \`pan\` (Auto-pan) - Instrument only.
-    - \`delay.time\` (Chorus/Flanger) - Master only.
-    - \`delay.feedback\` (Echo Swell) - Master only.
-  - Example: \`lfo hihat.pan: rate=4Hz depth=0.6 wave=sine\`
+    - \`amp\` (Tremolo) - Any instrument or \`master\`.
+    - \`filter.freq\`, \`filter.q\`, \`pan\` - Instrument only.
+    - \`eq.low\`, \`eq.mid\`, \`eq.high\` (±12 dB), \`comp.threshold\`, \`comp.ratio\` - Instrument or master.
+    - \`delay.time\`, \`delay.feedback\`, \`delay.mix\`, \`reverb.mix\` - Instrument or master.
+    - \`distort.mix\`, \`chorus.rate\`, \`chorus.depth\`, \`chorus.mix\`, \`phaser.rate\`, \`phaser.depth\`, \`phaser.mix\` - Instrument or master.
+  - Several \`lfo\` lines on the same target stack.
+  - Example: \`lfo hihat.pan: rate=1/8 depth=0.6 wave=sine\`
+
+- \`mod <instrument>: src=<velocity|step|env1|env2|lfo> dst=<pitch|amp|lfo target> [amt=<-1..1>]\`
+  - Modulation route; each \`mod\` line adds one. \`velocity\` and \`step\` (0 on the first step of the line, 1 on the last) apply per hit, \`env1\` follows the instrument's \`env\` line, \`env2\` is its own envelope (\`attack=\`, \`decay=\`), \`lfo\` takes \`rate=\`, \`wave=\`, \`reset=\` like an \`lfo\` line.
+  - \`pitch\` swings ±24 semitones at amt=1; other destinations are the instrument \`lfo\` targets (filter.freq, pan, eq.low, reverb.mix, ...).
+  - Hits scale with velocity by default; \`src=velocity dst=amp\` replaces that (amt=0 ignores velocity).
+  - Example: \`mod kick: src=env2 dst=pitch amt=0.5 decay=0.05\` (pitch drop), \`mod lead: src=velocity dst=filter.freq amt=0.6\`
+
+- \`auto <instrument>.<target>: <value|.> <value|.> ...\`
+  - Automation lane: sets the target on each step; \`.\` holds the previous value. Loops at its own length like a \`seq\` line (\`|\` and \`res=\` allowed).
+  - **Targets (instrument only):** \`filter.freq\` (20-20000), \`filter.q\` (0.1-30), \`pan\` (-1..1), \`amp\` (-3..3 steps), \`delay.time\` (0.01-2), \`delay.feedback\` (0-0.95), \`chorus.rate\`, \`phaser.rate\` (0.1-10), \`chorus.depth\`, \`phaser.depth\` (0-1), \`delay.mix\`, \`reverb.mix\`, \`distort.mix\`, \`chorus.mix\`, \`phaser.mix\` (0-1; need that effect's line).
+  - Example: \`auto bass.filter.freq: 200 400 800 . . 1200 . .\` (stepped filter sweep)
 
 - \`filter <instrument>: type=<lowpass|highpass|bandpass> freq=<20..20000> [q=<0.1..30>]\`
   - Example: \`filter bass: type=lowpass freq=400 q=1.5\`
@@ -142,6 +191,42 @@ Generate a complete new pattern from the user's description. Add a brief one-lin
 - \`distort <instrument|master>: amount=<0..1> [mix=<0..1>]\`
   - Example: \`distort bass: amount=0.3 mix=0.5\`
 
+- \`chain <instrument|master>: <stage> > <stage> > ...\`
+  - Processing order. Instrument stages: filter, comp, duck, eq, distort, chorus, phaser, delay, reverb (default order; amp first, pan last). Master stages: eq, comp, distort, delay, reverb, chorus, phaser (default order; amp last). Stages left out follow the listed ones in default order; a stage only does something with its own module line.
+  - Example: \`chain kick: distort > filter > comp > eq\` (distortion before the filter tames its fizz)
+
+- \`synth <instrument>: [osc=<sine|square|saw|triangle>] [osc2=<wave>] [detune=<cents>] [sub=<0..1>] [cutoff=<20..20000>] [res=<0.1..30>] [fenv=<0..1>] [fattack=<s>] [fdecay=<s>] [glide=<0..1>]\`
+  - Subtractive synth voice for pitched parts: two oscillators, a sub an octave down, and a resonant lowpass whose envelope (\`fenv\`) opens it by up to 4 octaves. \`glide\` slides between notes. Pair with \`env\` for the amp envelope.
+  - Example: \`synth lead: osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6\`
+
+- \`drum <instrument>: [model=<kick|808|snare|tom|hat|openhat|clap|rim|cowbell|shaker|crash|perc>] [tune=<-24..24>] [decay=<0.1..4>] [click=<0..1>] [tone=<0..1>]\`
+  - Tunes the instrument's own drum sound. \`model\` may be left out when the instrument is named after a built-in sample (kick, snare, hihat, kick808, ...). \`tune\` is in semitones, \`decay\` scales the length.
+  - Example: \`drum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2\`
+
+- \`loop <instrument>: <sampleName> [bars=<0.25..16>] [slices=<1..64>] [order=<slice,slice,...>]\`
+  - Slices a breakbeat that follows the tempo. Each \`seq\` hit plays the slice under its step; \`order\` lists the slice for each step (0 to slices-1).
+  - Example: \`loop break: user:amen bars=1 slices=16\` with \`seq break: X.x.x.X.x.x.X.xx\`
+
+- \`fm <instrument>: [ratio=<0.125..16>] [index=<0..20>] [ienv=<0..5>]\`
+  - Two-operator FM voice for bells, electric pianos and FM basses. \`index\` is the brightness on accents (softer hits are darker); \`ienv\` is how many seconds it takes to fade. Use either \`synth\` or \`fm\` per instrument, not both.
+  - Example: \`fm bell: ratio=3.5 index=4 ienv=0.3\`
+
+- \`choke <group>: <instrument> <instrument> ...\`
+  - Choke group: a hit on any member cuts the still-ringing voices of the others (e.g. closed hat cuts open hat). One group per instrument.
+  - Example: \`choke hats: hihat openhat\`
+
+- \`duck <instrument>: sidechain=<instrument> [depth=<0..1>] [attack=<0.001..0.5>] [release=<0.01..2>]\`
+  - Sidechain pumping: dips the instrument on every hit of the sidechain source. Not for master.
+  - Example: \`duck bass: sidechain=kick depth=0.7 release=0.25\`
+
+- \`bus <name>: <reverb|delay|chorus|phaser|distort> [params of that effect]\`
+  - Shared return effect, fully wet unless \`mix=\` is given. Use it to put several instruments in one reverb or delay.
+  - Example: \`bus verb: reverb decay=3\`
+
+- \`send <instrument>: <bus>=<0..1> [<bus>=<0..1> ...]\`
+  - Feeds the instrument (after its own effects) into declared buses.
+  - Example: \`send snare: verb=0.4 echo=0.2\`
+
 - \`eq <instrument|master>: [low=<-3..3>] [mid=<-3..3>] [high=<-3..3>]\`
   - Example: \`eq kick: low=2 mid=-1 high=0\`
 
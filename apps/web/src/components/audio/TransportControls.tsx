@@ -1,8 +1,9 @@
 import React from 'react';
 import { useAudio } from '../../contexts/AppContext';
+import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
 
 export const TransportControls: React.FC = () => {
-  const { state: audioState, play, pause, stop, setTempo, setVolume, initialize, setOverflowMode } = useAudio();
+  const { state: audioState, play, pause, stop, setTempo, setVolume, initialize, setOverflowMode, setFillMode } = useAudio();
 
   const handlePlayPause = async () => {
     // If not initialized, try to initialize first
@@ -48,6 +49,12 @@ export const TransportControls: React.FC = () => {
     }
   };
 
+  const handleFillToggle = () => {
+    if (audioState.isInitialized && setFillMode) {
+      setFillMode(!audioState.fillMode);
+    }
+  };
+
   // Convert dB volume back to 0-100 for display
   const displayVolume = Math.round(((audioState.volume + 60) / 60) * 100);
   const displayTime = audioState.currentTime;
@@ -128,10 +135,19 @@ export const TransportControls: React.FC = () => {
             value={audioState.tempo}
             onChange={(e) => handleTempoChange(Number(e.target.value))}
             className="input w-16 h-7 text-center text-sm font-mono bg-background border-border"
-            min="60"
-            max="200"
+            min={AUDIO_CONSTANTS.MIN_TEMPO}
+            max={AUDIO_CONSTANTS.MAX_TEMPO}
+            step="any"
             disabled={!audioState.isInitialized}
           />
+          {audioState.tempoRamp && (
+            <span
+              className="text-xs text-foreground-muted font-mono"
+              title={`Ramping to ${audioState.tempoRamp.to} BPM over ${audioState.tempoRamp.bars} bar${audioState.tempoRamp.bars !== 1 ? 's' : ''}`}
+            >
+              → {audioState.tempoRamp.to}
+            </span>
+          )}
         </div>
 
         {/* Divider */}
@@ -186,6 +202,21 @@ export const TransportControls: React.FC = () => {
           </div>
         </div>
 
+        {/* Fill Mode */}
+        <button
+          className={`px-2.5 py-1 text-xs font-medium rounded-md border transition-colors ${
+            audioState.fillMode
+              ? 'bg-accent/15 text-accent border-accent/20'
+              : 'border-border text-foreground-muted hover:text-foreground hover:bg-background-tertiary'
+          }`}
+          onClick={handleFillToggle}
+          disabled={!audioState.isInitialized}
+          aria-pressed={!!audioState.fillMode}
+          title="Play @fill trigs instead of @!fill trigs"
+        >
+          Fill
+        </button>
+
         {/* Position Display */}
         <div className="flex items-center gap-1.5 ml-auto">
           <span className="text-sm font-mono text-foreground tabular-nums bg-background px-2.5 py-1 rounded-md border border-border">
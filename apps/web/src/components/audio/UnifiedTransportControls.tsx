@@ -1,6 +1,7 @@
 // Transport Controls - Uses Unified Audio Engine
 import React, { useState, useEffect } from 'react';
 import { useUnifiedAudioEngine } from '../../hooks/useUnifiedAudioEngine';
+import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
 
 interface TransportControlsProps {
   className?: string;
@@ -62,7 +63,7 @@ export const UnifiedTransportControls: React.FC<TransportControlsProps> = ({
   };
 
   const handleTempoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const tempo = parseInt(event.target.value);
+    const tempo = parseFloat(event.target.value);
     setTempo(tempo);
   };
 
@@ -168,8 +169,8 @@ export const UnifiedTransportControls: React.FC<TransportControlsProps> = ({
             <label className="text-foreground text-sm font-medium w-16">Tempo:</label>
             <input
               type="range"
-              min="60"
-              max="200"
+              min={AUDIO_CONSTANTS.MIN_TEMPO}
+              max={AUDIO_CONSTANTS.MAX_TEMPO}
               value={state.tempo}
               onChange={handleTempoChange}
               className="flex-1"
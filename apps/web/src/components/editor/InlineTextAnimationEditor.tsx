@@ -1,6 +1,5 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { usePattern, useAudio } from '../../contexts/AppContext';
-import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
 
 interface InlineTextAnimationEditorProps {
   className?: string;
@@ -19,10 +18,8 @@ export const InlineTextAnimationEditor: React.FC<InlineTextAnimationEditorProps>
 
   // Calculate current step based on audio state
   const currentStep = useMemo(() =>
-    Math.floor(
-      audioState.currentTime * ((audioState.tempo / 60) * AUDIO_CONSTANTS.STEPS_PER_BEAT)
-    ) % (validation?.validInstruments.length ? 16 : 16),
-    [audioState.currentTime, audioState.tempo, validation?.validInstruments.length]
+    Math.floor(audioState.position) % (validation?.validInstruments.length ? 16 : 16),
+    [audioState.position, validation?.validInstruments.length]
   );
 
   // Parse sequences with memoization for performance
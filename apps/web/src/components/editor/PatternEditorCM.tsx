@@ -1,59 +1,136 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { EditorState, StateEffect, StateField } from '@codemirror/state';
-import { EditorView, Decoration, DecorationSet, keymap, placeholder } from '@codemirror/view';
+import { EditorView, Decoration, DecorationSet, WidgetType, keymap, placeholder } from '@codemirror/view';
 import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
 import { useAudio, usePattern } from '../../contexts/AppContext';
-import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
+import { locateSongStep } from '../../services/songArrangement';
+import { expandGenerator, isGeneratorExpression } from '../../services/rhythmGenerators';
+import { getStepSpan, isStepResolution, splitStepResolution } from '../../services/stepTiming';
 
 type StepToken = {
   from: number;
-  to: number; // from + 1
+  to: number; // end of the step token (ratchet suffix / note name included)
   lineIndex: number;
   stepIndex: number; // 0-based within its line's pattern
   isActive: boolean; // x/X
   patternLength: number; // total steps for its line
-  symbol: string; // raw character (x, X, ., o, f, r, ...)
+  symbol: string; // step character (x, X, ., o, f, r, - ...) or note token
+  section: string | null; // enclosing `section <name>:` block, null for global lines
+  bar: number; // 0-based bar within its line, counted at '|' separators
+  stepSpan: number; // 16th notes per step (res=8n -> 2, res=16t -> 2/3)
 };
 
+// 16th notes per step for a line's `res=` option (invalid values fall back to 16ths)
+function lineStepSpan(resolution: string | null): number {
+  return getStepSpan({ resolution: resolution && isStepResolution(resolution) ? resolution : undefined });
+}
+
+// Bar number of each step token; '|' tokens close a bar (leading ones are ignored)
+function barIndices(tokens: RegExpExecArray[]): number[] {
+  const bars: number[] = [];
+  let bar = 0;
+  let stepsInBar = 0;
+  for (const tok of tokens) {
+    if (tok[0] === '|') {
+      if (stepsInBar > 0) bar++;
+      stepsInBar = 0;
+      continue;
+    }
+    bars.push(bar);
+    stepsInBar++;
+  }
+  return bars;
+}
+
 // Parse the document to find all step characters across all sequence lines.
 function indexSteps(doc: EditorState['doc']): StepToken[] {
   const steps: StepToken[] = [];
+  let section: string | null = null;
   for (let i = 1; i <= doc.lines; i++) {
     const line = doc.line(i);
     const text = line.text;
     const trimmed = text.trim();
+    const sectionMatch = trimmed.match(/^section\s+(\w+)\s*:/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      continue;
+    }
+    // notes lines: each whitespace-separated token (note name, '.' or '-') is one step
+    if (trimmed.startsWith('notes ')) {
+      const notesMatch = trimmed.match(/notes\s+(\w+):\s*(.+)/);
+      if (!notesMatch) continue;
+      const { body: notesString, resolution } = splitStepResolution(notesMatch[2].replace(/\s+(\/\/|#).*$/, ''));
+      const stepSpan = lineStepSpan(resolution);
+      const startCol = text.indexOf(notesString);
+      if (startCol < 0) continue;
+      const tokenRegex = /[^\s|]+|\|/g;
+      const tokens: RegExpExecArray[] = [];
+      let t: RegExpExecArray | null;
+      while ((t = tokenRegex.exec(notesString))) tokens.push(t);
+      const bars = barIndices(tokens);
+      const noteTokens = tokens.filter(tok => tok[0] !== '|');
+      noteTokens.forEach((tok, stepIndex) => {
+        const from = line.from + startCol + tok.index;
+        steps.push({
+          from,
+          to: from + tok[0].length,
+          lineIndex: i - 1,
+          stepIndex,
+          isActive: tok[0] !== '.' && tok[0] !== '-',
+          patternLength: noteTokens.length,
+          symbol: tok[0],
+          section,
+          bar: bars[stepIndex],
+          stepSpan,
+        });
+      });
+      continue;
+    }
     if (!trimmed.startsWith('seq ')) continue;
 
     const match = trimmed.match(/seq\s+(\w+):\s*(.+)/);
     if (!match) continue;
-    const patternString = match[2];
+    const { body: patternString, resolution } = splitStepResolution(match[2]);
     if (!patternString) continue;
+    const stepSpan = lineStepSpan(resolution);
+    // Generator lines (euclid(...), every(...)) have no literal steps; see generatorHintField
+    if (isGeneratorExpression(patternString)) continue;
 
     // Find the starting column of the pattern string in the original line
     const startCol = text.indexOf(patternString);
     if (startCol < 0) continue;
 
-    const patternLen = patternString.length;
-    for (let c = 0; c < patternLen; c++) {
-      const ch = patternString[c];
-      const from = line.from + startCol + c;
-      const to = from + 1;
+    // One token per step; ratchet (x3, X{4}<) and condition (x?50, x@1:4) suffixes belong to their step
+    const tokenRegex = /([xXofr.-])(?:\d|\{\d{1,2}\})?[<>]?(?:\?\d*|@!?(?:fill|pre|\d*(?::\d*)?))?|\|/g;
+    const allTokens: RegExpExecArray[] = [];
+    let t: RegExpExecArray | null;
+    while ((t = tokenRegex.exec(patternString))) allTokens.push(t);
+    const bars = barIndices(allTokens);
+    const tokens = allTokens.filter(tok => tok[0] !== '|');
+    tokens.forEach((tok, stepIndex) => {
+      const ch = tok[1];
+      const from = line.from + startCol + tok.index;
       steps.push({
         from,
-        to,
+        to: from + tok[0].length,
         lineIndex: i - 1,
-        stepIndex: c,
-        isActive: ch === 'x' || ch === 'X',
-        patternLength: patternLen,
+        stepIndex,
+        isActive: ch === 'x' || ch === 'X' || ch === 'f' || ch === 'r',
+        patternLength: tokens.length,
         symbol: ch,
+        section,
+        bar: bars[stepIndex],
+        stepSpan,
       });
-    }
+    });
   }
   return steps;
 }
 
-// Holds the step index for the global playhead and exposes decorations.
-const setCurrentStep = StateEffect.define<number>();
+// Holds the playhead position (in 16th notes, fractional) and exposes decorations.
+// In song mode `section` names the active section; other sections' lines get no playhead.
+type PlayheadPosition = { step: number; section: string | null };
+const setCurrentStep = StateEffect.define<PlayheadPosition>();
 
 const stepsIndexField = StateField.define<StepToken[]>({
   create(state) {
@@ -67,37 +144,40 @@ const stepsIndexField = StateField.define<StepToken[]>({
   },
 });
 
-const currentStepField = StateField.define<{ step: number; deco: DecorationSet }>({
+const currentStepField = StateField.define<{ position: PlayheadPosition; deco: DecorationSet }>({
   create(state) {
-    const step = 0;
-    const deco = computeCurrentStepDecorations(state, 0);
-    return { step, deco };
+    const position: PlayheadPosition = { step: 0, section: null };
+    const deco = computeCurrentStepDecorations(state, position);
+    return { position, deco };
   },
   update(value, tr) {
-    let step = value.step;
+    let position = value.position;
     let needsRecompute = tr.docChanged;
     for (const e of tr.effects) {
       if (e.is(setCurrentStep)) {
-        step = e.value;
+        position = e.value;
         needsRecompute = true;
       }
     }
     if (needsRecompute) {
-      const deco = computeCurrentStepDecorations(tr.state, step);
-      return { step, deco };
+      const deco = computeCurrentStepDecorations(tr.state, position);
+      return { position, deco };
     }
     return value;
   },
   provide: f => EditorView.decorations.from(f, v => v.deco),
 });
 
-function computeCurrentStepDecorations(state: EditorState, currentStep: number): DecorationSet {
+function computeCurrentStepDecorations(state: EditorState, position: PlayheadPosition): DecorationSet {
   const steps = state.field(stepsIndexField, false) || [];
   if (!steps.length) return Decoration.none;
+  const currentStep = position.step;
 
   // Group steps by line for proper modulo
   const byLine = new Map<number, StepToken[]>();
   for (const s of steps) {
+    // Lines inside an inactive section are not playing
+    if (s.section !== null && s.section !== position.section) continue;
     const arr = byLine.get(s.lineIndex) || [];
     arr.push(s);
     byLine.set(s.lineIndex, arr);
@@ -108,13 +188,22 @@ function computeCurrentStepDecorations(state: EditorState, currentStep: number):
     if (!tokens.length) return;
     const len = tokens[0].patternLength;
     if (len <= 0) return;
-    const idx = ((currentStep % len) + len) % len; // safe modulo
+    const lineStep = Math.floor(currentStep / tokens[0].stepSpan + 1e-9); // this line's own resolution
+    const idx = ((lineStep % len) + len) % len; // safe modulo
     // Find the token with stepIndex == idx
     const token = tokens.find(t => t.stepIndex === idx);
     if (!token) return;
 
     const classList = 'cm-step-current ' + (token.isActive ? 'cm-step-active' : 'cm-step-rest');
     marks.push(Decoration.mark({ class: classList }).range(token.from, token.to));
+
+    // Multi-bar lines also light up the bar the playhead is in
+    if (tokens.some(t => t.bar > 0)) {
+      const barTokens = tokens.filter(t => t.bar === token.bar && t !== token);
+      for (const t of barTokens) {
+        marks.push(Decoration.mark({ class: 'cm-bar-current' }).range(t.from, t.to));
+      }
+    }
   });
 
   return Decoration.set(marks, true);
@@ -145,12 +234,60 @@ function computeStepBaseDecorations(state: EditorState): DecorationSet {
     else if (t.symbol === 'o') cls = 'cm-step-ghost';
     else if (t.symbol === 'f') cls = 'cm-step-flam';
     else if (t.symbol === 'r') cls = 'cm-step-roll';
+    else if (t.symbol === '-') cls = 'cm-step-tie';
+    else if (t.isActive) cls = 'cm-step-hit'; // note names on notes lines
     else continue;
+    if (t.bar % 2 === 1) cls += ' cm-bar-alt'; // alternate bars get a faint band
     marks.push(Decoration.mark({ class: cls }).range(t.from, t.to));
   }
   return Decoration.set(marks, true);
 }
 
+// Inline hint after generator seq lines showing the expanded steps (or the error)
+class GeneratorHintWidget extends WidgetType {
+  constructor(readonly text: string, readonly isError: boolean) {
+    super();
+  }
+
+  eq(other: GeneratorHintWidget) {
+    return other.text === this.text && other.isError === this.isError;
+  }
+
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = this.isError ? 'cm-generator-hint cm-generator-error' : 'cm-generator-hint';
+    span.textContent = this.isError ? `  ⚠ ${this.text}` : `  → ${this.text}`;
+    return span;
+  }
+}
+
+const generatorHintField = StateField.define<DecorationSet>({
+  create(state) {
+    return computeGeneratorHints(state);
+  },
+  update(value, tr) {
+    if (tr.docChanged) {
+      return computeGeneratorHints(tr.state);
+    }
+    return value;
+  },
+  provide: f => EditorView.decorations.from(f),
+});
+
+function computeGeneratorHints(state: EditorState): DecorationSet {
+  const widgets: any[] = [];
+  for (let i = 1; i <= state.doc.lines; i++) {
+    const line = state.doc.line(i);
+    const match = line.text.trim().match(/^seq\s+\w+:\s*(.+)$/);
+    const body = match ? splitStepResolution(match[1]).body : '';
+    if (!isGeneratorExpression(body)) continue;
+    const { pattern, error } = expandGenerator(body);
+    const widget = new GeneratorHintWidget(pattern ?? error ?? '', !pattern);
+    widgets.push(Decoration.widget({ widget, side: 1 }).range(line.to));
+  }
+  return Decoration.set(widgets, true);
+}
+
 // Simple DSL highlighting (keywords, identifiers, numbers, attributes, comments)
 const dslHighlightField = StateField.define<DecorationSet>({
   create(state) {
@@ -178,8 +315,34 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       continue;
     }
 
-    // TEMPO, SWING, SCALE lines
-    const kwMatch = trimmed.match(/^(TEMPO|SWING|SCALE)\b/);
+    // section headers and song order: section verse: / song: intro verse*4
+    const songMatch = trimmed.match(/^(section|song)\b/);
+    if (songMatch) {
+      const kw = songMatch[1];
+      const kwIdx = text.indexOf(kw);
+      ranges.push(Decoration.mark({ class: 'cm-kw' }).range(line.from + kwIdx, line.from + kwIdx + kw.length));
+      const colonIdx = text.indexOf(':', kwIdx);
+      if (colonIdx >= 0) {
+        ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + colonIdx, line.from + colonIdx + 1));
+      }
+      // Section names (and *N repeat counts on the song line)
+      const nameRegex = /(\w+)(\*\d+)?/g;
+      const namesStart = kw === 'song' ? (colonIdx >= 0 ? colonIdx + 1 : kwIdx + kw.length) : kwIdx + kw.length;
+      const namesEnd = kw === 'section' && colonIdx >= 0 ? colonIdx : text.length;
+      const searchText = text.slice(namesStart, namesEnd);
+      let n: RegExpExecArray | null;
+      while ((n = nameRegex.exec(searchText))) {
+        const base = namesStart + n.index;
+        ranges.push(Decoration.mark({ class: 'cm-ident' }).range(line.from + base, line.from + base + n[1].length));
+        if (n[2]) {
+          ranges.push(Decoration.mark({ class: 'cm-number' }).range(line.from + base + n[1].length, line.from + base + n[0].length));
+        }
+      }
+      continue;
+    }
+
+    // TEMPO, SWING, SCALE, SEED, TIME lines
+    const kwMatch = trimmed.match(/^(TEMPO|SWING|SCALE|SEED|TIME)\b/);
     if (kwMatch) {
       const kw = kwMatch[1];
       const kwIndex = text.indexOf(kw);
@@ -195,6 +358,38 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       continue;
     }
 
+    // auto lines: auto name.target: 200 400 . 1200 [res=8n]
+    if (trimmed.startsWith('auto ')) {
+      const autoIdx = text.indexOf('auto ');
+      ranges.push(Decoration.mark({ class: 'cm-kw' }).range(line.from + autoIdx, line.from + autoIdx + 4)); // 'auto'
+      const pathMatch = text.slice(autoIdx + 5).match(/^\s*([\w]+(?:\.[\w]+)+)/);
+      if (pathMatch) {
+        const pathStart = autoIdx + 5 + pathMatch[0].length - pathMatch[1].length;
+        ranges.push(Decoration.mark({ class: 'cm-ident' }).range(line.from + pathStart, line.from + pathStart + pathMatch[1].length));
+      }
+      const colonIdx = text.indexOf(':', autoIdx);
+      if (colonIdx >= 0) {
+        ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + colonIdx, line.from + colonIdx + 1));
+        // Values, then an optional res= option
+        const valueRegex = /(res)(=)(\S*)|-?\d+(?:\.\d+)?/g;
+        const afterColon = text.slice(colonIdx + 1).replace(/\s+(\/\/|#).*$/, '');
+        let m: RegExpExecArray | null;
+        while ((m = valueRegex.exec(afterColon))) {
+          const base = colonIdx + 1 + m.index;
+          if (m[1]) {
+            ranges.push(Decoration.mark({ class: 'cm-attr' }).range(line.from + base, line.from + base + 3));
+            ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + base + 3, line.from + base + 4));
+            if (m[3]) {
+              ranges.push(Decoration.mark({ class: 'cm-number' }).range(line.from + base + 4, line.from + base + m[0].length));
+            }
+          } else {
+            ranges.push(Decoration.mark({ class: 'cm-number' }).range(line.from + base, line.from + base + m[0].length));
+          }
+        }
+      }
+      continue;
+    }
+
     // sample lines: sample <instrument>: <sampleName> [gain=X]
     const sampleIdx = text.indexOf('sample ');
     if (sampleIdx >= 0) {
@@ -269,8 +464,8 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       if (colonIdx >= 0) {
         ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + colonIdx, line.from + colonIdx + 1));
       }
-      // key=value pairs (rate, depth, wave)
-      const attrRegex = /(rate|depth|wave)(=)([^\s]+)/g;
+      // key=value pairs (rate, depth, wave, reset)
+      const attrRegex = /(rate|depth|wave|reset)(=)([^\s]+)/g;
       let a: RegExpExecArray | null;
       while ((a = attrRegex.exec(text))) {
         const [full, key] = a;
@@ -282,8 +477,8 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       continue;
     }
 
-    // Generic effect lines: filter, delay, reverb, distort, comp, amp, pan, groove, chorus, phaser, env, note
-    const effectMatch = trimmed.match(/^(filter|delay|reverb|distort|comp|amp|pan|groove|chorus|phaser|env|note)\s/);
+    // Generic effect lines: filter, delay, reverb, distort, comp, amp, pan, groove, chorus, phaser, env, note, articulation, choke, duck, bus, send, synth, fm, drum, loop, mod, chain
+    const effectMatch = trimmed.match(/^(filter|delay|reverb|distort|comp|amp|pan|groove|chorus|phaser|env|note|articulation|choke|duck|bus|send|synth|fm|drum|loop|mod|chain)\s/);
     if (effectMatch) {
       const kw = effectMatch[1];
       const kwIdx = text.indexOf(kw);
@@ -297,6 +492,12 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       const colonIdx = text.indexOf(':', kwIdx);
       if (colonIdx >= 0) {
         ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + colonIdx, line.from + colonIdx + 1));
+        // bus lines name their effect right after the colon: bus verb: reverb decay=3
+        const busEffect = kw === 'bus' ? text.slice(colonIdx + 1).match(/^\s*([a-z]+)(?=\s|$)/) : null;
+        if (busEffect) {
+          const effectStart = colonIdx + 1 + busEffect[0].length - busEffect[1].length;
+          ranges.push(Decoration.mark({ class: 'cm-kw' }).range(line.from + effectStart, line.from + effectStart + busEffect[1].length));
+        }
       }
       // key=value pairs
       const attrRegex = /(\w+)(=)([^\s]+)/g;
@@ -313,20 +514,46 @@ function computeDSLDecorations(state: EditorState): DecorationSet {
       continue;
     }
 
-    // seq lines: seq name: pattern
-    const seqIdx = text.indexOf('seq ');
+    // seq and notes lines: seq name: pattern / notes name: C2 . E2
+    const seqKw = trimmed.startsWith('notes ') ? 'notes' : 'seq';
+    const seqIdx = text.indexOf(seqKw + ' ');
     if (seqIdx >= 0) {
-      ranges.push(Decoration.mark({ class: 'cm-kw' }).range(line.from + seqIdx, line.from + seqIdx + 3)); // 'seq'
-      const post = text.slice(seqIdx + 4);
+      ranges.push(Decoration.mark({ class: 'cm-kw' }).range(line.from + seqIdx, line.from + seqIdx + seqKw.length));
+      const post = text.slice(seqIdx + seqKw.length + 1);
       const nameMatch = post.match(/^(\w+)/);
       if (nameMatch) {
-        const nameStart = seqIdx + 4 + (nameMatch.index || 0);
+        const nameStart = seqIdx + seqKw.length + 1 + (nameMatch.index || 0);
         ranges.push(Decoration.mark({ class: 'cm-ident' }).range(line.from + nameStart, line.from + nameStart + nameMatch[0].length));
       }
       // colon punctuation
       const colonIdx = text.indexOf(':', seqIdx);
       if (colonIdx >= 0) {
         ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + colonIdx, line.from + colonIdx + 1));
+        // trailing step resolution: res=16t
+        const res = text.match(/\s(res)(=)(\S+)\s*$/);
+        if (res && res.index !== undefined) {
+          const resIdx = res.index + 1;
+          ranges.push(Decoration.mark({ class: 'cm-attr' }).range(line.from + resIdx, line.from + resIdx + 3));
+          ranges.push(Decoration.mark({ class: 'cm-punc' }).range(line.from + resIdx + 3, line.from + resIdx + 4));
+          ranges.push(Decoration.mark({ class: 'cm-number' }).range(line.from + resIdx + 4, line.from + resIdx + 4 + res[3].length));
+        }
+        // bar separators
+        for (let j = text.indexOf('|', colonIdx); j >= 0; j = text.indexOf('|', j + 1)) {
+          ranges.push(Decoration.mark({ class: 'cm-bar-sep' }).range(line.from + j, line.from + j + 1));
+        }
+        // generator call: euclid(5,16,rot=2)
+        const gen = seqKw === 'seq' ? text.slice(colonIdx + 1).match(/^(\s*)(\w+)\(/) : null;
+        if (gen) {
+          const genStart = colonIdx + 1 + gen[1].length;
+          ranges.push(Decoration.mark({ class: 'cm-attr' }).range(line.from + genStart, line.from + genStart + gen[2].length));
+          const numRe = /-?\d+/g;
+          let m: RegExpExecArray | null;
+          const args = text.slice(genStart + gen[2].length);
+          while ((m = numRe.exec(args))) {
+            const from = line.from + genStart + gen[2].length + m.index;
+            ranges.push(Decoration.mark({ class: 'cm-number' }).range(from, from + m[0].length));
+          }
+        }
       }
       continue;
     }
@@ -382,6 +609,16 @@ const editorTheme = EditorView.theme({
   '.cm-step-ghost': { color: '#93c5fd' },
   '.cm-step-flam': { color: '#fca5a5' },
   '.cm-step-roll': { color: '#fde68a' },
+  '.cm-step-tie': { color: '#0a8f52' },
+
+  // Bars
+  '.cm-bar-sep': { color: '#60a5fa', fontWeight: '600' },
+  '.cm-bar-alt': { backgroundColor: 'rgba(255, 255, 255, 0.04)' },
+  '.cm-bar-current': { backgroundColor: 'rgba(251, 191, 36, 0.1)' },
+
+  // Generator expansion hint
+  '.cm-generator-hint': { color: '#5c5c6b', letterSpacing: '0.02em' },
+  '.cm-generator-error': { color: '#f87171' },
 
   // Current step overlay (playhead)
   '.cm-step-current': {
@@ -433,7 +670,7 @@ interface PatternEditorCMProps {
 }
 
 export const PatternEditorCM: React.FC<PatternEditorCMProps> = ({ className }) => {
-  const { content, validation, updateContent } = usePattern();
+  const { content, validation, parsedPattern, updateContent } = usePattern();
   const { state: audioState } = useAudio();
 
   const parentRef = useRef<HTMLDivElement | null>(null);
@@ -458,6 +695,7 @@ export const PatternEditorCM: React.FC<PatternEditorCMProps> = ({ className }) =
         stepsIndexField,
         stepBaseField,
         dslHighlightField,
+        generatorHintField,
         currentStepField,
         clickToToggleSteps,
         editorTheme,
@@ -501,17 +739,23 @@ export const PatternEditorCM: React.FC<PatternEditorCMProps> = ({ className }) =
   // Compute current step from audio state and dispatch into CM decorations
   const currentStep = useMemo(() => {
     if (!validation) return 0;
-    // Use 16th-note resolution as in other parts of the app
-    const stepsPerSecond = (audioState.tempo / 60) * AUDIO_CONSTANTS.STEPS_PER_BEAT;
-    const step = Math.floor(audioState.currentTime * stepsPerSecond);
-    return step;
-  }, [audioState.currentTime, audioState.tempo, validation]);
+    // 16th notes as in other parts of the app, kept fractional so each line
+    // can convert to its own res= step
+    return audioState.position;
+  }, [audioState.position, validation]);
+
+  // In song mode, resolve the global step to the active section and its local step
+  const playhead = useMemo<PlayheadPosition>(() => {
+    if (!parsedPattern) return { step: currentStep, section: null };
+    const located = locateSongStep(parsedPattern, currentStep);
+    return located.section ? located : { step: currentStep, section: null };
+  }, [currentStep, parsedPattern]);
 
   useEffect(() => {
     const view = viewRef.current;
     if (!view) return;
-    view.dispatch({ effects: setCurrentStep.of(currentStep) });
-  }, [currentStep]);
+    view.dispatch({ effects: setCurrentStep.of(playhead) });
+  }, [playhead]);
 
   return (
     <div className={`h-full flex flex-col ${className || ''}`} style={{
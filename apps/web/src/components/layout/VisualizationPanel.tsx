@@ -15,8 +15,10 @@ interface VisualizationPanelProps {
   pattern: ParsedPattern | null;
   currentStep?: number;
   currentTime?: number;
+  position?: number;
   isPlaying?: boolean;
   tempo?: number;
+  gainReduction?: Record<string, number>;
   className?: string;
 }
 
@@ -24,8 +26,10 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
   pattern,
   currentStep = -1,
   currentTime = 0,
+  position = 0,
   isPlaying = false,
   tempo = 120,
+  gainReduction,
   className = ''
 }) => {
   const [expandedSections, setExpandedSections] = useState({
@@ -89,6 +93,7 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
             <PlayheadIndicator
               pattern={pattern}
               currentTime={currentTime}
+              position={position}
               isPlaying={isPlaying}
               tempo={tempo}
               className="h-auto"
@@ -115,6 +120,7 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
         >
           <AudioEffects
             pattern={pattern}
+            gainReduction={gainReduction}
             className="h-auto"
           />
         </CollapsibleSection>
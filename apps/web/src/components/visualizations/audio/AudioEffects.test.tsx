@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { screen } from '@testing-library/react';
+import { render } from '../../../test/testUtils';
+import { AudioEffects } from './AudioEffects';
+import { ParsedPattern } from '../../../types/app';
+
+describe('AudioEffects', () => {
+  const duckPattern: ParsedPattern = {
+    tempo: 124,
+    instruments: {
+      kick: { name: 'kick', steps: [true, false, false, false] },
+      bass: { name: 'bass', steps: [false, false, true, false] }
+    },
+    duckModules: {
+      bass: { name: 'bass', sidechain: 'kick', depth: 0.6, attack: 0.005, release: 0.2 }
+    },
+    totalSteps: 16
+  };
+
+  it('shows the empty state without effects', () => {
+    render(<AudioEffects pattern={{ ...duckPattern, duckModules: {} }} />);
+    expect(screen.getByText('No audio effects applied')).toBeInTheDocument();
+  });
+
+  it('meters the live gain reduction of ducked instruments', () => {
+    render(<AudioEffects pattern={duckPattern} gainReduction={{ bass: 6 }} />);
+    expect(screen.getByText('← kick')).toBeInTheDocument();
+    const meter = screen.getByRole('meter', { name: 'bass gain reduction' });
+    expect(meter).toHaveAttribute('aria-valuenow', '6');
+    expect((meter.firstChild as HTMLElement).style.width).toBe('25%');
+    expect(screen.getByText('-6.0dB')).toBeInTheDocument();
+  });
+
+  it('shows no reduction before the engine reports any', () => {
+    render(<AudioEffects pattern={duckPattern} />);
+    expect(screen.getByText('0.0dB')).toBeInTheDocument();
+  });
+
+  it('shows each chain in processing order', () => {
+    render(
+      <AudioEffects
+        pattern={{
+          ...duckPattern,
+          filterModules: { kick: { name: 'kick', type: 'lowpass', freq: 800, Q: 1 } },
+          distortModules: { kick: { name: 'kick', amount: 0.5, mix: 0.4 } },
+          chainModules: { kick: { name: 'kick', order: ['distort', 'filter'] } }
+        }}
+      />
+    );
+    expect(screen.getByText('Signal Flow')).toBeInTheDocument();
+    expect(screen.getByLabelText('kick signal flow')).toHaveTextContent('distort → filter');
+    // A single stage has no order to show
+    expect(screen.queryByLabelText('bass signal flow')).not.toBeInTheDocument();
+  });
+});
@@ -1,15 +1,21 @@
 import React from 'react';
 import { ParsedPattern } from '../../../types/app';
+import { getSignalFlows } from '../../../services/effectChain';
 import { BaseVisualization } from '../BaseVisualization';
 import { EQDisplay } from './EQDisplay';
 
 interface AudioEffectsProps {
   pattern: ParsedPattern | null;
+  gainReduction?: Record<string, number>; // live ducking in dB from the engine
   className?: string;
 }
 
+// Gain reduction shown as a full meter
+const METER_RANGE_DB = 24;
+
 export const AudioEffects: React.FC<AudioEffectsProps> = ({
   pattern,
+  gainReduction = {},
   className = ''
 }) => {
   if (!pattern) {
@@ -29,7 +35,9 @@ export const AudioEffects: React.FC<AudioEffectsProps> = ({
   const hasPan = pattern.panModules && Object.keys(pattern.panModules).length > 0;
   const hasDistort = pattern.distortModules && Object.keys(pattern.distortModules).length > 0;
   const hasGroove = pattern.grooveModules && Object.keys(pattern.grooveModules).length > 0;
-  const hasAny = hasEQ || hasFilters || hasLFOs || hasDelay || hasReverb || hasPan || hasDistort || hasGroove;
+  const hasDuck = pattern.duckModules && Object.keys(pattern.duckModules).length > 0;
+  const signalFlows = getSignalFlows(pattern);
+  const hasAny = hasEQ || hasFilters || hasLFOs || hasDelay || hasReverb || hasPan || hasDistort || hasGroove || hasDuck;
 
   return (
     <BaseVisualization
@@ -63,6 +71,21 @@ export const AudioEffects: React.FC<AudioEffectsProps> = ({
           </div>
         )}
 
+        {/* Signal flow through each chain, in processing order */}
+        {signalFlows.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-foreground">Signal Flow</h4>
+            <div className="space-y-1">
+              {signalFlows.map(({ name, stages }) => (
+                <div key={name} className="flex items-center gap-2 text-xs">
+                  <span className="text-accent font-medium w-16 truncate">{name}</span>
+                  <span className="text-foreground" aria-label={`${name} signal flow`}>{stages.join(' → ')}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* EQ Settings */}
         {hasEQ && (
           <div>
@@ -96,7 +119,7 @@ export const AudioEffects: React.FC<AudioEffectsProps> = ({
               {Object.entries(pattern.lfoModules!).map(([key, lfo]) => (
                 <div key={key} className="flex items-center gap-2 text-xs">
                   <span className="text-accent font-medium w-24 truncate">{key}</span>
-                  <span className="text-foreground">{lfo.rateHz}Hz</span>
+                  <span className="text-foreground">{lfo.sync?.label ?? `${lfo.rateHz}Hz`}</span>
                   <span className="text-foreground-muted">{lfo.wave}</span>
                   <div className="flex-1 max-w-20 h-1.5 bg-background-secondary rounded-full overflow-hidden">
                     <div
@@ -183,6 +206,39 @@ export const AudioEffects: React.FC<AudioEffectsProps> = ({
           </div>
         )}
 
+        {/* Sidechain ducking with live gain reduction */}
+        {hasDuck && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-foreground">Sidechain</h4>
+            <div className="space-y-1.5">
+              {Object.entries(pattern.duckModules!).map(([name, d]) => {
+                const reduction = Math.round((gainReduction[name] ?? 0) * 10) / 10;
+                return (
+                  <div key={name} className="flex items-center gap-2 text-xs">
+                    <span className="text-accent font-medium w-16 truncate">{name}</span>
+                    <span className="text-foreground-muted">← {d.sidechain}</span>
+                    <span className="text-foreground-muted">{Math.round(d.depth * 100)}%</span>
+                    <div
+                      className="flex-1 max-w-20 h-1.5 bg-background-secondary rounded-full overflow-hidden"
+                      role="meter"
+                      aria-label={`${name} gain reduction`}
+                      aria-valuemin={0}
+                      aria-valuemax={METER_RANGE_DB}
+                      aria-valuenow={reduction}
+                    >
+                      <div
+                        className="h-full bg-orange-400 rounded-full"
+                        style={{ width: `${Math.min(1, reduction / METER_RANGE_DB) * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-foreground w-12 text-right">{(-reduction).toFixed(1)}dB</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* No effects fallback */}
         {!hasAny && (
           <div className="text-center py-4">
@@ -190,7 +246,7 @@ export const AudioEffects: React.FC<AudioEffectsProps> = ({
               No audio effects applied
             </div>
             <div className="text-xs text-foreground-muted">
-              Add groove, EQ, filter, LFO, delay, reverb, pan, or distort commands to see them here
+              Add groove, EQ, filter, LFO, delay, reverb, pan, distort or duck commands to see them here
             </div>
           </div>
         )}
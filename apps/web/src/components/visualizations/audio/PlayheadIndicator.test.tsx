@@ -21,6 +21,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={0}
+        position={0}
         isPlaying={false}
         tempo={120}
       />
@@ -33,6 +34,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={null}
         currentTime={0}
+        position={0}
         isPlaying={false}
         tempo={120}
       />
@@ -45,6 +47,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={0}
+        position={0}
         isPlaying={true}
         tempo={120}
       />
@@ -56,6 +59,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={0}
+        position={0}
         isPlaying={false}
         tempo={120}
       />
@@ -69,6 +73,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={65.5}
+        position={4}
         isPlaying={true}
         tempo={120}
       />
@@ -82,12 +87,13 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={1.0}
+        position={8}
         isPlaying={true}
         tempo={120}
       />
     );
 
-    // At 1.0s with 120 BPM and 4 steps/beat: 8 steps → index 8 → display 9
+    // 8 steps in → index 8 → display 9
     // Check the "Current Step" display specifically
     expect(screen.getByText('Current Step:')).toBeInTheDocument();
     const currentStepDisplay = screen.getByText('Current Step:').parentElement?.querySelector('.font-mono');
@@ -99,12 +105,13 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={1.0}
+        position={8}
         isPlaying={true}
         tempo={120}
       />
     );
 
-    // At 1.0s: step index 8 → display 9
+    // Step index 8 → display 9
     expect(screen.getByText('Pattern Loop: 9/16')).toBeInTheDocument();
   });
 
@@ -113,6 +120,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={1.0}
+        position={8}
         isPlaying={true}
         tempo={120}
       />
@@ -127,6 +135,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={0}
+        position={0}
         isPlaying={false}
         tempo={120}
         className="custom-class"
@@ -140,6 +149,7 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={0}
+        position={0}
         isPlaying={false}
         tempo={140}
       />
@@ -148,32 +158,32 @@ describe('PlayheadIndicator', () => {
     expect(screen.getByText('Stopped • 140 BPM')).toBeInTheDocument();
   });
 
-  it('calculates step position correctly for different tempos', () => {
+  it('takes the step from the transport position rather than the clock', () => {
     const { rerender } = render(
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={1.0}
+        position={8}
         isPlaying={true}
         tempo={120}
       />
     );
 
-    // At 120 BPM, 1 second = 2 beats = 8 steps
-    // Check the "Current Step" display specifically
     expect(screen.getByText('Current Step:')).toBeInTheDocument();
     const currentStepDisplay = screen.getByText('Current Step:').parentElement?.querySelector('.font-mono');
     expect(currentStepDisplay).toHaveTextContent('9'); // Step 9 (0-indexed)
 
+    // Mid tempo ramp the clock and the grid drift apart; the grid wins
     rerender(
       <PlayheadIndicator
         pattern={mockPattern}
         currentTime={1.0}
+        position={4.5}
         isPlaying={true}
         tempo={60}
       />
     );
 
-    // At 60 BPM, 1 second = 1 beat = 4 steps
     const currentStepDisplay2 = screen.getByText('Current Step:').parentElement?.querySelector('.font-mono');
     expect(currentStepDisplay2).toHaveTextContent('5'); // Step 5 (0-indexed)
   });
@@ -194,12 +204,13 @@ describe('PlayheadIndicator', () => {
       <PlayheadIndicator
         pattern={shortPattern}
         currentTime={0.5}
+        position={4}
         isPlaying={true}
         tempo={120}
       />
     );
 
-    // The component shows at least 16 steps; at 0.5s: 4 steps → index 4 → display 5
+    // The component shows at least 16 steps; 4 steps in → index 4 → display 5
     expect(screen.getByText('Pattern Loop: 5/16')).toBeInTheDocument();
     expect(screen.getByText('16 steps')).toBeInTheDocument();
   });
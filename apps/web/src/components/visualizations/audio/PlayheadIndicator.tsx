@@ -1,11 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { ParsedPattern } from '../../../types/app';
 import { BaseVisualization } from '../BaseVisualization';
-import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
+import { getBeatSteps, getLoopSteps } from '../../../services/stepTiming';
 
 interface PlayheadIndicatorProps {
   pattern: ParsedPattern | null;
   currentTime: number;
+  position: number; // in 16ths
   isPlaying: boolean;
   tempo: number;
   className?: string;
@@ -14,6 +15,7 @@ interface PlayheadIndicatorProps {
 export const PlayheadIndicator: React.FC<PlayheadIndicatorProps> = ({
   pattern,
   currentTime,
+  position,
   isPlaying,
   tempo,
   className = ''
@@ -24,19 +26,14 @@ export const PlayheadIndicator: React.FC<PlayheadIndicatorProps> = ({
   useEffect(() => {
     if (!pattern || !isPlaying) return;
 
-    // Calculate current step based on tempo and steps-per-beat (real-time)
-    const stepsPerSecond = (tempo / 60) * AUDIO_CONSTANTS.STEPS_PER_BEAT;
-    const totalStepsProgress = currentTime * stepsPerSecond; // fractional steps
-    const maxSteps = Math.max(
-      ...Object.values(pattern.instruments).map(inst => inst.steps.length),
-      16
-    );
-    const step = Math.floor(totalStepsProgress) % maxSteps;
-    const stepFraction = totalStepsProgress % 1;
+    // Transport position in fractional 16ths
+    const maxSteps = getLoopSteps(Object.values(pattern.instruments), pattern.timeSignature);
+    const step = Math.floor(position) % maxSteps;
+    const stepFraction = position % 1;
 
     setCurrentStep(step);
     setBeatPosition(stepFraction);
-  }, [currentTime, tempo, pattern, isPlaying]);
+  }, [position, pattern, isPlaying]);
 
   if (!pattern) {
     return (
@@ -46,9 +43,10 @@ export const PlayheadIndicator: React.FC<PlayheadIndicatorProps> = ({
     );
   }
 
-  const maxSteps = Math.max(...Object.values(pattern.instruments).map(inst => inst.steps.length), 16);
+  // Loop length in 16ths, whatever each line's resolution (one bar at minimum)
+  const maxSteps = getLoopSteps(Object.values(pattern.instruments), pattern.timeSignature);
   const stepWidth = 100 / maxSteps;
-  const stepsPerBeat = AUDIO_CONSTANTS.STEPS_PER_BEAT;
+  const stepsPerBeat = getBeatSteps(pattern.timeSignature);
   const totalSegments = Math.max(1, Math.ceil(maxSteps / stepsPerBeat));
 
   return (
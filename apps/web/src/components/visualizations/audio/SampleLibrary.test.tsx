@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SampleLibrary } from './SampleLibrary';
+
+const mockUpdateContent = vi.fn();
+const mockPreviewFmVoice = vi.fn();
+vi.mock('../../../contexts/AppContext', () => ({
+  usePattern: () => ({ content: 'TEMPO 120\n\nseq kick: x...', updateContent: mockUpdateContent }),
+  useAudio: () => ({ previewFmVoice: mockPreviewFmVoice }),
+}));
+
+const mockImportFiles = vi.fn();
+const mockRemoveSample = vi.fn();
+vi.mock('../../../hooks/useUserSamples', () => ({
+  useUserSamples: () => ({
+    samples: [{ name: 'my-kick', fileName: 'My Kick.wav', type: 'audio/wav', size: 8, duration: 0.5, sampleRate: 44100, channels: 1, addedAt: new Date() }],
+    isLoaded: true,
+    error: null,
+    importFiles: mockImportFiles,
+    removeSample: mockRemoveSample,
+  }),
+}));
+
+describe('SampleLibrary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('inserts a sample mapping after the tempo line', () => {
+    render(<SampleLibrary />);
+    fireEvent.click(screen.getAllByText('Insert')[0]);
+    expect(mockUpdateContent).toHaveBeenCalledWith('TEMPO 120\n\nsample kick: kick\nseq kick: x...');
+  });
+
+  it('previews an FM preset at its pitch', () => {
+    render(<SampleLibrary />);
+    fireEvent.click(screen.getByRole('button', { name: 'Preview Bell' }));
+    expect(mockPreviewFmVoice).toHaveBeenCalledWith({ name: 'bell', ratio: 3.5, index: 4, ienv: 0.3 }, 523.25);
+  });
+
+  it('inserts an fm line for a preset', () => {
+    render(<SampleLibrary />);
+    fireEvent.click(screen.getByRole('button', { name: 'Insert FM Bass' }));
+    expect(mockUpdateContent).toHaveBeenCalledWith('TEMPO 120\n\nfm bass: ratio=0.5 index=3 ienv=0.15\nseq kick: x...');
+  });
+
+  it('imports dropped files', () => {
+    render(<SampleLibrary />);
+    const file = new File([new Uint8Array(8)], 'snare.wav');
+    fireEvent.drop(screen.getByTestId('sample-drop-zone'), { dataTransfer: { files: [file] } });
+    expect(mockImportFiles).toHaveBeenCalledWith([file]);
+  });
+
+  it('lists imported samples with insert and remove', () => {
+    render(<SampleLibrary />);
+    expect(screen.getByText('user:my-kick · 0.50s')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Insert my-kick' }));
+    expect(mockUpdateContent).toHaveBeenCalledWith('TEMPO 120\n\nsample my_kick: user:my-kick\nseq kick: x...');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove my-kick' }));
+    expect(mockRemoveSample).toHaveBeenCalledWith('my-kick');
+  });
+});
@@ -1,6 +1,9 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { BaseVisualization } from '../BaseVisualization';
-import { usePattern } from '../../../contexts/AppContext';
+import { useAudio, usePattern } from '../../../contexts/AppContext';
+import { useUserSamples } from '../../../hooks/useUserSamples';
+import { UserSampleService } from '../../../services/userSampleService';
+import { FmModule } from '../../../types/app';
 
 interface SampleLibraryProps {
   className?: string;
@@ -13,13 +16,41 @@ const BUILT_IN_SAMPLES = [
   { id: 'clap', label: 'Clap' },
 ] as const;
 
+// FM presets, each auditioned at a pitch that suits it
+const FM_PRESETS: { label: string; voice: FmModule; pitch: number }[] = [
+  { label: 'Bell', voice: { name: 'bell', ratio: 3.5, index: 4, ienv: 0.3 }, pitch: 523.25 },
+  { label: 'E‑Piano', voice: { name: 'keys', ratio: 1, index: 2, ienv: 0.8 }, pitch: 261.63 },
+  { label: 'FM Bass', voice: { name: 'bass', ratio: 0.5, index: 3, ienv: 0.15 }, pitch: 65.41 },
+];
+
+const fmLineBody = ({ ratio, index, ienv }: FmModule) => `ratio=${ratio} index=${index} ienv=${ienv}`;
+
+// Instrument names are single words, so "my-kick" maps onto `sample my_kick: user:my-kick`
+const userSampleInstrument = (name: string) => name.replace(/-/g, '_');
+
+const ACCEPTED_FILES = UserSampleService.EXTENSIONS.map(ext => `.${ext}`).join(',');
+
 export const SampleLibrary: React.FC<SampleLibraryProps> = ({ className = '' }) => {
   const { content, updateContent } = usePattern();
+  const { previewFmVoice } = useAudio();
+  const { samples: userSamples, error: importError, importFiles, removeSample } = useUserSamples();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    importFiles(Array.from(event.dataTransfer.files));
+  }, [importFiles]);
+
+  const handleFileInput = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  }, [importFiles]);
 
-  const upsertSampleLine = useCallback((instrument: string, sample: string, gainSteps?: number) => {
+  const upsertLine = useCallback((keyword: 'sample' | 'fm', instrument: string, body: string) => {
     const lines = content.split('\n');
-    const targetPrefix = `sample ${instrument}:`;
-    const newline = `sample ${instrument}: ${sample}${typeof gainSteps === 'number' ? ` gain=${gainSteps}` : ''}`;
+    const targetPrefix = `${keyword} ${instrument}:`;
+    const newline = `${keyword} ${instrument}: ${body}`;
 
     // Replace if exists
     const idx = lines.findIndex(l => l.trim().toLowerCase().startsWith(targetPrefix));
@@ -68,7 +99,7 @@ export const SampleLibrary: React.FC<SampleLibraryProps> = ({ className = '' })
   return (
     <BaseVisualization
       className={className}
-      description="Built‑in samples you can map and trigger with seq"
+      description="Built‑in and imported samples and FM voices you can map and trigger with seq or notes"
       variant="ultra-compact"
     >
       <div className="space-y-3">
@@ -84,7 +115,77 @@ export const SampleLibrary: React.FC<SampleLibraryProps> = ({ className = '' })
               </div>
               <button
                 className="btn btn-primary btn-sm text-xs flex-shrink-0 whitespace-nowrap"
-                onClick={() => upsertSampleLine(s.id, s.id)}
+                onClick={() => upsertLine('sample', s.id, s.id)}
+              >
+                Insert
+              </button>
+            </div>
+          ))}
+        </div>
+        <div
+          className={`border border-dashed rounded p-3 text-center text-sm ${isDragging ? 'border-accent bg-background-secondary' : 'border-border'}`}
+          onDragOver={(event) => { event.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          data-testid="sample-drop-zone"
+        >
+          <div className="text-foreground-muted">Drop WAV, AIFF or OGG files here to import them</div>
+          <label className="btn btn-secondary btn-sm text-xs mt-2 cursor-pointer">
+            Choose files
+            <input type="file" accept={ACCEPTED_FILES} multiple className="hidden" onChange={handleFileInput} />
+          </label>
+        </div>
+        {importError && <div className="text-xs text-error">{importError}</div>}
+        {userSamples.length > 0 && (
+          <div className="grid grid-cols-1 gap-2">
+            {userSamples.map(s => (
+              <div key={s.name} className="border border-border rounded p-2 bg-background flex items-center justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate" title={s.fileName}>{s.fileName}</div>
+                  <div className="text-xs text-foreground-muted font-mono truncate">
+                    {UserSampleService.PREFIX}{s.name} · {s.duration.toFixed(2)}s
+                  </div>
+                </div>
+                <button
+                  className="btn btn-secondary btn-sm text-xs flex-shrink-0 whitespace-nowrap"
+                  onClick={() => removeSample(s.name)}
+                  aria-label={`Remove ${s.name}`}
+                >
+                  Remove
+                </button>
+                <button
+                  className="btn btn-primary btn-sm text-xs flex-shrink-0 whitespace-nowrap"
+                  onClick={() => upsertLine('sample', userSampleInstrument(s.name), UserSampleService.PREFIX + s.name)}
+                  aria-label={`Insert ${s.name}`}
+                >
+                  Insert
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="text-sm text-foreground-muted">
+          FM voices for bells, keys and basses; pair with a notes line.
+        </div>
+        <div className="grid grid-cols-1 gap-2">
+          {FM_PRESETS.map(p => (
+            <div key={p.voice.name} className="border border-border rounded p-2 bg-background flex items-center justify-between gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{p.label}</div>
+                <div className="text-xs text-foreground-muted font-mono truncate">fm {p.voice.name}: {fmLineBody(p.voice)}</div>
+              </div>
+              <button
+                className="btn btn-secondary btn-sm text-xs flex-shrink-0 whitespace-nowrap"
+                onClick={() => previewFmVoice?.(p.voice, p.pitch)}
+                disabled={!previewFmVoice}
+                aria-label={`Preview ${p.label}`}
+              >
+                Preview
+              </button>
+              <button
+                className="btn btn-primary btn-sm text-xs flex-shrink-0 whitespace-nowrap"
+                onClick={() => upsertLine('fm', p.voice.name, fmLineBody(p.voice))}
+                aria-label={`Insert ${p.label}`}
               >
                 Insert
               </button>
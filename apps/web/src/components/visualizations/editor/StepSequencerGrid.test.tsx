@@ -140,6 +140,54 @@ describe('StepSequencerGrid', () => {
     expect(screen.getByText('0 instruments • 16 steps')).toBeInTheDocument();
   });
 
+  it('shows the hit count on ratcheted steps', () => {
+    const ratchetPattern: ParsedPattern = {
+      tempo: 120,
+      instruments: {
+        hihat: {
+          name: 'hihat',
+          steps: [true, false, true, false],
+          ratchets: [null, null, { hits: 3, ramp: 'up' }, null]
+        }
+      },
+      totalSteps: 16
+    };
+
+    render(<StepSequencerGrid pattern={ratchetPattern} />);
+    expect(screen.getByText('3×')).toHaveAttribute('title', 'Step 3 - Active (ratchet ×3, ramp up)');
+  });
+
+  it('marks steps held by a tie', () => {
+    const tiedPattern: ParsedPattern = {
+      tempo: 120,
+      instruments: {
+        pad: { name: 'pad', steps: [true, false, false, false], lengths: [3, 0, 0, 0] }
+      },
+      totalSteps: 16
+    };
+
+    render(<StepSequencerGrid pattern={tiedPattern} />);
+    expect(screen.getByTitle('Step 2 - Held').className).toContain('opacity-40');
+    expect(screen.getByTitle('Step 3 - Held')).toBeInTheDocument();
+    expect(screen.getByTitle('Step 4 - Inactive')).toBeInTheDocument();
+  });
+
+  it('advances lines at their own resolution', () => {
+    const mixedPattern: ParsedPattern = {
+      tempo: 120,
+      instruments: {
+        kick: { name: 'kick', steps: Array(16).fill(false) },
+        pad: { name: 'pad', steps: Array(8).fill(false), resolution: '8n' }
+      },
+      totalSteps: 16
+    };
+    render(<StepSequencerGrid pattern={mixedPattern} currentStep={6.5} />);
+    const [kickRow, padRow] = ['kick', 'pad'].map(name => screen.getByText(name).parentElement!);
+    expect(kickRow.querySelectorAll('button')[6].className).toContain('ring-warning');
+    expect(padRow.querySelectorAll('button')[3].className).toContain('ring-warning');
+    expect(screen.getByText('8n')).toBeInTheDocument();
+  });
+
   it('displays tempo and total steps in pattern info', () => {
     render(<StepSequencerGrid pattern={mockPattern} />);
     
@@ -1,10 +1,11 @@
 import React, { useMemo } from 'react';
 import { ParsedPattern } from '../../../types/app';
 import { BaseVisualization } from '../BaseVisualization';
+import { toInstrumentStep } from '../../../services/stepTiming';
 
 interface StepSequencerGridProps {
   pattern: ParsedPattern | null;
-  currentStep?: number;
+  currentStep?: number; // playhead position in 16th notes (may be fractional)
   onStepToggle?: (instrument: string, step: number) => void;
   className?: string;
 }
@@ -65,19 +66,33 @@ export const StepSequencerGrid: React.FC<StepSequencerGridProps> = ({
         {gridData.instruments.map((instrument) => {
           const instrumentData = pattern.instruments[instrument];
           const steps = instrumentData.steps;
+          // Lines at 8n / 16t / 32n advance at their own rate
+          const instrumentStep = currentStep < 0 ? -1 : toInstrumentStep(currentStep, instrumentData);
+          // Steps covered by a tie (x---) show as a dimmed continuation of their hit
+          const heldSteps = new Set<number>();
+          instrumentData.lengths?.forEach((length, start) => {
+            for (let i = 1; i < length; i++) heldSteps.add(start + i);
+          });
           
           return (
             <div key={instrument} className="flex items-center space-x-1 sm:space-x-2 min-w-0 w-full">
               {/* Instrument Label */}
               <div className="w-10 sm:w-12 md:w-14 text-xs sm:text-sm font-medium text-foreground-muted capitalize flex-shrink-0">
                 {instrument}
+                {instrumentData.resolution && (
+                  <span className="block text-[9px] sm:text-[10px] font-mono normal-case opacity-70">{instrumentData.resolution}</span>
+                )}
               </div>
               
               {/* Step Grid */}
               <div className="flex space-x-0.5 sm:space-x-1 flex-1 min-w-0 overflow-x-auto custom-scrollbar">
                 {gridData.steps.map((stepIndex) => {
                   const isActive = stepIndex < steps.length ? steps[stepIndex] : false;
-                  const isCurrentStep = stepIndex === currentStep;
+                  const isCurrentStep = stepIndex === instrumentStep;
+                  const isHeld = heldSteps.has(stepIndex);
+                  // Ratcheted steps show their hit count instead of the step number
+                  const ratchet = isActive ? instrumentData.ratchets?.[stepIndex] : null;
+                  const rampLabel = ratchet?.ramp === 'up' ? ', ramp up' : ratchet?.ramp === 'down' ? ', ramp down' : '';
                   
                   return (
                     <button
@@ -88,14 +103,16 @@ export const StepSequencerGrid: React.FC<StepSequencerGridProps> = ({
                         text-[10px] sm:text-xs font-mono leading-none
                         ${isActive
                           ? `${getInstrumentColor(instrument)} text-white border-transparent shadow-sm`
-                          : 'bg-background-tertiary border-border/50 hover:border-foreground-muted'
+                          : isHeld
+                            ? `${getInstrumentColor(instrument)} text-white border-transparent opacity-40`
+                            : 'bg-background-tertiary border-border/50 hover:border-foreground-muted'
                         }
                         ${isCurrentStep ? 'ring-1 ring-warning ring-opacity-75 brightness-125' : ''}
                         ${onStepToggle ? 'cursor-pointer hover:scale-105' : 'cursor-default'}
                       `}
-                      title={`Step ${stepIndex + 1} - ${isActive ? 'Active' : 'Inactive'}`}
+                      title={`Step ${stepIndex + 1} - ${isActive ? 'Active' : isHeld ? 'Held' : 'Inactive'}${ratchet ? ` (ratchet ×${ratchet.hits}${rampLabel})` : ''}`}
                     >
-                      {stepIndex + 1}
+                      {ratchet ? `${ratchet.hits}×` : stepIndex + 1}
                     </button>
                   );
                 })}
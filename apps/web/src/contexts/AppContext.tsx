@@ -54,7 +54,9 @@ export const useAudio = () => {
     setTempo: actions.setTempo,
     setVolume: actions.setVolume,
     initialize: actions.initializeAudio,
-    setOverflowMode: actions.setOverflowMode
+    setOverflowMode: actions.setOverflowMode,
+    setFillMode: actions.setFillMode,
+    previewFmVoice: actions.previewFmVoice
   };
 };
 
@@ -92,6 +92,8 @@ export const useAppState = () => {
     setTempo: audioEngine.setTempo,
     setVolume: audioEngine.setVolume,
     setOverflowMode: audioEngine.setOverflowMode,
+    setFillMode: audioEngine.setFillMode,
+    previewFmVoice: audioEngine.previewFmVoice,
 
     // UI actions
     setActiveTab: useCallback((tab: UIState['activeTab']) => {
@@ -1,6 +1,7 @@
 // Custom hook for pattern editing functionality
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { PatternParser } from '../services/patternParser';
+import { useUserSamples } from './useUserSamples';
 import { ParsedPattern, ValidationResult } from '../types/app';
 
 export const usePatternEditor = () => {
@@ -23,12 +24,18 @@ seq hihat: x.x.x.x.x.x.x.x.`);
   const [cursorPosition, setCursorPosition] = useState(0);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [parsedPattern, setParsedPattern] = useState<ParsedPattern | null>(null);
+  // Names in the user sample library, once read, for missing-sample warnings
+  const { isLoaded: userSamplesLoaded, samples: userSampleList } = useUserSamples();
+  const userSampleNames = useMemo(
+    () => (userSamplesLoaded ? userSampleList.map(sample => sample.name) : undefined),
+    [userSamplesLoaded, userSampleList]
+  );
 
   // Validate and parse pattern when content changes
   useEffect(() => {
     const validateAndParse = async () => {
       try {
-        const validationResult = PatternParser.validate(content);
+        const validationResult = PatternParser.validate(content, userSampleNames);
         setValidation(validationResult);
 
         if (validationResult.isValid) {
@@ -53,7 +60,7 @@ seq hihat: x.x.x.x.x.x.x.x.`);
     // Debounce validation to avoid excessive processing (more responsive live edits)
     const timeoutId = setTimeout(validateAndParse, 120);
     return () => clearTimeout(timeoutId);
-  }, [content]);
+  }, [content, userSampleNames]);
 
   const updateContent = useCallback((newContent: string) => {
     setContent(newContent);
@@ -1,7 +1,7 @@
 // Unified Audio Engine Hook - Real-time everything, no pre-calculation
 import { useState, useCallback, useEffect } from 'react';
 import { unifiedAudioEngine } from '../services/unifiedAudioEngine';
-import { UnifiedAudioState } from '../types/app';
+import { FmModule, UnifiedAudioState } from '../types/app';
 
 export const useUnifiedAudioEngine = () => {
   const [state, setState] = useState<UnifiedAudioState>({
@@ -11,10 +11,12 @@ export const useUnifiedAudioEngine = () => {
     tempo: 120,
     volume: -6,
     currentTime: 0,
+    position: 0,
     error: null,
     effectsEnabled: false,
     audioQuality: 'high',
-    overflowMode: 'loop'
+    overflowMode: 'loop',
+    fillMode: false
   });
 
   // Initialize unified audio engine
@@ -202,6 +204,36 @@ export const useUnifiedAudioEngine = () => {
     }
   }, [updateState]);
 
+  // Fill mode for @fill / @!fill trig conditions
+  const setFillMode = useCallback((enabled: boolean) => {
+    try {
+      unifiedAudioEngine.setFillMode(enabled);
+      updateState();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to set fill mode';
+      setState(prev => ({
+        ...prev,
+        error: errorMessage
+      }));
+    }
+  }, [updateState]);
+
+  // Audition an FM voice (initialising audio on first use)
+  const previewFmVoice = useCallback(async (fm: FmModule, pitch?: number) => {
+    try {
+      if (!unifiedAudioEngine.getState().isInitialized) {
+        await initialize();
+      }
+      unifiedAudioEngine.previewFmVoice(fm, pitch);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to preview voice';
+      setState(prev => ({
+        ...prev,
+        error: errorMessage
+      }));
+    }
+  }, [initialize]);
+
   // Get parameter history for debugging
   const getParameterHistory = useCallback(() => {
     return unifiedAudioEngine.getParameterHistory();
@@ -233,6 +265,8 @@ export const useUnifiedAudioEngine = () => {
     setVolume,
     loadPattern,
     getParameterHistory,
-    setOverflowMode
+    setOverflowMode,
+    setFillMode,
+    previewFmVoice
   };
 };
@@ -0,0 +1,52 @@
+// User sample library hook - imported samples, kept in sync across components
+import { useState, useCallback, useEffect } from 'react';
+import { unifiedAudioEngine } from '../services/unifiedAudioEngine';
+import { UserSample, UserSampleService } from '../services/userSampleService';
+
+export const useUserSamples = () => {
+  // null until the library has been read, so callers can tell "empty" from "not loaded yet"
+  const [samples, setSamples] = useState<UserSample[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    UserSampleService.list().then(list => {
+      if (active) setSamples(list);
+    });
+    const unsubscribe = UserSampleService.subscribe(setSamples);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Import dropped or picked files one by one; a bad file doesn't stop the rest
+  const importFiles = useCallback(async (files: File[]) => {
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await unifiedAudioEngine.importUserSample(file);
+      } catch (e) {
+        failures.push(e instanceof Error ? e.message : `Failed to import ${file.name}`);
+      }
+    }
+    setError(failures.length > 0 ? failures.join('. ') : null);
+  }, []);
+
+  const removeSample = useCallback(async (name: string) => {
+    try {
+      await unifiedAudioEngine.removeUserSample(name);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to remove ${name}`);
+    }
+  }, []);
+
+  return {
+    samples: samples ?? [],
+    isLoaded: samples !== null,
+    error,
+    importFiles,
+    removeSample
+  };
+};
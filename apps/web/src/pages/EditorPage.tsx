@@ -4,7 +4,7 @@ import { ChatInterface } from '../components/ai/ChatInterface';
 import { TransportControls } from '../components/audio/TransportControls';
 import { VisualizationPanel } from '../components/layout/VisualizationPanel';
 import { usePattern, useAudio } from '../contexts/AppContext';
-import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
+import { locateSongStep } from '../services/songArrangement';
 
 const PANEL_SIZES_KEY = 'ascii-seq-panel-sizes';
 
@@ -33,10 +33,13 @@ export const EditorPage: React.FC = () => {
   const { parsedPattern } = usePattern();
   const { state: audioState, play, pause, stop, initialize } = useAudio();
 
-  // Current sequencer step (uses STEPS_PER_BEAT to reflect 16th-note resolution)
-  const currentStep = Math.floor(
-    audioState.currentTime * ((audioState.tempo / 60) * AUDIO_CONSTANTS.STEPS_PER_BEAT)
-  ) % (parsedPattern?.totalSteps || 16);
+  // Current position in 16th notes. Kept fractional so lines at other
+  // resolutions (8n, 16t, 32n) can derive their own step from it
+  const globalStep = audioState.position;
+  // In song mode this is the position within the active section
+  const currentStep = parsedPattern
+    ? locateSongStep(parsedPattern, globalStep).step
+    : globalStep % 16;
 
   // Panel sizes for desktop resizable layout
   const [panelSizes, setPanelSizes] = useState<PanelSizes>(loadPanelSizes);
@@ -183,8 +186,10 @@ export const EditorPage: React.FC = () => {
                 pattern={parsedPattern}
                 currentStep={currentStep}
                 currentTime={audioState.currentTime}
+                position={audioState.position}
                 isPlaying={audioState.isPlaying}
                 tempo={audioState.tempo}
+                gainReduction={audioState.gainReduction}
                 className="h-auto w-full"
               />
             </div>
@@ -231,8 +236,10 @@ export const EditorPage: React.FC = () => {
             pattern={parsedPattern}
             currentStep={currentStep}
             currentTime={audioState.currentTime}
+            position={audioState.position}
             isPlaying={audioState.isPlaying}
             tempo={audioState.tempo}
+            gainReduction={audioState.gainReduction}
             className="h-auto w-full"
           />
         </div>
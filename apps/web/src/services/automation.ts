@@ -0,0 +1,81 @@
+/**
+ * Automation lanes — per-step values for instrument chain params, written as
+ * `auto kick.filter.freq: 200 400 800 . . 1200`. A number sets the param on
+ * that step; `.` holds whatever the previous step (or the module line) set.
+ *
+ * Values use the same units as the module lines they override: Hz for
+ * filter.freq, -1..1 for pan, AMP steps (-3..+3) for amp, seconds for delay.time,
+ * Hz for chorus.rate and phaser.rate.
+ */
+
+import { AutomationTarget, ParsedPattern } from '../types/app';
+
+interface AutomationRange {
+  min: number;
+  max: number;
+  fallback: number; // chain value when no module line sets the param
+}
+
+export const AUTOMATION_RANGES: Record<AutomationTarget, AutomationRange> = {
+  'amp': { min: -3, max: 3, fallback: 0 },
+  'filter.freq': { min: 20, max: 20000, fallback: 20000 },
+  'filter.q': { min: 0.1, max: 30, fallback: 1 },
+  'pan': { min: -1, max: 1, fallback: 0 },
+  'delay.time': { min: 0.01, max: 2, fallback: 0.25 },
+  'delay.feedback': { min: 0, max: 0.95, fallback: 0.4 },
+  'delay.mix': { min: 0, max: 1, fallback: 0.3 },
+  'reverb.mix': { min: 0, max: 1, fallback: 0.3 },
+  'distort.mix': { min: 0, max: 1, fallback: 0.3 },
+  'chorus.rate': { min: 0.1, max: 10, fallback: 1.5 },
+  'chorus.depth': { min: 0, max: 1, fallback: 0.4 },
+  'chorus.mix': { min: 0, max: 1, fallback: 0.3 },
+  'phaser.rate': { min: 0.1, max: 10, fallback: 0.5 },
+  'phaser.depth': { min: 0, max: 1, fallback: 0.6 },
+  'phaser.mix': { min: 0, max: 1, fallback: 0.3 },
+};
+
+export function isAutomationTarget(value: string): value is AutomationTarget {
+  return value in AUTOMATION_RANGES;
+}
+
+export function clampAutomationValue(target: AutomationTarget, value: number): number {
+  const { min, max } = AUTOMATION_RANGES[target];
+  return Math.max(min, Math.min(max, value));
+}
+
+/** The value a param returns to when its lane goes away: the module line's, else the chain default */
+export function getAutomationBaseValue(pattern: ParsedPattern | null, name: string, target: AutomationTarget): number {
+  const fallback = AUTOMATION_RANGES[target].fallback;
+  switch (target) {
+    case 'amp':
+      return pattern?.ampModules?.[name]?.gain ?? fallback;
+    case 'filter.freq':
+      return pattern?.filterModules?.[name]?.freq ?? fallback;
+    case 'filter.q':
+      return pattern?.filterModules?.[name]?.Q ?? fallback;
+    case 'pan':
+      return pattern?.panModules?.[name]?.value ?? fallback;
+    case 'delay.time':
+      return pattern?.delayModules?.[name]?.time ?? fallback;
+    case 'delay.feedback':
+      return pattern?.delayModules?.[name]?.feedback ?? fallback;
+    case 'delay.mix':
+      return pattern?.delayModules?.[name]?.mix ?? fallback;
+    case 'reverb.mix':
+      return pattern?.reverbModules?.[name]?.mix ?? fallback;
+    case 'distort.mix':
+      return pattern?.distortModules?.[name]?.mix ?? fallback;
+    case 'chorus.rate':
+      return pattern?.chorusModules?.[name]?.rate ?? fallback;
+    case 'chorus.depth':
+      return pattern?.chorusModules?.[name]?.depth ?? fallback;
+    case 'chorus.mix':
+      return pattern?.chorusModules?.[name]?.mix ?? fallback;
+    case 'phaser.rate':
+      return pattern?.phaserModules?.[name]?.rate ?? fallback;
+    case 'phaser.depth':
+      return pattern?.phaserModules?.[name]?.depth ?? fallback;
+    case 'phaser.mix':
+      return pattern?.phaserModules?.[name]?.mix ?? fallback;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderDrum, defaultDrum, drumKey, BUILT_IN_DRUMS, DRUM_MODELS } from './drumSynth';
+
+// Minimal offline context: buffers are plain Float32Arrays
+function fakeContext(sampleRate = 8000) {
+  return {
+    sampleRate,
+    createBuffer: vi.fn((_channels: number, length: number) => {
+      const data = new Float32Array(length);
+      return { length, getChannelData: () => data };
+    }),
+  } as unknown as BaseAudioContext;
+}
+
+const peak = (data: Float32Array) => data.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+
+// Frequency of a rendered tone from its zero crossings over the first `seconds`
+function crossings(data: Float32Array, sampleRate: number, seconds: number) {
+  let count = 0;
+  for (let i = 1; i < Math.floor(seconds * sampleRate); i++) {
+    if ((data[i - 1] < 0) !== (data[i] < 0)) count++;
+  }
+  return count;
+}
+
+describe('drumSynth', () => {
+  it('should render every built-in sample from a model', () => {
+    expect(Object.values(BUILT_IN_DRUMS).sort()).toEqual([...DRUM_MODELS].sort());
+    DRUM_MODELS.forEach(model => {
+      const data = renderDrum(fakeContext(), defaultDrum(model, model)).getChannelData(0);
+      expect(peak(data)).toBeGreaterThan(0.05);
+      expect(peak(data)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should scale the length with decay', () => {
+    const ac = fakeContext();
+    expect(renderDrum(ac, defaultDrum('kick', 'kick')).length).toBe(1600);
+    expect(renderDrum(ac, { ...defaultDrum('kick', 'kick'), decay: 2 }).length).toBe(3200);
+  });
+
+  it('should shift pitch by tune semitones', () => {
+    const ac = fakeContext();
+    const base = crossings(renderDrum(ac, defaultDrum('perc', 'perc')).getChannelData(0), 8000, 0.1);
+    const octaveUp = crossings(renderDrum(ac, { ...defaultDrum('perc', 'perc'), tune: 12 }).getChannelData(0), 8000, 0.1);
+    expect(octaveUp / base).toBeCloseTo(2, 0);
+  });
+
+  it('should add a transient with click', () => {
+    const ac = fakeContext();
+    const plain = renderDrum(ac, defaultDrum('808', '808')).getChannelData(0);
+    const clicked = renderDrum(ac, { ...defaultDrum('808', '808'), click: 1 }).getChannelData(0);
+    const transient = clicked.slice(0, 32).map((x, i) => x - plain[i]);
+    expect(peak(transient)).toBeGreaterThan(0.05);
+    expect(peak(clicked)).toBeLessThanOrEqual(1);
+    expect(clicked.slice(100)).toEqual(plain.slice(100));
+  });
+
+  it('should drive pitched models with tone without raising the peak', () => {
+    const ac = fakeContext();
+    const plain = renderDrum(ac, defaultDrum('kick', 'kick')).getChannelData(0);
+    const driven = renderDrum(ac, { ...defaultDrum('kick', 'kick'), tone: 1 }).getChannelData(0);
+    expect(peak(driven)).toBeCloseTo(peak(plain), 5);
+    // Drive squares the wave off, so late samples sit much closer to the peak
+    expect(Math.abs(driven[1000])).toBeGreaterThan(Math.abs(plain[1000]));
+  });
+
+  it('should key voices by their parameters', () => {
+    expect(drumKey(defaultDrum('kick', '808'))).toBe(drumKey(defaultDrum('boom', '808')));
+    expect(drumKey({ ...defaultDrum('kick', '808'), tune: -3 })).not.toBe(drumKey(defaultDrum('kick', '808')));
+  });
+});
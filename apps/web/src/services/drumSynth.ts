@@ -0,0 +1,204 @@
+/**
+ * Drum synthesis — renders one-shot drum buffers from `drum` line parameters,
+ * e.g. `drum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2`.
+ *
+ * Each model is one of the procedural voices behind the built-in sample bank;
+ * at the default parameters (tune 0, decay 1, click 0, tone 0) a model renders
+ * that built-in sample, so the stock kit is just the drum synth left alone.
+ *
+ *   tune  — semitones; shifts every oscillator and sweep of the model
+ *   decay — multiplies the length of the hit, and with it the fade
+ *   click — mixes a few milliseconds of noise transient onto the attack
+ *   tone  — drive (extra harmonics) for the pitched kick/808/tom,
+ *           treble lift for the noisy and metallic models
+ */
+
+import { DrumModel, DrumModule } from '../types/app';
+
+export const DRUM_MODELS: DrumModel[] = ['kick', '808', 'snare', 'tom', 'hat', 'openhat', 'clap', 'rim', 'cowbell', 'shaker', 'crash', 'perc'];
+
+/** Built-in sample name -> the drum model that renders it */
+export const BUILT_IN_DRUMS: Record<string, DrumModel> = {
+  kick: 'kick',
+  snare: 'snare',
+  hihat: 'hat',
+  clap: 'clap',
+  kick808: '808',
+  rim: 'rim',
+  tom: 'tom',
+  cowbell: 'cowbell',
+  shaker: 'shaker',
+  crash: 'crash',
+  openhat: 'openhat',
+  perc: 'perc',
+};
+
+export function isDrumModel(value: string): value is DrumModel {
+  return DRUM_MODELS.includes(value as DrumModel);
+}
+
+const TWO_PI = 2 * Math.PI;
+const CLICK_LENGTH = 0.004; // seconds of transient added by `click`
+const PITCHED: DrumModel[] = ['kick', '808', 'tom'];
+
+// Shape of each model: its base length and a writer that fills the channel.
+// `pitch` is the tune ratio; writers take t = 0..1 across the (decay-scaled) length.
+interface DrumShape {
+  duration: number;
+  render: (ch: Float32Array, sr: number, pitch: number) => void;
+}
+
+function sweep(startFreq: number, endFreq: number, envPower: number, level: number) {
+  return (ch: Float32Array, sr: number, pitch: number) => {
+    let phase = 0;
+    for (let i = 0; i < ch.length; i++) {
+      const t = i / ch.length;
+      const freq = startFreq * pitch * Math.pow(endFreq / startFreq, t);
+      phase += TWO_PI * freq / sr;
+      ch[i] = Math.sin(phase) * Math.pow(1 - t, envPower) * level;
+    }
+  };
+}
+
+// Noise with an optional one-pole high-pass (`hp` = how much of the previous sample to subtract)
+function noise(envPower: number, level: number, hp = 0) {
+  return (ch: Float32Array) => {
+    let prev = 0;
+    for (let i = 0; i < ch.length; i++) {
+      const t = i / ch.length;
+      const n = Math.random() * 2 - 1;
+      ch[i] = (n - prev * hp) * Math.pow(1 - t, envPower) * level;
+      prev = n;
+    }
+  };
+}
+
+const SHAPES: Record<DrumModel, DrumShape> = {
+  kick: { duration: 0.2, render: sweep(120, 40, 4, 0.9) },
+  '808': { duration: 0.5, render: sweep(60, 30, 2, 0.95) },
+  tom: { duration: 0.3, render: sweep(200, 80, 3, 0.8) },
+  snare: { duration: 0.15, render: noise(8, 0.6) },
+  hat: { duration: 0.07, render: noise(10, 0.35) },
+  openhat: { duration: 0.25, render: noise(3, 0.3, 0.85) },
+  shaker: { duration: 0.05, render: noise(12, 0.3, 1) },
+  crash: { duration: 1.2, render: noise(1.5, 0.25) },
+  clap: {
+    // Multi-tap noise bursts, normalised to avoid clipping
+    duration: 0.2,
+    render: (ch, sr) => {
+      const len = ch.length;
+      for (const tTap of [0, 0.015, 0.03, 0.045]) {
+        const start = Math.min(len, Math.floor(tTap * sr));
+        for (let i = 0; i < len - start; i++) {
+          const t = i / (len - start);
+          ch[start + i] += (Math.random() * 2 - 1) * Math.pow(1 - t, 10) * 0.18;
+        }
+      }
+      normalise(ch, 0.95);
+    },
+  },
+  rim: {
+    // Tonal click mixed with noise
+    duration: 0.04,
+    render: (ch, sr, pitch) => {
+      for (let i = 0; i < ch.length; i++) {
+        const t = i / ch.length;
+        const tone = Math.sin(TWO_PI * 1200 * pitch * i / sr) * 0.6;
+        const n = (Math.random() * 2 - 1) * 0.4;
+        ch[i] = (tone + n) * Math.pow(1 - t, 15) * 0.7;
+      }
+    },
+  },
+  cowbell: {
+    // Two detuned square tones for metallic character
+    duration: 0.15,
+    render: (ch, sr, pitch) => {
+      for (let i = 0; i < ch.length; i++) {
+        const t = i / ch.length;
+        const s1 = Math.sign(Math.sin(TWO_PI * 545 * pitch * i / sr)) * 0.3;
+        const s2 = Math.sign(Math.sin(TWO_PI * 810 * pitch * i / sr)) * 0.3;
+        ch[i] = (s1 + s2) * Math.pow(1 - t, 5) * 0.5;
+      }
+    },
+  },
+  perc: {
+    // Inharmonic sine partials
+    duration: 0.35,
+    render: (ch, sr, pitch) => {
+      const freqs = [340, 553, 788, 1024];
+      const amps = [0.4, 0.3, 0.2, 0.1];
+      for (let i = 0; i < ch.length; i++) {
+        const t = i / ch.length;
+        let sample = 0;
+        for (let f = 0; f < freqs.length; f++) {
+          sample += Math.sin(TWO_PI * freqs[f] * pitch * i / sr) * amps[f];
+        }
+        ch[i] = sample * Math.pow(1 - t, 4) * 0.6;
+      }
+    },
+  },
+};
+
+function peak(ch: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < ch.length; i++) max = Math.max(max, Math.abs(ch[i]));
+  return max;
+}
+
+function normalise(ch: Float32Array, target: number): void {
+  const max = peak(ch);
+  if (max > 1e-6) {
+    const s = target / max;
+    for (let i = 0; i < ch.length; i++) ch[i] *= s;
+  }
+}
+
+// Drive for pitched models, first-difference treble lift for the others; keeps the original peak
+function applyTone(ch: Float32Array, model: DrumModel, tone: number): void {
+  if (tone <= 0) return;
+  const before = peak(ch);
+  if (PITCHED.includes(model)) {
+    const drive = 1 + tone * 8;
+    for (let i = 0; i < ch.length; i++) ch[i] = Math.tanh(ch[i] * drive);
+  } else {
+    let prev = 0;
+    for (let i = 0; i < ch.length; i++) {
+      const x = ch[i];
+      ch[i] = x + (x - prev) * tone * 2;
+      prev = x;
+    }
+  }
+  normalise(ch, before);
+}
+
+function applyClick(ch: Float32Array, sr: number, click: number): void {
+  if (click <= 0) return;
+  const len = Math.min(ch.length, Math.floor(CLICK_LENGTH * sr));
+  for (let i = 0; i < len; i++) {
+    const t = i / len;
+    ch[i] = Math.max(-1, Math.min(1, ch[i] + (Math.random() * 2 - 1) * Math.pow(1 - t, 2) * click * 0.8));
+  }
+}
+
+/** Default parameters for a model: renders its built-in sample */
+export function defaultDrum(name: string, model: DrumModel): DrumModule {
+  return { name, model, tune: 0, decay: 1, click: 0, tone: 0 };
+}
+
+/** Render a one-shot buffer for a drum voice */
+export function renderDrum(ac: BaseAudioContext, drum: DrumModule): AudioBuffer {
+  const shape = SHAPES[drum.model];
+  const sr = ac.sampleRate;
+  const len = Math.max(1, Math.floor(shape.duration * drum.decay * sr));
+  const buf = ac.createBuffer(1, len, sr);
+  const ch = buf.getChannelData(0);
+  shape.render(ch, sr, Math.pow(2, drum.tune / 12));
+  applyTone(ch, drum.model, drum.tone);
+  applyClick(ch, sr, drum.click);
+  return buf;
+}
+
+/** Cache key for a rendered voice: equal keys render the same sound */
+export function drumKey(drum: DrumModule): string {
+  return `${drum.model}:${drum.tune}:${drum.decay}:${drum.click}:${drum.tone}`;
+}
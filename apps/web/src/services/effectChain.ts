@@ -0,0 +1,63 @@
+/**
+ * Effect chain order — the stages an instrument or the master runs through,
+ * reordered with `chain kick: distort > filter > comp > eq`. Stages a chain
+ * line leaves out follow the listed ones in their default order. An
+ * instrument's amp always comes first and its pan last; the master's amp
+ * comes last.
+ */
+
+import { ChainModule, ChainStage, ParsedPattern } from '../types/app';
+
+export type ChainScope = 'instrument' | 'master';
+
+/** Every stage each chain can reorder, in default order */
+export const CHAIN_STAGES: Record<ChainScope, ChainStage[]> = {
+  instrument: ['filter', 'comp', 'duck', 'eq', 'distort', 'chorus', 'phaser', 'delay', 'reverb'],
+  master: ['eq', 'comp', 'distort', 'delay', 'reverb', 'chorus', 'phaser'],
+};
+
+// The module line that sets each stage up
+const STAGE_MODULES: Record<ChainStage, keyof ParsedPattern> = {
+  filter: 'filterModules',
+  comp: 'compModules',
+  duck: 'duckModules',
+  eq: 'eqModules',
+  distort: 'distortModules',
+  delay: 'delayModules',
+  reverb: 'reverbModules',
+  chorus: 'chorusModules',
+  phaser: 'phaserModules',
+};
+
+export function getChainScope(name: string): ChainScope {
+  return name.toLowerCase() === 'master' ? 'master' : 'instrument';
+}
+
+/** Processing order for a chain: its `chain` line's stages, then the rest in default order */
+export function getChainOrder(chain: ChainModule | undefined, scope: ChainScope): ChainStage[] {
+  const listed = chain?.order ?? [];
+  return [...listed, ...CHAIN_STAGES[scope].filter(stage => !listed.includes(stage))];
+}
+
+/** Whether a pattern has the module line for a stage, e.g. `reverb kick:` */
+function hasStageModule(pattern: ParsedPattern, name: string, stage: ChainStage): boolean {
+  const modules = pattern[STAGE_MODULES[stage]] as Record<string, unknown> | undefined;
+  return !!modules?.[name];
+}
+
+/** The stages a chain actually runs, in order: those with a module line */
+export function getSignalFlow(pattern: ParsedPattern, name: string): ChainStage[] {
+  return getChainOrder(pattern.chainModules?.[name], getChainScope(name))
+    .filter(stage => hasStageModule(pattern, name, stage));
+}
+
+/** Chains whose order is worth showing: those with a `chain` line or more than one stage */
+export function getSignalFlows(pattern: ParsedPattern): Array<{ name: string; stages: ChainStage[] }> {
+  const names = new Set(Object.keys(pattern.chainModules ?? {}));
+  Object.values(STAGE_MODULES).forEach(key => {
+    Object.keys((pattern[key] as Record<string, unknown> | undefined) ?? {}).forEach(name => names.add(name));
+  });
+  return Array.from(names)
+    .map(name => ({ name, stages: getSignalFlow(pattern, name) }))
+    .filter(({ name, stages }) => stages.length > 1 || (pattern.chainModules?.[name] && stages.length > 0));
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Flam & Roll', () => {
+  describe('Articulation Steps', () => {
+    it('should parse f and r as hits with articulations', () => {
+      const result = PatternParser.parse(`TEMPO 120
+seq snare: ....f...r...x...`);
+      const snare = result.instruments.snare;
+      expect(snare.steps[4]).toBe(true);
+      expect(snare.steps[8]).toBe(true);
+      expect(snare.velocities![4]).toBe(0.7);
+      expect(snare.articulations![4]).toBe('flam');
+      expect(snare.articulations![8]).toBe('roll');
+      expect(snare.articulations![12]).toBeNull();
+      expect(snare.articulations).toHaveLength(16);
+    });
+
+    it('should omit articulations when none are used', () => {
+      const result = PatternParser.parse(`seq kick: x...x...x...x...`);
+      expect(result.instruments.kick.articulations).toBeUndefined();
+    });
+  });
+
+  describe('Articulation Modules', () => {
+    it('should parse flam spacing and roll count', () => {
+      const result = PatternParser.parse(`articulation snare: flam=0.02 roll=4
+seq snare: ....f...r.......`);
+      expect(result.articulationModules?.snare).toEqual({ name: 'snare', flam: 0.02, roll: 4 });
+    });
+
+    it('should default and clamp values', () => {
+      const result = PatternParser.parse(`articulation snare: roll=20
+articulation tom: flam=1`);
+      expect(result.articulationModules?.snare).toEqual({ name: 'snare', flam: 0.03, roll: 8 });
+      expect(result.articulationModules?.tom.flam).toBe(0.1);
+    });
+  });
+
+  describe('Articulation Validation', () => {
+    it('should accept f and r in sequences', () => {
+      const result = PatternParser.validate(`TEMPO 120
+seq snare: ....f.......r...`);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject articulation lines without options', () => {
+      const result = PatternParser.validate(`TEMPO 120
+articulation snare: fast
+seq snare: ....f...`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('Invalid articulation values for snare');
+    });
+  });
+
+  describe('Ratchets', () => {
+    it('should parse digit and brace ratchets without adding steps', () => {
+      const result = PatternParser.parse(`seq hihat: x.x3.X{4}.`);
+      const hihat = result.instruments.hihat;
+      expect(hihat.steps).toEqual([true, false, true, false, true, false]);
+      expect(hihat.velocities![4]).toBe(1.0);
+      expect(hihat.ratchets).toEqual([
+        null, null, { hits: 3, ramp: 'none' }, null, { hits: 4, ramp: 'none' }, null,
+      ]);
+    });
+
+    it('should parse velocity ramps', () => {
+      const result = PatternParser.parse(`seq hihat: x4<...X{6}>...`);
+      const ratchets = result.instruments.hihat.ratchets!;
+      expect(ratchets[0]).toEqual({ hits: 4, ramp: 'up' });
+      expect(ratchets[4]).toEqual({ hits: 6, ramp: 'down' });
+    });
+
+    it('should omit ratchets when none are used', () => {
+      const result = PatternParser.parse(`seq hihat: x.x.x.x.`);
+      expect(result.instruments.hihat.ratchets).toBeUndefined();
+    });
+
+    it('should accept valid ratchets', () => {
+      const result = PatternParser.validate(`TEMPO 140
+seq hihat: x.x.x.x3x.x.X{4}<x.x.o2x.`);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject out-of-range counts and ratchets on rests', () => {
+      ['x9...', 'x{12}...', '.3...', 'x1...', 'x<...'].forEach(pattern => {
+        const result = PatternParser.validate(`seq hihat: ${pattern}`);
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toContain('Invalid step in hihat');
+      });
+    });
+  });
+});
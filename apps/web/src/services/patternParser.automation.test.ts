@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+import { getAutomationBaseValue } from './automation';
+
+const SEQ = 'TEMPO 120\nseq kick: x...x...x...x...';
+
+describe('PatternParser - Automation Lanes', () => {
+  describe('Automation Parsing', () => {
+    it('should parse per-step values with holds', () => {
+      const result = PatternParser.parse(`${SEQ}\nauto kick.filter.freq: 200 400 800 . . 1200`);
+      expect(result.automation?.['kick.filter.freq']).toEqual({
+        key: 'kick.filter.freq',
+        name: 'kick',
+        target: 'filter.freq',
+        values: [200, 400, 800, null, null, 1200],
+      });
+    });
+
+    it('should accept bar separators, res= and comments', () => {
+      const result = PatternParser.parse(`${SEQ}\nauto kick.pan: -1 . | 1 . res=8n # ping-pong`);
+      expect(result.automation?.['kick.pan']).toMatchObject({ values: [-1, null, 1, null], resolution: '8n' });
+    });
+
+    it('should clamp values to the target range', () => {
+      const result = PatternParser.parse(`${SEQ}\nauto kick.pan: -3 0.5 2\nauto kick.amp: 5 -9`);
+      expect(result.automation?.['kick.pan'].values).toEqual([-1, 0.5, 1]);
+      expect(result.automation?.['kick.amp'].values).toEqual([3, -3]);
+    });
+
+    it('should omit automation when no lanes are written', () => {
+      expect(PatternParser.parse(SEQ).automation).toBeUndefined();
+      expect(PatternParser.parse(`${SEQ}\nauto master.amp: 1 2`).automation).toBeUndefined();
+    });
+  });
+
+  describe('Automation Validation', () => {
+    it('should accept lanes for every target', () => {
+      const result = PatternParser.validate(`${SEQ}
+delay kick: time=0.25 feedback=0.3 mix=0.2
+reverb kick: mix=0.3
+auto kick.filter.freq: 200 . 800 .
+auto kick.filter.q: 1 4
+auto kick.delay.time: 0.125 0.25
+auto kick.delay.mix: 0 . . 0.6
+auto kick.reverb.mix: 0.1 0.5
+auto kick.distort.mix: 0 0.5
+auto kick.chorus.rate: 0.5 4
+auto kick.phaser.depth: 0.2 . 0.8 .`);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should reject unknown and master targets', () => {
+      expect(PatternParser.validate(`${SEQ}\nauto kick.filter.cutoff: 200 400`).errors[0])
+        .toMatch(/^Invalid auto target kick\.filter\.cutoff\. Valid targets: amp, filter\.freq/);
+      expect(PatternParser.validate(`${SEQ}\nauto master.amp: 1 2`).isValid).toBe(false);
+    });
+
+    it('should reject values that are not numbers or holds', () => {
+      expect(PatternParser.validate(`${SEQ}\nauto kick.pan: -1 x 1`).errors)
+        .toContain("Invalid values in auto kick.pan: x. Use numbers or '.' to hold the previous value");
+    });
+
+    it('should reject uneven bars and bad resolutions', () => {
+      expect(PatternParser.validate(`${SEQ}\nauto kick.pan: -1 1 | 0`).isValid).toBe(false);
+      expect(PatternParser.validate(`${SEQ}\nauto kick.pan: -1 1 res=4n`).errors)
+        .toContain('Invalid resolution in kick.pan: res=4n. Use res=8n, 16n, 16t or 32n');
+    });
+
+    it('should warn about clamped values and unsequenced instruments', () => {
+      const result = PatternParser.validate(`${SEQ}\nauto kick.filter.freq: 10 400\nauto snare.pan: 0 1`);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain('auto kick.filter.freq has values outside 20 to 20000. They will be clamped.');
+      expect(result.warnings).toContain('Automation for snare has no matching seq or notes line.');
+    });
+  });
+
+  describe('Base Values', () => {
+    it('should fall back to the module line, then the chain default', () => {
+      const pattern = PatternParser.parse(`${SEQ}\nfilter kick: type=lowpass freq=800 Q=2`);
+      expect(getAutomationBaseValue(pattern, 'kick', 'filter.freq')).toBe(800);
+      expect(getAutomationBaseValue(pattern, 'kick', 'filter.q')).toBe(2);
+      expect(getAutomationBaseValue(pattern, 'kick', 'pan')).toBe(0);
+      expect(getAutomationBaseValue(null, 'kick', 'filter.freq')).toBe(20000);
+    });
+  });
+});
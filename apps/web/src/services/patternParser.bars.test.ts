@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+const BAR = 'x...x...x...x...';
+
+describe('PatternParser - Multi-bar Patterns', () => {
+  describe('Bar Parsing', () => {
+    it('should ignore bar separators when building steps', () => {
+      const result = PatternParser.parse(`seq kick: ${BAR}|${BAR}`);
+      const plain = PatternParser.parse(`seq kick: ${BAR}${BAR}`);
+      expect(result.instruments.kick.steps).toEqual(plain.instruments.kick.steps);
+      expect(result.totalSteps).toBe(32);
+    });
+
+    it('should keep up to 8 bars (128 steps)', () => {
+      const result = PatternParser.parse(`seq kick: ${Array(8).fill(BAR).join(' | ')}`);
+      expect(result.instruments.kick.steps).toHaveLength(128);
+      expect(result.totalSteps).toBe(128);
+    });
+
+    it('should accept separators between notes', () => {
+      const result = PatternParser.parse('notes bass: C2 . E2 . | G2 . A2 .');
+      expect(result.instruments.bass.steps).toHaveLength(8);
+      expect(result.instruments.bass.pitches![4]).toBeCloseTo(98.0, 1);
+    });
+  });
+
+  describe('Bar Validation', () => {
+    it('should accept equal bars with outer separators', () => {
+      const result = PatternParser.validate(`TEMPO 120\nseq kick: |${BAR}|${BAR}|`);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should count ratchets and conditions as single steps', () => {
+      const result = PatternParser.validate('TEMPO 120\nseq hat: x.x3<.|x?50...|x@1:2.X{4}.');
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject bars of different lengths', () => {
+      const result = PatternParser.validate(`TEMPO 120\nseq kick: ${BAR}|x...x...x...x..`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Uneven bars in kick: 16 | 15 steps. Every bar between '|' separators needs the same number of steps");
+    });
+
+    it('should reject uneven bars on notes lines', () => {
+      const result = PatternParser.validate('TEMPO 120\nnotes bass: C2 . E2 . | G2 .');
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(e => e.startsWith('Uneven bars in bass'))).toBe(true);
+    });
+
+    it('should warn only past 128 steps', () => {
+      const long = PatternParser.validate(`TEMPO 120\nseq kick: ${Array(8).fill(BAR).join('|')}`);
+      expect(long.warnings.some(w => w.includes('too many steps'))).toBe(false);
+      const tooLong = PatternParser.validate(`TEMPO 120\nseq kick: ${Array(9).fill(BAR).join('|')}`);
+      expect(tooLong.warnings).toContain('kick has too many steps (144). Only the first 128 will play.');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Send/Return Buses', () => {
+  describe('Bus Parsing', () => {
+    it('should parse a bus with its effect params', () => {
+      const result = PatternParser.parse('TEMPO 120\nbus verb: reverb decay=3 mix=0.8\nseq snare: ....x.......x...');
+      expect(result.busModules?.verb).toEqual({
+        name: 'verb',
+        effect: 'reverb',
+        settings: { name: 'verb', mix: 0.8, decay: 3, predelay: 0.02 }
+      });
+    });
+
+    it('should default a bus to fully wet', () => {
+      const result = PatternParser.parse('TEMPO 120\nbus echo: delay time=0.375 feedback=0.5\nseq snare: ....x.......x...');
+      expect(result.busModules?.echo.settings).toEqual({ name: 'echo', time: 0.375, feedback: 0.5, mix: 1 });
+    });
+
+    it('should parse every bus effect', () => {
+      const result = PatternParser.parse(`TEMPO 120
+bus a: chorus rate=2
+bus b: phaser stages=8
+bus c: distort amount=0.7
+seq kick: x...x...x...x...`);
+      expect(Object.values(result.busModules!).map(bus => bus.effect)).toEqual(['chorus', 'phaser', 'distort']);
+      expect(result.busModules?.b.settings).toMatchObject({ stages: 8, mix: 1 });
+    });
+  });
+
+  describe('Send Parsing', () => {
+    it('should parse send levels per bus', () => {
+      const result = PatternParser.parse('TEMPO 120\nbus verb: reverb\nbus echo: delay\nsend snare: verb=0.4 echo=0.2\nseq snare: ....x.......x...');
+      expect(result.sendModules?.snare).toEqual({ name: 'snare', levels: { verb: 0.4, echo: 0.2 } });
+    });
+
+    it('should clamp send levels to 1', () => {
+      const result = PatternParser.parse('TEMPO 120\nbus verb: reverb\nsend snare: verb=1.5\nseq snare: ....x.......x...');
+      expect(result.sendModules?.snare.levels.verb).toBe(1);
+    });
+  });
+
+  describe('Bus Validation', () => {
+    it('should accept buses and sends in any order', () => {
+      const result = PatternParser.validate('TEMPO 120\nsend snare: verb=0.4\nseq snare: ....x.......x...\nbus verb: reverb decay=3 mix=1');
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject unknown bus effects', () => {
+      expect(PatternParser.validate('TEMPO 120\nbus verb: shimmer mix=1\nseq snare: ....x...').errors)
+        .toContain("Unknown bus effect 'shimmer' for verb. Use: reverb, delay, chorus, phaser, distort");
+    });
+
+    it('should reserve master', () => {
+      expect(PatternParser.validate('TEMPO 120\nbus master: reverb\nseq snare: ....x...').isValid).toBe(false);
+    });
+
+    it('should reject sends to undeclared buses', () => {
+      expect(PatternParser.validate('TEMPO 120\nsend snare: hall=0.4\nseq snare: ....x...').errors)
+        .toContain("Send from snare to unknown bus 'hall'. Declare it with: bus hall: reverb mix=1");
+    });
+
+    it('should reject malformed sends', () => {
+      expect(PatternParser.validate('TEMPO 120\nbus verb: reverb\nsend snare: verb\nseq snare: ....x...').isValid).toBe(false);
+      expect(PatternParser.validate('TEMPO 120\nbus verb: reverb\nsend snare: verb=-0.2\nseq snare: ....x...').isValid).toBe(false);
+    });
+
+    it('should warn about levels above 1', () => {
+      expect(PatternParser.validate('TEMPO 120\nbus verb: reverb\nsend snare: verb=2\nseq snare: ....x...').warnings)
+        .toContain('Send level 2 from snare to verb is above 1. It will be clamped.');
+    });
+  });
+});
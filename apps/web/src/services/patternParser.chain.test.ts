@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Effect Chain Order', () => {
+  describe('Chain Parsing', () => {
+    it('should parse the stages in order', () => {
+      const result = PatternParser.parse('TEMPO 120\nchain Kick: distort > Filter > comp > eq\nseq kick: x...');
+      expect(result.chainModules?.kick).toEqual({ name: 'kick', order: ['distort', 'filter', 'comp', 'eq'] });
+    });
+
+    it('should parse a master chain with chorus and phaser', () => {
+      const result = PatternParser.parse('TEMPO 120\nchain master: phaser > eq > chorus\nseq kick: x...');
+      expect(result.chainModules?.master.order).toEqual(['phaser', 'eq', 'chorus']);
+    });
+
+    it('should leave chainModules out without chain lines', () => {
+      expect(PatternParser.parse('TEMPO 120\nseq kick: x...').chainModules).toBeUndefined();
+    });
+
+    it('should skip chains with unknown or repeated stages', () => {
+      const result = PatternParser.parse('TEMPO 120\nchain kick: filter > filter\nchain snare: flanger > eq\nseq kick: x...');
+      expect(result.chainModules).toBeUndefined();
+    });
+  });
+
+  describe('Chain Validation', () => {
+    it('should accept chain lines', () => {
+      const result = PatternParser.validate('TEMPO 120\ndistort kick: amount=0.5\nfilter kick: freq=800\nchain kick: distort > filter # grit first\nseq kick: x...');
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should need at least one stage', () => {
+      expect(PatternParser.validate('TEMPO 120\nchain kick:\nseq kick: x...').errors)
+        .toContain('Invalid chain format: chain kick:. Use: chain kick: distort > filter > comp > eq');
+    });
+
+    it('should reject stages the chain does not have', () => {
+      expect(PatternParser.validate('TEMPO 120\nchain kick: flanger > eq\nseq kick: x...').errors)
+        .toContain('Invalid chain for kick. Instrument stages, each listed once: filter, comp, duck, eq, distort, chorus, phaser, delay, reverb. Use: chain kick: distort > filter > comp > eq');
+      expect(PatternParser.validate('TEMPO 120\nchain master: filter > eq\nseq kick: x...').errors)
+        .toContain('Invalid chain for master. Master stages, each listed once: eq, comp, distort, delay, reverb, chorus, phaser. Use: chain kick: distort > filter > comp > eq');
+    });
+
+    it('should reject a stage listed twice', () => {
+      expect(PatternParser.validate('TEMPO 120\nchain kick: comp > eq > comp\nseq kick: x...').errors).toHaveLength(1);
+    });
+
+    it('should warn about stages without a module line', () => {
+      const result = PatternParser.validate('TEMPO 120\ncomp kick: threshold=-20\nchain kick: reverb > comp > delay\nseq kick: x...');
+      expect(result.warnings).toEqual(['Chain for kick lists reverb, delay with no matching lines.']);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Choke Groups', () => {
+  describe('Choke Parsing', () => {
+    it('should parse choke group members', () => {
+      const result = PatternParser.parse('TEMPO 120\nchoke hats: HiHat openhat\nseq hihat: x.x.x.x.\nseq openhat: .x...x..');
+      expect(result.chokeModules?.hats).toEqual({ name: 'hats', members: ['hihat', 'openhat'] });
+    });
+
+    it('should drop repeated members and groups with one instrument', () => {
+      const result = PatternParser.parse('TEMPO 120\nchoke hats: hihat hihat\nchoke toms: tom1 tom2 tom1\nseq hihat: x.x.x.x.');
+      expect(result.chokeModules?.hats).toBeUndefined();
+      expect(result.chokeModules?.toms.members).toEqual(['tom1', 'tom2']);
+    });
+  });
+
+  describe('Choke Validation', () => {
+    it('should accept a choke group', () => {
+      const result = PatternParser.validate('TEMPO 120\nchoke hats: hihat openhat\nseq hihat: x.x.x.x.\nseq openhat: .x...x..');
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should need at least two instruments', () => {
+      expect(PatternParser.validate('TEMPO 120\nchoke hats: hihat\nseq hihat: x.x.x.x.').errors)
+        .toContain('Invalid choke group: choke hats: hihat. List at least two instruments, e.g. choke hats: hihat openhat');
+    });
+
+    it('should reject an instrument in two groups', () => {
+      expect(PatternParser.validate('TEMPO 120\nchoke a: hihat openhat\nchoke b: openhat ride\nseq hihat: x.x.x.x.').errors)
+        .toContain('openhat is in choke groups a and b. An instrument can only be in one');
+    });
+
+    it('should warn about members without a sequence', () => {
+      expect(PatternParser.validate('TEMPO 120\nchoke hats: hihat openhat\nseq hihat: x.x.x.x.').warnings)
+        .toContain('Choke group hats lists openhat, which has no seq or notes line.');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Trig Conditions', () => {
+  describe('Condition Parsing', () => {
+    it('should parse probability and loop ratio suffixes', () => {
+      const result = PatternParser.parse(`seq hihat: x?50.x@1:4.x.x@3:8.`);
+      const hihat = result.instruments.hihat;
+      expect(hihat.steps).toEqual([true, false, true, false, true, false, true, false]);
+      expect(hihat.conditions).toEqual([
+        { type: 'probability', percent: 50 }, null,
+        { type: 'ratio', hit: 1, every: 4 }, null,
+        null, null,
+        { type: 'ratio', hit: 3, every: 8 }, null,
+      ]);
+    });
+
+    it('should parse fill and pre flags', () => {
+      const result = PatternParser.parse(`seq snare: x@fill x@!fill x@pre x@!pre`);
+      expect(result.instruments.snare.conditions).toEqual([
+        { type: 'fill', negate: false },
+        { type: 'fill', negate: true },
+        { type: 'pre', negate: false },
+        { type: 'pre', negate: true },
+      ]);
+    });
+
+    it('should combine conditions with ratchets and articulations', () => {
+      const result = PatternParser.parse(`seq hihat: x3<?75 f@1:2 r@fill .`);
+      const hihat = result.instruments.hihat;
+      expect(hihat.steps).toHaveLength(4);
+      expect(hihat.ratchets![0]).toEqual({ hits: 3, ramp: 'up' });
+      expect(hihat.conditions![0]).toEqual({ type: 'probability', percent: 75 });
+      expect(hihat.articulations![1]).toBe('flam');
+      expect(hihat.conditions![2]).toEqual({ type: 'fill', negate: false });
+    });
+
+    it('should omit conditions when none are used', () => {
+      const result = PatternParser.parse(`seq kick: x...x...`);
+      expect(result.instruments.kick.conditions).toBeUndefined();
+    });
+
+    it('should parse the SEED line', () => {
+      expect(PatternParser.parse(`SEED 1234\nseq kick: x?50...`).seed).toBe(1234);
+      expect(PatternParser.parse(`seq kick: x?50...`).seed).toBeUndefined();
+    });
+  });
+
+  describe('Condition Validation', () => {
+    it('should accept valid conditions', () => {
+      const result = PatternParser.validate(`TEMPO 120
+SEED 7
+seq hihat: x?50.x@1:4.x@fill.x@!pre.X{3}>?90...`);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject out-of-range conditions', () => {
+      ['x?0...', 'x?150...', 'x@5:4...', 'x@1:9...', 'x@...'].forEach(pattern => {
+        const result = PatternParser.validate(`seq hihat: ${pattern}`);
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toContain('Invalid trig condition in hihat');
+      });
+    });
+
+    it('should reject malformed seeds', () => {
+      const result = PatternParser.validate(`SEED abc\nseq kick: x...`);
+      expect(result.errors).toContain('Invalid seed format. Use: SEED 42');
+    });
+  });
+});
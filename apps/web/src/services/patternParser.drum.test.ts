@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Drum Voices', () => {
+  describe('Drum Parsing', () => {
+    it('should parse model and parameters', () => {
+      const result = PatternParser.parse('TEMPO 120\ndrum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2\nseq kick: x...x...');
+      expect(result.drumModules?.kick).toEqual({ name: 'kick', model: '808', tune: -3, decay: 0.9, click: 0.4, tone: 0.2 });
+    });
+
+    it('should take the model from the instrument name', () => {
+      const result = PatternParser.parse('TEMPO 120\ndrum hihat: decay=2\ndrum snare:\nseq hihat: x.x.x.x.');
+      expect(result.drumModules?.hihat).toEqual({ name: 'hihat', model: 'hat', tune: 0, decay: 2, click: 0, tone: 0 });
+      expect(result.drumModules?.snare.model).toBe('snare');
+    });
+
+    it('should clamp out-of-range values', () => {
+      const drum = PatternParser.parse('TEMPO 120\ndrum kick: tune=-48 decay=9 click=2 tone=-1\nseq kick: x...').drumModules?.kick;
+      expect(drum).toMatchObject({ tune: -24, decay: 4, click: 1, tone: 0 });
+    });
+  });
+
+  describe('Drum Validation', () => {
+    it('should accept drum lines', () => {
+      expect(PatternParser.validate('TEMPO 120\ndrum kick: model=808 tune=-3\ndrum snare:\nseq kick: x...').errors).toEqual([]);
+    });
+
+    it('should need a known model', () => {
+      expect(PatternParser.validate('TEMPO 120\ndrum boom: tune=-3\nseq boom: x...').errors)
+        .toContain('Unknown drum model for boom. Use model= with kick, 808, snare, tom, hat, openhat, clap, rim, cowbell, shaker, crash, perc');
+      expect(PatternParser.validate('TEMPO 120\ndrum kick: model=909\nseq kick: x...').isValid).toBe(false);
+    });
+
+    it('should reject a drum and a synth voice for the same instrument', () => {
+      expect(PatternParser.validate('TEMPO 120\ndrum kick: model=808\nsynth kick: osc=sine\nseq kick: x...').errors)
+        .toContain('kick has both drum and synth lines. Use one voice per instrument');
+    });
+  });
+});
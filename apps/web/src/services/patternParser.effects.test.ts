@@ -556,6 +556,41 @@ seq kick: x...x...x...x...`;
     expect(result.sampleModules!.kick.name).toBe('kick');
     expect(result.sampleModules!.kick.sample).toBe('snare');
   });
+
+  it('should parse user library samples', () => {
+    const result = PatternParser.parse('TEMPO 120\nsample kick: user:My-Kick gain=1\nseq kick: x...x...');
+    expect(result.sampleModules!.kick).toEqual({ name: 'kick', sample: 'user:my-kick', gain: 1 });
+  });
+
+  it('should warn about user samples missing from the library', () => {
+    const pattern = 'TEMPO 120\nsample kick: user:my-kick\nsample snare: user:crack\nseq kick: x...x...';
+    const result = PatternParser.validate(pattern, ['crack']);
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      'Sample user:my-kick for kick is not in your sample library. Import it in the Sample Library; until then kick plays its built-in sound.'
+    ]);
+    // Without the library's names there is nothing to check against
+    expect(PatternParser.validate(pattern).warnings).toEqual([]);
+  });
+
+  it('should parse playback options', () => {
+    const result = PatternParser.parse('TEMPO 120\nsample pad: user:choir start=0.25 end=0.5 pitch=-5 reverse loop fade=0.05\nseq pad: x...');
+    expect(result.sampleModules!.pad).toEqual({
+      name: 'pad', sample: 'user:choir', gain: undefined,
+      start: 0.25, end: 0.5, pitch: -5, reverse: true, loop: true, fade: 0.05
+    });
+  });
+
+  it('should clamp playback options', () => {
+    const result = PatternParser.parse('TEMPO 120\nsample kick: snare start=-1 end=2 pitch=36 fade=3\nseq kick: x...');
+    expect(result.sampleModules!.kick).toMatchObject({ start: 0, end: 1, pitch: 24, fade: 1 });
+  });
+
+  it('should reject a start at or after the end', () => {
+    const result = PatternParser.validate('TEMPO 120\nsample kick: snare start=0.6 end=0.4\nseq kick: x...');
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Sample start must be before end for kick. Both are positions from 0 (beginning) to 1 (end)');
+  });
 });
 
 describe('PatternParser - Combined Modules', () => {
@@ -636,11 +671,11 @@ seq snare: ....x.......x...`;
   });
 
   it('should clamp tempo to valid range', () => {
-    const lowTempo = `TEMPO 30\nseq kick: x...x...x...x...`;
+    const lowTempo = `TEMPO 10\nseq kick: x...x...x...x...`;
     const highTempo = `TEMPO 999\nseq kick: x...x...x...x...`;
 
-    expect(PatternParser.parse(lowTempo).tempo).toBe(60);
-    expect(PatternParser.parse(highTempo).tempo).toBe(200);
+    expect(PatternParser.parse(lowTempo).tempo).toBe(20);
+    expect(PatternParser.parse(highTempo).tempo).toBe(300);
   });
 
   it('should validate empty pattern', () => {
@@ -660,11 +695,11 @@ seq snare: ....x.......x...`;
     expect(result.instruments.kick.steps.filter(Boolean)).toHaveLength(4);
   });
 
-  it('should truncate sequences beyond 32 steps', () => {
-    const longSeq = 'x'.repeat(64);
+  it('should truncate sequences beyond 128 steps', () => {
+    const longSeq = 'x'.repeat(160);
     const pattern = `TEMPO 120\nseq kick: ${longSeq}`;
     const result = PatternParser.parse(pattern);
-    expect(result.instruments.kick.steps).toHaveLength(32);
+    expect(result.instruments.kick.steps).toHaveLength(128);
   });
 
   it('should set totalSteps to at least 16', () => {
@@ -797,20 +832,26 @@ seq kick: x...x...x...x...`;
     expect(lfo.scope).toBe('master');
   });
 
-  it('should reject delay.time on instrument (master-only)', () => {
+  it('should parse delay targets on instruments', () => {
     const pattern = `TEMPO 120
 lfo kick.delay.time: rate=1Hz depth=0.5
+lfo kick.delay.feedback: rate=1Hz depth=0.5
 seq kick: x...x...x...x...`;
     const result = PatternParser.parse(pattern);
-    expect(result.lfoModules!['kick.delay.time']).toBeUndefined();
+    expect(result.lfoModules!['kick.delay.time'].scope).toBe('instrument');
+    expect(result.lfoModules!['kick.delay.feedback'].scope).toBe('instrument');
   });
 
-  it('should reject delay.feedback on instrument (master-only)', () => {
+  it('should parse chorus, phaser and distort targets on instruments', () => {
     const pattern = `TEMPO 120
-lfo kick.delay.feedback: rate=1Hz depth=0.5
+lfo kick.chorus.rate: rate=1Hz depth=0.5
+lfo kick.phaser.mix: rate=1Hz depth=0.5
+lfo kick.distort.mix: rate=1Hz depth=0.5
 seq kick: x...x...x...x...`;
     const result = PatternParser.parse(pattern);
-    expect(result.lfoModules!['kick.delay.feedback']).toBeUndefined();
+    expect(result.lfoModules!['kick.chorus.rate'].scope).toBe('instrument');
+    expect(result.lfoModules!['kick.phaser.mix'].target).toBe('phaser.mix');
+    expect(result.lfoModules!['kick.distort.mix'].target).toBe('distort.mix');
   });
 
   it('should reject filter.freq on master (instrument-only)', () => {
@@ -886,7 +927,7 @@ lfo kick.volume: rate=1Hz depth=0.5`;
   it('should report validation error for scope violation', () => {
     const pattern = `TEMPO 120
 seq kick: x...x...x...x...
-lfo kick.delay.time: rate=1Hz depth=0.5`;
+lfo master.pan: rate=1Hz depth=0.5`;
     const result = PatternParser.validate(pattern);
     expect(result.isValid).toBe(false);
     expect(result.errors.some(e => e.includes('lfo'))).toBe(true);
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - FM Voices', () => {
+  describe('FM Parsing', () => {
+    it('should parse ratio, index and index envelope', () => {
+      const result = PatternParser.parse('TEMPO 120\nfm Bell: ratio=3.5 index=4 ienv=0.3\nnotes bell: C5 . G5 .');
+      expect(result.fmModules?.bell).toEqual({ name: 'bell', ratio: 3.5, index: 4, ienv: 0.3 });
+    });
+
+    it('should fill defaults and clamp out-of-range values', () => {
+      expect(PatternParser.parse('TEMPO 120\nfm keys: index=2\nnotes keys: C3 . . .').fmModules?.keys)
+        .toEqual({ name: 'keys', ratio: 1, index: 2, ienv: 0 });
+      expect(PatternParser.parse('TEMPO 120\nfm keys: ratio=0 index=50 ienv=9\nnotes keys: C3 . . .').fmModules?.keys)
+        .toEqual({ name: 'keys', ratio: 0.125, index: 20, ienv: 5 });
+    });
+  });
+
+  describe('FM Validation', () => {
+    it('should accept an fm line', () => {
+      const result = PatternParser.validate('TEMPO 120\nfm bell: ratio=3.5 index=4 ienv=0.3\nnotes bell: C5 . G5 .');
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject an fm line without a name', () => {
+      expect(PatternParser.validate('TEMPO 120\nfm : ratio=2\nnotes bell: C5 . . .').errors)
+        .toContain('Invalid fm format: fm : ratio=2. Use: fm bell: ratio=3.5 index=4 ienv=0.3');
+    });
+
+    it('should reject synth and fm lines for the same instrument', () => {
+      expect(PatternParser.validate('TEMPO 120\nfm lead: ratio=2\nsynth lead: osc=saw\nnotes lead: C3 . . .').errors)
+        .toContain('lead has both fm and synth lines. Use one voice per instrument');
+    });
+  });
+});
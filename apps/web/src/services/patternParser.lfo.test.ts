@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - LFOs', () => {
+  describe('Synced Rates', () => {
+    it('should parse note values', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.filter.freq: rate=1/8\nlfo snare.pan: rate=1/8t\nlfo hihat.amp: rate=1/4.\nseq kick: x...');
+      expect(result.lfoModules?.['kick.filter.freq'].sync).toEqual({ label: '1/8', unit: 'note', length: 0.125 });
+      expect(result.lfoModules?.['snare.pan'].sync?.length).toBeCloseTo(1 / 12);
+      expect(result.lfoModules?.['hihat.amp'].sync?.length).toBeCloseTo(0.375);
+    });
+
+    it('should parse bar lengths', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.pan: rate=2bars\nlfo master.amp: rate=1bar\nseq kick: x...');
+      expect(result.lfoModules?.['kick.pan'].sync).toEqual({ label: '2bars', unit: 'bar', length: 2 });
+      expect(result.lfoModules?.['master.amp'].sync).toEqual({ label: '1bar', unit: 'bar', length: 1 });
+    });
+
+    it('should keep Hz rates free-running', () => {
+      const lfo = PatternParser.parse('TEMPO 120\nlfo kick.amp: rate=3Hz\nseq kick: x...').lfoModules?.['kick.amp'];
+      expect(lfo?.rateHz).toBe(3);
+      expect(lfo?.sync).toBeUndefined();
+    });
+
+    it('should reject rates outside 1/64 to 64 bars', () => {
+      for (const rate of ['1/0', '1/128', '0bar', '100bars']) {
+        expect(PatternParser.validate(`TEMPO 120\nlfo kick.amp: rate=${rate}\nseq kick: x...`).errors).toHaveLength(1);
+      }
+    });
+  });
+
+  describe('Phase Reset', () => {
+    it('should reset synced LFOs on the bar by default', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.amp: rate=1/4\nlfo snare.amp: rate=2Hz\nseq kick: x...');
+      expect(result.lfoModules?.['kick.amp'].reset).toBe(true);
+      expect(result.lfoModules?.['snare.amp'].reset).toBe(false);
+    });
+
+    it('should follow reset=bar and reset=off', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.amp: rate=1/4 reset=off\nlfo snare.amp: rate=2Hz reset=bar\nseq kick: x...');
+      expect(result.lfoModules?.['kick.amp'].reset).toBe(false);
+      expect(result.lfoModules?.['snare.amp'].reset).toBe(true);
+    });
+  });
+
+  describe('Waves and Targets', () => {
+    it('should parse the random waves', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.amp: wave=sample-hold\nlfo snare.amp: wave=random-smooth\nseq kick: x...');
+      expect(result.lfoModules?.['kick.amp'].wave).toBe('sample-hold');
+      expect(result.lfoModules?.['snare.amp'].wave).toBe('random-smooth');
+    });
+
+    it('should accept effect targets per scope', () => {
+      const pattern = 'TEMPO 120\nlfo kick.eq.low: rate=1/4\nlfo kick.comp.threshold: rate=1bar\nlfo kick.reverb.mix: rate=1Hz\nlfo master.phaser.mix: rate=1/2\nlfo master.distort.mix: rate=1bar\nseq kick: x...';
+      expect(PatternParser.validate(pattern).errors).toEqual([]);
+      expect(Object.keys(PatternParser.parse(pattern).lfoModules ?? {})).toEqual([
+        'kick.eq.low', 'kick.comp.threshold', 'kick.reverb.mix', 'master.phaser.mix', 'master.distort.mix'
+      ]);
+    });
+
+    it('should accept effect insert targets on instruments', () => {
+      expect(PatternParser.validate('TEMPO 120\nlfo kick.distort.mix: rate=1Hz\nlfo kick.chorus.depth: rate=1/4\nseq kick: x...').errors).toEqual([]);
+    });
+
+    it('should reject instrument-only targets on master', () => {
+      expect(PatternParser.validate('TEMPO 120\nlfo master.filter.q: rate=1Hz\nseq kick: x...').errors).toHaveLength(1);
+    });
+
+    it('should stack several LFOs on one target', () => {
+      const result = PatternParser.parse('TEMPO 120\nlfo kick.filter.freq: rate=1/4\nlfo kick.filter.freq: rate=0.2Hz wave=random-smooth\nseq kick: x...');
+      expect(result.lfoModules?.['kick.filter.freq'].rateHz).toBe(1);
+      expect(result.lfoModules?.['kick.filter.freq#2']).toMatchObject({ key: 'kick.filter.freq#2', target: 'filter.freq', rateHz: 0.2 });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Loop Slicing', () => {
+  describe('Loop Parsing', () => {
+    it('should parse the sample, bars and slices', () => {
+      const result = PatternParser.parse('TEMPO 120\nloop break: user:Amen bars=2 slices=8\nseq break: xxxxxxxx');
+      expect(result.loopModules?.break).toEqual({ name: 'break', sample: 'user:amen', bars: 2, slices: 8 });
+    });
+
+    it('should default to one bar in 16 slices', () => {
+      const result = PatternParser.parse('TEMPO 120\nloop break: user:amen\nseq break: x...');
+      expect(result.loopModules?.break).toMatchObject({ bars: 1, slices: 16 });
+      expect(result.loopModules?.break.order).toBeUndefined();
+    });
+
+    it('should parse a slice order', () => {
+      const result = PatternParser.parse('TEMPO 120\nloop break: user:amen slices=8 order=0,1,4,3\nseq break: xxxx');
+      expect(result.loopModules?.break.order).toEqual([0, 1, 4, 3]);
+    });
+
+    it('should clamp out-of-range values', () => {
+      const loop = PatternParser.parse('TEMPO 120\nloop break: user:amen bars=40 slices=0\nseq break: x...').loopModules?.break;
+      expect(loop).toMatchObject({ bars: 16, slices: 1 });
+    });
+  });
+
+  describe('Loop Validation', () => {
+    it('should accept loop lines', () => {
+      expect(PatternParser.validate('TEMPO 120\nloop break: user:amen bars=1 slices=16\nseq break: xxxxxxxxxxxxxxxx').errors).toEqual([]);
+    });
+
+    it('should need a sample', () => {
+      expect(PatternParser.validate('TEMPO 120\nloop break: bars=1\nseq break: x...').errors)
+        .toContain('Invalid loop format: loop break: bars=1. Use: loop break: user:amen bars=1 slices=16');
+    });
+
+    it('should reject slices past the last one', () => {
+      expect(PatternParser.validate('TEMPO 120\nloop break: user:amen slices=4 order=0,4,2,7\nseq break: xxxx').errors)
+        .toContain('Slice 4, 7 out of range for break. Use order= with slices 0 to 3');
+    });
+
+    it('should warn about loops missing from the library', () => {
+      const result = PatternParser.validate('TEMPO 120\nloop break: user:amen\nseq break: x...', ['think']);
+      expect(result.warnings).toEqual([
+        'Sample user:amen for break is not in your sample library. Import it in the Sample Library; until then break plays its built-in sound.'
+      ]);
+    });
+
+    it('should reject a loop and a synth voice for the same instrument', () => {
+      expect(PatternParser.validate('TEMPO 120\nloop break: user:amen\nsynth break: osc=saw\nseq break: x...').errors)
+        .toContain('break has both loop and synth lines. Use one voice per instrument');
+    });
+  });
+});
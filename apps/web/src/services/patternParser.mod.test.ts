@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Mod Routes', () => {
+  describe('Mod Parsing', () => {
+    it('should parse a route', () => {
+      const result = PatternParser.parse('TEMPO 120\nmod lead: src=velocity dst=filter.freq amt=0.6\nnotes lead: C3 . E3 .');
+      expect(result.modModules?.lead).toEqual({
+        name: 'lead',
+        routes: [{ source: 'velocity', destination: 'filter.freq', amount: 0.6 }]
+      });
+    });
+
+    it('should collect every mod line of an instrument in order', () => {
+      const result = PatternParser.parse('TEMPO 120\nmod lead: src=env2 dst=pitch\nmod lead: src=step dst=pan amt=-1\nnotes lead: C3 . E3 .');
+      expect(result.modModules?.lead.routes.map(route => route.source)).toEqual(['env2', 'step']);
+    });
+
+    it('should give env2 routes their own attack and decay', () => {
+      const route = PatternParser.parse('TEMPO 120\nmod kick: src=env2 dst=pitch amt=0.5 decay=0.08\nseq kick: x...').modModules?.kick.routes[0];
+      expect(route).toEqual({ source: 'env2', destination: 'pitch', amount: 0.5, env2: { attack: 0.005, decay: 0.08 } });
+    });
+
+    it('should parse LFO routes like lfo lines', () => {
+      const route = PatternParser.parse('TEMPO 120\nmod lead: src=lfo dst=pitch amt=0.05 rate=1/8 wave=triangle\nnotes lead: C3 . E3 .').modModules?.lead.routes[0];
+      expect(route?.lfo).toEqual({ rateHz: 1, sync: { label: '1/8', unit: 'note', length: 0.125 }, wave: 'triangle', reset: true });
+    });
+
+    it('should clamp the amount', () => {
+      const result = PatternParser.parse('TEMPO 120\nmod lead: src=step dst=amp amt=3\nmod pad: src=step dst=amp amt=-3\nnotes lead: C3 . E3 .');
+      expect(result.modModules?.lead.routes[0].amount).toBe(1);
+      expect(result.modModules?.pad.routes[0].amount).toBe(-1);
+    });
+
+    it('should leave modModules out without mod lines', () => {
+      expect(PatternParser.parse('TEMPO 120\nseq kick: x...').modModules).toBeUndefined();
+    });
+  });
+
+  describe('Mod Validation', () => {
+    it('should accept mod lines', () => {
+      const pattern = 'TEMPO 120\nmod lead: src=velocity dst=filter.freq amt=0.6\nmod lead: src=env1 dst=reverb.mix\nmod lead: src=velocity dst=phaser.mix amt=0.5\nnotes lead: C3 . E3 .';
+      expect(PatternParser.validate(pattern).errors).toEqual([]);
+    });
+
+    it('should reject unknown sources and destinations', () => {
+      const errors = PatternParser.validate('TEMPO 120\nmod lead: src=noise dst=pitch\nmod lead: src=step dst=flanger.mix\nnotes lead: C3 . E3 .').errors;
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatch(/^Invalid mod route for lead\. Sources: velocity, env1, env2, step, lfo\./);
+    });
+
+    it('should reject mod lines on master', () => {
+      expect(PatternParser.validate('TEMPO 120\nmod master: src=lfo dst=amp\nseq kick: x...').errors)
+        .toEqual(['mod routes are per instrument. Use an lfo line to modulate master']);
+    });
+
+    it('should warn about routes for instruments that never play', () => {
+      expect(PatternParser.validate('TEMPO 120\nmod lead: src=velocity dst=amp\nseq kick: x...').warnings)
+        .toContain('Mod routes for lead have no matching seq or notes line.');
+    });
+  });
+});
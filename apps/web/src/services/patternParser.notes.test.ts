@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Melodic Notes', () => {
+  describe('Notes Parsing', () => {
+    it('should parse note names into per-step pitches', () => {
+      const result = PatternParser.parse(`TEMPO 120
+notes bass: C2 . E2 G2 . . A#1 .`);
+      const bass = result.instruments.bass;
+      expect(bass.steps).toEqual([true, false, true, true, false, false, true, false]);
+      expect(bass.pitches).toHaveLength(8);
+      expect(bass.pitches![0]).toBeCloseTo(65.41, 1);  // C2
+      expect(bass.pitches![2]).toBeCloseTo(82.41, 1);  // E2
+      expect(bass.pitches![6]).toBeCloseTo(58.27, 1);  // A#1
+      expect(bass.pitches![1]).toBe(0);
+    });
+
+    it('should treat sharps and flats as the same pitch', () => {
+      const result = PatternParser.parse(`notes lead: C#4 Db4`);
+      const [sharp, flat] = result.instruments.lead.pitches!;
+      expect(sharp).toBeCloseTo(flat);
+    });
+
+    it('should place A4 at 440Hz', () => {
+      const result = PatternParser.parse(`notes lead: A4`);
+      expect(result.instruments.lead.pitches![0]).toBeCloseTo(440);
+    });
+
+    it('should keep sharps but strip inline comments', () => {
+      const result = PatternParser.parse(`notes bass: F#2 . . . # walking line`);
+      expect(result.instruments.bass.steps).toHaveLength(4);
+      expect(result.instruments.bass.pitches![0]).toBeCloseTo(92.5, 1);
+    });
+
+    it('should count toward total steps alongside seq lines', () => {
+      const result = PatternParser.parse(`seq kick: x...x...x...x...
+notes bass: C2 . . . C2 . . . C2 . . . C2 . . . C3 . . . C3 . . . C3 . . . C3 . . .`);
+      expect(result.totalSteps).toBe(32);
+      expect(result.instruments.kick.pitches).toBeUndefined();
+    });
+  });
+
+  describe('Notes Validation', () => {
+    it('should accept a valid notes line as a sequence', () => {
+      const result = PatternParser.validate(`TEMPO 120
+notes bass: C2 . E2 G2`);
+      expect(result.isValid).toBe(true);
+      expect(result.validInstruments).toContain('bass');
+    });
+
+    it('should reject unknown note tokens', () => {
+      const result = PatternParser.validate(`TEMPO 120
+notes bass: C2 H2 x`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('H2, x');
+    });
+
+    it('should reject notes outside the MIDI range', () => {
+      const result = PatternParser.validate(`notes lead: G9 A9`);
+      expect(result.errors.some(e => e.includes('A9'))).toBe(true);
+      expect(result.errors.some(e => e.includes('G9,'))).toBe(false);
+    });
+  });
+
+  describe('SCALE and Degrees', () => {
+    it('should parse the key from a SCALE line', () => {
+      const result = PatternParser.parse(`SCALE A minor
+notes bass: 1 . 3 5`);
+      expect(result.scale).toEqual({ root: 'A', mode: 'minor', rootMidi: 57, transpose: 0 });
+    });
+
+    it('should resolve degrees against the scale', () => {
+      const result = PatternParser.parse(`SCALE A minor
+notes bass: 1 3 5 b7`);
+      const [one, three, five, flatSeven] = result.instruments.bass.pitches!;
+      expect(one).toBeCloseTo(220);        // A3
+      expect(three).toBeCloseTo(261.63, 1); // C4
+      expect(five).toBeCloseTo(329.63, 1);  // E4
+      expect(flatSeven).toBeCloseTo(369.99, 1); // F#4 (b of G)
+    });
+
+    it('should shift octaves with + and - and continue past degree 7', () => {
+      const result = PatternParser.parse(`SCALE C4 major
+notes lead: 1+ 1- 8 9`);
+      const [up, down, eight, nine] = result.instruments.lead.pitches!;
+      expect(up).toBeCloseTo(523.25, 1);   // C5
+      expect(down).toBeCloseTo(130.81, 1); // C3
+      expect(eight).toBeCloseTo(up);
+      expect(nine).toBeCloseTo(587.33, 1); // D5
+    });
+
+    it('should apply the same degrees to other modes', () => {
+      const result = PatternParser.parse(`SCALE D dorian
+notes lead: 3 6`);
+      const [third, sixth] = result.instruments.lead.pitches!;
+      expect(third).toBeCloseTo(174.61, 1); // F3
+      expect(sixth).toBeCloseTo(246.94, 1); // B3
+    });
+
+    it('should transpose every notes line, including note names', () => {
+      const result = PatternParser.parse(`SCALE C major transpose=2
+notes lead: 1 C4`);
+      const [degree, named] = result.instruments.lead.pitches!;
+      expect(degree).toBeCloseTo(146.83, 1); // D3
+      expect(named).toBeCloseTo(293.66, 1);  // D4
+    });
+
+    it('should resolve degrees written before the SCALE line', () => {
+      const result = PatternParser.parse(`notes bass: 1
+SCALE E minor`);
+      expect(result.instruments.bass.pitches![0]).toBeCloseTo(164.81, 1); // E3
+    });
+
+    it('should reject degrees without a SCALE line', () => {
+      const result = PatternParser.validate(`notes bass: 1 3 5`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('SCALE A minor');
+    });
+
+    it('should reject unknown modes', () => {
+      const result = PatternParser.validate(`SCALE A bluesy
+notes bass: A2`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('Invalid scale');
+    });
+
+    it('should accept a valid scale with transpose', () => {
+      const result = PatternParser.validate(`SCALE F# mixolydian transpose=-12 # down an octave
+notes bass: 1 . b7 . 5 . 4 .`);
+      expect(result.isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Sidechain Ducking', () => {
+  describe('Duck Parsing', () => {
+    it('should parse a duck module', () => {
+      const result = PatternParser.parse('TEMPO 124\nduck bass: sidechain=kick depth=0.8 attack=0.01 release=0.3\nseq kick: x...x...x...x...\nseq bass: ..x...x...x...x.');
+      expect(result.duckModules?.bass).toEqual({ name: 'bass', sidechain: 'kick', depth: 0.8, attack: 0.01, release: 0.3 });
+    });
+
+    it('should fill in defaults and clamp values', () => {
+      const result = PatternParser.parse('TEMPO 124\nduck Pad: sidechain=Kick depth=2 release=9\nseq kick: x...x...x...x...');
+      expect(result.duckModules?.pad).toEqual({ name: 'pad', sidechain: 'kick', depth: 1, attack: 0.005, release: 2 });
+    });
+  });
+
+  describe('Duck Validation', () => {
+    it('should accept a duck module', () => {
+      const result = PatternParser.validate('TEMPO 124\nduck bass: sidechain=kick\nseq kick: x...x...x...x...\nseq bass: ..x...x...x...x.');
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should require a sidechain source', () => {
+      expect(PatternParser.validate('TEMPO 124\nduck bass: depth=0.5\nseq bass: ..x...x.').errors)
+        .toContain('Duck bass needs a sidechain source, e.g. duck bass: sidechain=kick');
+    });
+
+    it('should reject ducking master or an instrument from itself', () => {
+      expect(PatternParser.validate('TEMPO 124\nduck master: sidechain=kick\nseq kick: x...').isValid).toBe(false);
+      expect(PatternParser.validate('TEMPO 124\nduck kick: sidechain=kick\nseq kick: x...').errors)
+        .toContain('kick cannot duck itself. Use another instrument as the sidechain');
+    });
+
+    it('should warn when the sidechain source never plays', () => {
+      expect(PatternParser.validate('TEMPO 124\nduck bass: sidechain=kick\nseq bass: ..x...x.').warnings)
+        .toContain('Sidechain source kick for bass has no matching seq or notes line.');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+import { getSongTimeline, getSongLength, locateSongStep } from './songArrangement';
+
+const SONG = `TEMPO 120
+seq hihat: x.x.x.x.x.x.x.x.
+
+section intro:
+seq kick: x...............
+
+section verse:
+seq kick: x...x...x...x...
+seq snare: ....x.......x...
+
+section chorus:
+seq kick: x.x.x.x.x.x.x.x.x.x.x.x.x.x.x.x.
+
+song: intro verse*4 chorus*2`;
+
+describe('PatternParser - Song Arrangement', () => {
+  describe('Section Parsing', () => {
+    it('should scope seq lines to their section', () => {
+      const result = PatternParser.parse(SONG);
+      expect(Object.keys(result.instruments)).toEqual(['hihat']);
+      expect(Object.keys(result.sections!)).toEqual(['intro', 'verse', 'chorus']);
+      expect(Object.keys(result.sections!.verse.instruments)).toEqual(['kick', 'snare']);
+      expect(result.sections!.intro.instruments.kick.steps.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should size each section by its longest sequence', () => {
+      const result = PatternParser.parse(SONG);
+      expect(result.sections!.intro.totalSteps).toBe(16);
+      expect(result.sections!.chorus.totalSteps).toBe(32);
+    });
+
+    it('should parse song order with repeats', () => {
+      const result = PatternParser.parse(SONG);
+      expect(result.song).toEqual([
+        { section: 'intro', repeats: 1 },
+        { section: 'verse', repeats: 4 },
+        { section: 'chorus', repeats: 2 },
+      ]);
+    });
+
+    it('should default song order to declared sections', () => {
+      const result = PatternParser.parse(`TEMPO 120
+section a:
+seq kick: x...
+section b:
+seq snare: ..x.`);
+      expect(result.song).toEqual([
+        { section: 'a', repeats: 1 },
+        { section: 'b', repeats: 1 },
+      ]);
+    });
+
+    it('should clamp repeats to 1..64', () => {
+      const result = PatternParser.parse(`section a:
+seq kick: x...
+song: a*100 a*0`);
+      expect(result.song!.map(e => e.repeats)).toEqual([64, 1]);
+    });
+
+    it('should omit sections and song for plain patterns', () => {
+      const result = PatternParser.parse(`TEMPO 120
+seq kick: x...x...`);
+      expect(result.sections).toBeUndefined();
+      expect(result.song).toBeUndefined();
+    });
+  });
+
+  describe('Song Validation', () => {
+    it('should accept a valid song', () => {
+      const result = PatternParser.validate(SONG);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject unknown sections in song order', () => {
+      const result = PatternParser.validate(`section verse:
+seq kick: x...
+song: verse bridge`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(e => e.includes("unknown section 'bridge'"))).toBe(true);
+    });
+
+    it('should reject malformed song entries', () => {
+      const result = PatternParser.validate(`section verse:
+seq kick: x...
+song: verse*x`);
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(e => e.includes('Invalid song entry'))).toBe(true);
+    });
+
+    it('should warn about empty sections', () => {
+      const result = PatternParser.validate(`section verse:
+seq kick: x...
+section bridge:
+song: verse`);
+      expect(result.warnings.some(w => w.includes('bridge'))).toBe(true);
+    });
+  });
+
+  describe('Song Timeline', () => {
+    it('should expand repeats into consecutive passes', () => {
+      const timeline = getSongTimeline(PatternParser.parse(SONG));
+      expect(timeline.map(e => e.section)).toEqual([
+        'intro', 'verse', 'verse', 'verse', 'verse', 'chorus', 'chorus',
+      ]);
+      expect(timeline[1].startStep).toBe(16);
+      expect(timeline[5].startStep).toBe(80);
+    });
+
+    it('should compute song length from all passes', () => {
+      expect(getSongLength(PatternParser.parse(SONG))).toBe(16 + 4 * 16 + 2 * 32);
+    });
+
+    it('should locate steps within sections and wrap at the end', () => {
+      const pattern = PatternParser.parse(SONG);
+      expect(locateSongStep(pattern, 0)).toEqual({ section: 'intro', step: 0 });
+      expect(locateSongStep(pattern, 20)).toEqual({ section: 'verse', step: 4 });
+      expect(locateSongStep(pattern, 100)).toEqual({ section: 'chorus', step: 20 });
+      expect(locateSongStep(pattern, 144)).toEqual({ section: 'intro', step: 0 });
+    });
+
+    it('should fall back to the pattern loop without a song', () => {
+      const pattern = PatternParser.parse(`seq kick: x...x...x...x...`);
+      expect(getSongLength(pattern)).toBe(16);
+      expect(locateSongStep(pattern, 18)).toEqual({ section: null, step: 2 });
+    });
+  });
+});
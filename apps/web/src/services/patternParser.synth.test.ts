@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Synth Voices', () => {
+  describe('Synth Parsing', () => {
+    it('should parse every synth parameter', () => {
+      const result = PatternParser.parse('TEMPO 120\nsynth lead: osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6 fattack=0.01 fdecay=0.5 glide=0.08\nnotes lead: C3 . E3 .');
+      expect(result.synthModules?.lead).toEqual({
+        name: 'lead', osc: 'saw', osc2: 'square', detune: 7, sub: 0.5,
+        cutoff: 1200, res: 4, fenv: 0.6, fattack: 0.01, fdecay: 0.5, glide: 0.08
+      });
+    });
+
+    it('should fill defaults and accept sawtooth for saw', () => {
+      const result = PatternParser.parse('TEMPO 120\nsynth pad: osc=sawtooth\nnotes pad: C3 . . .');
+      expect(result.synthModules?.pad).toEqual({
+        name: 'pad', osc: 'saw', detune: 0, sub: 0,
+        cutoff: 2000, res: 1, fenv: 0, fattack: 0.005, fdecay: 0.3, glide: 0
+      });
+    });
+
+    it('should clamp out-of-range values', () => {
+      const synth = PatternParser.parse('TEMPO 120\nsynth lead: detune=5000 sub=2 cutoff=5 res=100 glide=3\nnotes lead: C3 . . .').synthModules?.lead;
+      expect(synth).toMatchObject({ detune: 1200, sub: 1, cutoff: 20, res: 30, glide: 1 });
+    });
+  });
+
+  describe('Synth Validation', () => {
+    it('should accept a synth line', () => {
+      const result = PatternParser.validate('TEMPO 120\nsynth lead: osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6\nnotes lead: C3 . E3 .');
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject unknown waveforms', () => {
+      expect(PatternParser.validate('TEMPO 120\nsynth lead: osc=noise\nnotes lead: C3 . . .').errors)
+        .toContain('Invalid synth waveform for lead. Use osc=/osc2= with sine, square, saw, triangle');
+      expect(PatternParser.validate('TEMPO 120\nsynth lead: osc2=pulse\nnotes lead: C3 . . .').isValid).toBe(false);
+    });
+
+    it('should reject a synth line without a name', () => {
+      expect(PatternParser.validate('TEMPO 120\nsynth : osc=saw\nnotes lead: C3 . . .').isValid).toBe(false);
+    });
+  });
+});
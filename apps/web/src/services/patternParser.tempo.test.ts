@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+import { getRampBeats, getRampDuration, getTempoAtBeat } from './tempoRamp';
+
+const SEQ = 'seq kick: x...x...x...x...';
+
+describe('PatternParser - Tempo Range and Ramps', () => {
+  describe('Tempo Parsing', () => {
+    it('should accept fractional tempos across 20-300 BPM', () => {
+      expect(PatternParser.parse(`TEMPO 92.5\n${SEQ}`).tempo).toBe(92.5);
+      expect(PatternParser.parse(`TEMPO 20\n${SEQ}`).tempo).toBe(20);
+      expect(PatternParser.parse(`TEMPO 300\n${SEQ}`).tempo).toBe(300);
+    });
+
+    it('should parse a tempo ramp', () => {
+      const result = PatternParser.parse(`TEMPO 120 -> 140 over 8 bars\n${SEQ}`);
+      expect(result.tempo).toBe(120);
+      expect(result.tempoRamp).toEqual({ to: 140, bars: 8 });
+      expect(PatternParser.parse(`TEMPO 90 -> 85.5 over 1 bar\n${SEQ}`).tempoRamp).toEqual({ to: 85.5, bars: 1 });
+    });
+
+    it('should clamp ramp targets and lengths', () => {
+      const result = PatternParser.parse(`TEMPO 120 -> 400 over 100 bars\n${SEQ}`);
+      expect(result.tempoRamp).toEqual({ to: 300, bars: 64 });
+    });
+
+    it('should omit tempoRamp for a steady tempo', () => {
+      expect(PatternParser.parse(`TEMPO 120\n${SEQ}`).tempoRamp).toBeUndefined();
+    });
+  });
+
+  describe('Tempo Validation', () => {
+    it('should accept ramps', () => {
+      expect(PatternParser.validate(`TEMPO 120 -> 140 over 8 bars\n${SEQ}`).isValid).toBe(true);
+      expect(PatternParser.validate(`TEMPO 120.5 -> 60 over 4 bars # slow down\n${SEQ}`).isValid).toBe(true);
+    });
+
+    it('should reject malformed ramps', () => {
+      const result = PatternParser.validate(`TEMPO 120 -> 140 in 8 bars\n${SEQ}`);
+      expect(result.errors).toContain('Invalid tempo ramp. Use: TEMPO 120 -> 140 over 8 bars');
+    });
+
+    it('should range-check the ramp target and length', () => {
+      expect(PatternParser.validate(`TEMPO 120 -> 320 over 8 bars\n${SEQ}`).errors)
+        .toContain('Tempo must be between 20 and 300 BPM');
+      expect(PatternParser.validate(`TEMPO 120 -> 140 over 0 bars\n${SEQ}`).errors)
+        .toContain('Tempo ramp length must be between 1 and 64 bars');
+    });
+  });
+
+  describe('Ramp Timing', () => {
+    it('should measure ramps in beats of the time signature', () => {
+      expect(getRampBeats({ to: 140, bars: 8 })).toBe(32);
+      expect(getRampBeats({ to: 140, bars: 2 }, { beats: 7, unit: 8 })).toBe(7);
+    });
+
+    it('should change tempo linearly per beat and hold the target', () => {
+      const ramp = { to: 140, bars: 8 };
+      expect(getTempoAtBeat(120, ramp, 32, 0)).toBe(120);
+      expect(getTempoAtBeat(120, ramp, 32, 8)).toBe(125);
+      expect(getTempoAtBeat(120, ramp, 32, 64)).toBe(140);
+      expect(getTempoAtBeat(120, undefined, 0, 8)).toBe(120);
+    });
+
+    it('should time a ramp so it covers exactly its beats', () => {
+      // Integrate the exponential ramp numerically: beats = ∫ bpm(t) / 60 dt
+      const duration = getRampDuration(100, 200, 16);
+      let beats = 0;
+      const slices = 10000;
+      for (let i = 0; i < slices; i++) {
+        const t = ((i + 0.5) / slices) * duration;
+        beats += (100 * Math.pow(2, t / duration) / 60) * (duration / slices);
+      }
+      expect(beats).toBeCloseTo(16, 3);
+      expect(getRampDuration(120, 120, 4)).toBe(2);
+    });
+  });
+});
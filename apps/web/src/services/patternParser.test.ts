@@ -73,14 +73,14 @@ seq hihat: x.x.x.x.x.x.x.x.`;
     });
 
     it('should clamp tempo to valid range', () => {
-      const lowTempo = 'TEMPO 50\n\nseq kick: x...x...x...x...';
-      const highTempo = 'TEMPO 250\n\nseq kick: x...x...x...x...';
+      const lowTempo = 'TEMPO 10\n\nseq kick: x...x...x...x...';
+      const highTempo = 'TEMPO 350\n\nseq kick: x...x...x...x...';
 
       const lowResult = PatternParser.parse(lowTempo);
       const highResult = PatternParser.parse(highTempo);
 
-      expect(lowResult.tempo).toBe(60); // Clamped to minimum
-      expect(highResult.tempo).toBe(200); // Clamped to maximum
+      expect(lowResult.tempo).toBe(20); // Clamped to minimum
+      expect(highResult.tempo).toBe(300); // Clamped to maximum
     });
   });
 
@@ -113,10 +113,10 @@ seq hihat: x.x.x.x.x.x.x.x.`;
     });
 
     it('should limit pattern length to MAX_STEPS', () => {
-      const longPattern = 'seq kick: ' + 'x'.repeat(50);
+      const longPattern = 'seq kick: ' + 'x'.repeat(150);
       const result = PatternParser.parse(longPattern);
 
-      expect(result.instruments.kick.steps.length).toBe(32); // MAX_STEPS
+      expect(result.instruments.kick.steps.length).toBe(128); // MAX_STEPS
     });
 
     it('should handle empty pattern strings', () => {
@@ -190,11 +190,11 @@ seq snare: x...x...`;
     });
 
     it('should detect tempo out of range', () => {
-      const pattern = 'TEMPO 50\n\nseq kick: x...x...x...x...';
+      const pattern = 'TEMPO 10\n\nseq kick: x...x...x...x...';
       const validation = PatternParser.validate(pattern);
 
       expect(validation.isValid).toBe(false);
-      expect(validation.errors).toContain('Tempo must be between 60 and 200 BPM');
+      expect(validation.errors).toContain('Tempo must be between 20 and 300 BPM');
     });
 
     it('should detect invalid sequence format', () => {
@@ -211,7 +211,7 @@ seq snare: x...x...`;
       const validation = PatternParser.validate(pattern);
 
       expect(validation.isValid).toBe(false);
-      expect(validation.errors).toContain("Invalid pattern characters in kick. Use only 'x', 'X', 'o', and '.'");
+      expect(validation.errors).toContain("Invalid pattern characters in kick. Use only 'x', 'X', 'o', 'f', 'r', '.', '-' (tie) and '|' between bars");
       expect(validation.invalidInstruments).toContain('kick');
     });
 
@@ -232,7 +232,7 @@ seq snare: x...x...`;
     });
 
     it('should warn about very long patterns', () => {
-      const pattern = 'TEMPO 120\n\nseq kick: ' + 'x'.repeat(40);
+      const pattern = 'TEMPO 120\n\nseq kick: ' + 'x'.repeat(140);
       const validation = PatternParser.validate(pattern);
 
       expect(validation.isValid).toBe(true);
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+
+describe('PatternParser - Ties and Note Length', () => {
+  describe('Tie Parsing', () => {
+    it('should hold a hit for every tie after it', () => {
+      const result = PatternParser.parse('TEMPO 120\nseq pad: x---....X-..o...');
+      const pad = result.instruments.pad;
+      expect(pad.steps).toEqual([true, false, false, false, false, false, false, false, true, false, false, false, true, false, false, false]);
+      expect(pad.lengths).toEqual([4, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 1, 0, 0, 0]);
+    });
+
+    it('should hold notes with "-" tokens, across bars', () => {
+      const result = PatternParser.parse('TEMPO 120\nnotes bass: A1 - - - | - - C2 .');
+      const bass = result.instruments.bass;
+      expect(bass.steps).toEqual([true, false, false, false, false, false, true, false]);
+      expect(bass.pitches![1]).toBe(0);
+      expect(bass.lengths).toEqual([6, 0, 0, 0, 0, 0, 1, 0]);
+    });
+
+    it('should keep ties from carrying trig conditions', () => {
+      const result = PatternParser.parse('TEMPO 120\nseq pad: x?50---.......');
+      expect(result.instruments.pad.lengths![0]).toBe(4);
+      expect(result.instruments.pad.conditions).toEqual([{ type: 'probability', percent: 50 }, ...Array(10).fill(null)]);
+    });
+
+    it('should omit lengths without ties', () => {
+      expect(PatternParser.parse('TEMPO 120\nseq kick: x...x...').instruments.kick.lengths).toBeUndefined();
+      expect(PatternParser.parse('TEMPO 120\nnotes bass: A1 . C2 .').instruments.bass.lengths).toBeUndefined();
+    });
+  });
+
+  describe('Tie Validation', () => {
+    it('should accept ties after hits and notes', () => {
+      expect(PatternParser.validate('TEMPO 120\nseq pad: x---X-..f--.r...').isValid).toBe(true);
+      expect(PatternParser.validate('TEMPO 120\nnotes bass: Eb-1 - - . C2 - . .').isValid).toBe(true);
+    });
+
+    it('should reject ties with no note to hold', () => {
+      expect(PatternParser.validate('TEMPO 120\nseq pad: --x.x...').errors)
+        .toContain("Tie without a note in pad. A '-' holds the hit before it, e.g. x--- or C2 - - -");
+      expect(PatternParser.validate('TEMPO 120\nseq pad: x-.-x...').isValid).toBe(false);
+      expect(PatternParser.validate('TEMPO 120\nnotes bass: A1 . - .').isValid).toBe(false);
+    });
+
+    it('should reject modifiers on ties', () => {
+      expect(PatternParser.validate('TEMPO 120\nseq pad: x-3.x...').isValid).toBe(false);
+      expect(PatternParser.validate('TEMPO 120\nseq pad: x-?50.x...').isValid).toBe(false);
+    });
+  });
+});
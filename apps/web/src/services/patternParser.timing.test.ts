@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { PatternParser } from './patternParser';
+import { getBarSteps, getBeatSteps, splitStepResolution, toInstrumentStep } from './stepTiming';
+
+describe('PatternParser - Time Signatures and Resolution', () => {
+  describe('TIME', () => {
+    it('should parse the time signature and size the loop to one bar', () => {
+      const result = PatternParser.parse('TIME 7/8\nseq kick: x.....x.....x.');
+      expect(result.timeSignature).toEqual({ beats: 7, unit: 8 });
+      expect(result.totalSteps).toBe(14);
+    });
+
+    it('should default to 4/4 without a TIME line', () => {
+      const result = PatternParser.parse('seq kick: x...');
+      expect(result.timeSignature).toBeUndefined();
+      expect(result.totalSteps).toBe(16);
+    });
+
+    it('should reject malformed time signatures', () => {
+      for (const line of ['TIME 7/9', 'TIME 0/4', 'TIME 4', 'TIME 33/8']) {
+        const result = PatternParser.validate(`${line}\nseq kick: x...x...`);
+        expect(result.errors).toContain('Invalid time signature. Use: TIME 7/8 (1-32 beats over 2, 4, 8 or 16)');
+      }
+      expect(PatternParser.validate('TIME 5/4 # five\nseq kick: x...x...').isValid).toBe(true);
+    });
+  });
+
+  describe('res=', () => {
+    it('should store non-default resolutions on the instrument', () => {
+      const result = PatternParser.parse(`seq kick: x...x...
+seq hihat: x.xx.xx.xx.x res=16t
+seq tom: x...... res=16n
+notes bass: C2 . E2 . res=8n`);
+      expect(result.instruments.hihat.resolution).toBe('16t');
+      expect(result.instruments.hihat.steps).toHaveLength(12);
+      expect(result.instruments.tom.resolution).toBeUndefined();
+      expect(result.instruments.bass.resolution).toBe('8n');
+    });
+
+    it('should measure totalSteps in 16ths across resolutions', () => {
+      expect(PatternParser.parse('seq pad: x....... x....... res=8n').totalSteps).toBe(32);
+      expect(PatternParser.parse('seq hat: ' + 'x'.repeat(48) + ' res=32n').totalSteps).toBe(24);
+      expect(PatternParser.parse('seq hat: ' + 'x'.repeat(36) + ' res=16t').totalSteps).toBe(24);
+    });
+
+    it('should apply resolution to generator lines', () => {
+      const result = PatternParser.parse('seq perc: euclid(5,12) res=16t');
+      expect(result.instruments.perc.steps).toHaveLength(12);
+      expect(result.instruments.perc.resolution).toBe('16t');
+    });
+
+    it('should reject unknown resolutions', () => {
+      const result = PatternParser.validate('TEMPO 120\nseq hat: x.x.x.x. res=12n');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Invalid resolution in hat: res=12n. Use res=8n, 16n, 16t or 32n');
+      expect(PatternParser.validate('TEMPO 120\nseq hat: x.x.x.x. res=16t').isValid).toBe(true);
+    });
+  });
+
+  describe('step timing helpers', () => {
+    it('should convert 16th positions to instrument steps', () => {
+      expect(toInstrumentStep(6, {})).toBe(6);
+      expect(toInstrumentStep(6, { resolution: '8n' })).toBe(3);
+      expect(toInstrumentStep(6, { resolution: '16t' })).toBe(9);
+      expect(toInstrumentStep(6.5, { resolution: '32n' })).toBe(13);
+    });
+
+    it('should size bars and beats from the meter', () => {
+      expect(getBarSteps({ beats: 3, unit: 4 })).toBe(12);
+      expect(getBarSteps({ beats: 7, unit: 8 })).toBe(14);
+      expect(getBeatSteps({ beats: 7, unit: 8 })).toBe(2);
+      expect(getBeatSteps()).toBe(4);
+    });
+
+    it('should only split a trailing res option', () => {
+      expect(splitStepResolution('x.x. res=8n')).toEqual({ body: 'x.x.', resolution: '8n' });
+      expect(splitStepResolution('x.r.x.')).toEqual({ body: 'x.r.x.', resolution: null });
+    });
+  });
+});
@@ -1,10 +1,50 @@
 // Basic pattern parser for ASCII Generative Sequencer
-import { ParsedPattern, EQModule, AmpModule, CompModule, LFOModule, LFOWave, LFOTarget, SampleModule, FilterModule, FilterType, DelayModule, ReverbModule, PanModule, DistortModule, EnvelopeModule, ChorusModule, PhaserModule, NoteModule } from '../types/app';
+import { ParsedPattern, AutomationLane, BusEffect, BusModule, ChokeModule, DuckModule, SendModule, SynthModule, SynthWave, FmModule, DrumModule, LoopModule, ScaleMode, ScaleSetting, EQModule, AmpModule, CompModule, LFOModule, LFOSync, LFOWave, LFOTarget, ModDestination, ModRoute, ModSource, ChainModule, ChainStage, SampleModule, FilterModule, FilterType, DelayModule, ReverbModule, PanModule, DistortModule, EnvelopeModule, ChorusModule, PhaserModule, NoteModule, ArticulationModule, StepArticulation, StepRatchet, StepResolution, TempoRamp, TimeSignature, TrigCondition, SongOrderEntry } from '../types/app';
+import { AUTOMATION_RANGES, clampAutomationValue, isAutomationTarget } from './automation';
+import { CHAIN_STAGES, getChainScope } from './effectChain';
+import { BUILT_IN_DRUMS, DRUM_MODELS, isDrumModel } from './drumSynth';
+import { UserSampleService } from './userSampleService';
+import { expandGenerator, isGeneratorExpression } from './rhythmGenerators';
+import { DEFAULT_RESOLUTION, getInstrumentSpan, getLoopSteps, isStepResolution, splitStepResolution } from './stepTiming';
+
+// What a step does to note length: starts a note, holds the previous one ('-') or is silent
+type NoteStep = 'hit' | 'tie' | 'rest';
 
 export class PatternParser {
   private static readonly DEFAULT_TEMPO = 120;
-  private static readonly MAX_STEPS = 32;
-  private static readonly VALID_LFO_TARGETS: LFOTarget[] = ['amp', 'filter.freq', 'filter.q', 'pan', 'delay.time', 'delay.feedback'];
+  private static readonly MIN_TEMPO = 20;
+  private static readonly MAX_TEMPO = 300;
+  // Tail of a TEMPO line that ramps: "-> 140 over 8 bars"
+  private static readonly TEMPO_RAMP = /->\s*(\d+(?:\.\d+)?)\s+over\s+(\d+)\s+bars?\s*$/;
+  private static readonly MAX_STEPS = 128; // 8 bars of 16ths
+  // LFO targets on instrument chains and on the master chain
+  private static readonly LFO_TARGETS: Record<LFOModule['scope'], LFOTarget[]> = {
+    instrument: ['amp', 'filter.freq', 'filter.q', 'pan', 'eq.low', 'eq.mid', 'eq.high', 'comp.threshold', 'comp.ratio', 'delay.time', 'delay.feedback', 'delay.mix', 'reverb.mix', 'distort.mix', 'chorus.rate', 'chorus.depth', 'chorus.mix', 'phaser.rate', 'phaser.depth', 'phaser.mix'],
+    master: ['amp', 'eq.low', 'eq.mid', 'eq.high', 'comp.threshold', 'comp.ratio', 'delay.time', 'delay.feedback', 'delay.mix', 'reverb.mix', 'distort.mix', 'chorus.rate', 'chorus.depth', 'chorus.mix', 'phaser.rate', 'phaser.depth', 'phaser.mix'],
+  };
+  private static readonly LFO_WAVES: LFOWave[] = ['sine', 'triangle', 'square', 'sawtooth', 'sample-hold', 'random-smooth'];
+  private static readonly MOD_SOURCES: ModSource[] = ['velocity', 'env1', 'env2', 'step', 'lfo'];
+  // Voice pitch, then everything an instrument LFO can reach
+  private static readonly MOD_DESTINATIONS: ModDestination[] = ['pitch', ...PatternParser.LFO_TARGETS.instrument];
+  private static readonly BUS_EFFECTS: BusEffect[] = ['reverb', 'delay', 'chorus', 'phaser', 'distort'];
+  private static readonly SYNTH_WAVES: SynthWave[] = ['sine', 'square', 'saw', 'triangle'];
+  private static readonly SECTION_HEADER = /^section\s+(\w+)\s*:\s*$/;
+  private static readonly TIME_SIGNATURE = /^TIME\s+(\d+)\/(\d+)\s*$/;
+  private static readonly TIME_UNITS = [2, 4, 8, 16];
+  // Semitone offsets of degrees 1-7 for each SCALE mode
+  private static readonly SCALE_INTERVALS: Record<ScaleMode, number[]> = {
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    dorian: [0, 2, 3, 5, 7, 9, 10],
+    phrygian: [0, 1, 3, 5, 7, 8, 10],
+    lydian: [0, 2, 4, 6, 7, 9, 11],
+    mixolydian: [0, 2, 4, 5, 7, 9, 10],
+    locrian: [0, 1, 3, 5, 6, 8, 10],
+  };
+  private static readonly SCALE_DEGREE = /^([b#]?)(\d{1,2})([+-]*)$/;
+  // One step of a seq string: symbol ('-' ties the previous hit), optional ratchet count (x3 or X{4})
+  // and ramp (< up, > down), then an optional trig condition (?50 or @1:4 / @fill / @!pre ...)
+  private static readonly STEP_TOKEN = /([xXofr.-])(?:(\d)|\{(\d{1,2})\})?([<>])?(\?\d*|@!?(?:fill|pre|\d*(?::\d*)?))?/g;
 
   /**
    * Parse a simple ASCII pattern into a structured format
@@ -12,16 +52,10 @@ export class PatternParser {
    */
   static parse(pattern: string): ParsedPattern {
     // 1. Split lines and strip comments (inline # and //)
-    const lines = pattern.split('\n').map(line => {
-      // Remove comments starting with # or //
-      const commentIndex = line.search(/(\/\/|#)/);
-      if (commentIndex >= 0) {
-        return line.substring(0, commentIndex).trim();
-      }
-      return line.trim();
-    }).filter(line => line.length > 0);
+    const lines = pattern.split('\n').map(line => this.stripInlineComment(line)).filter(line => line.length > 0);
 
     let tempo = this.DEFAULT_TEMPO;
+    let tempoRamp: TempoRamp | undefined;
     const instruments: ParsedPattern['instruments'] = {};
     const eqModules: ParsedPattern['eqModules'] = {};
     const sampleModules: ParsedPattern['sampleModules'] = {};
@@ -33,18 +67,90 @@ export class PatternParser {
     const panModules: ParsedPattern['panModules'] = {};
     const distortModules: ParsedPattern['distortModules'] = {};
     const lfoModules: ParsedPattern['lfoModules'] = {};
+    const modModules: NonNullable<ParsedPattern['modModules']> = {};
+    const chainModules: NonNullable<ParsedPattern['chainModules']> = {};
     const envelopeModules: ParsedPattern['envelopeModules'] = {};
     const chorusModules: ParsedPattern['chorusModules'] = {};
     const phaserModules: ParsedPattern['phaserModules'] = {};
     const noteModules: ParsedPattern['noteModules'] = {};
     const grooveModules: ParsedPattern['grooveModules'] = {};
+    const articulationModules: ParsedPattern['articulationModules'] = {};
+    const synthModules: ParsedPattern['synthModules'] = {};
+    const fmModules: ParsedPattern['fmModules'] = {};
+    const drumModules: ParsedPattern['drumModules'] = {};
+    const loopModules: ParsedPattern['loopModules'] = {};
+    const chokeModules: ParsedPattern['chokeModules'] = {};
+    const duckModules: ParsedPattern['duckModules'] = {};
+    const busModules: ParsedPattern['busModules'] = {};
+    const sendModules: ParsedPattern['sendModules'] = {};
+    const automation: NonNullable<ParsedPattern['automation']> = {};
+    const sections: NonNullable<ParsedPattern['sections']> = {};
+    let song: SongOrderEntry[] | null = null;
+    let seed: number | undefined;
+    let timeSignature: TimeSignature | undefined;
+    // Section whose block we are inside; seq lines before the first header are global
+    let currentSection: string | null = null;
+    // Scale degrees resolve against the key wherever SCALE appears in the document
+    const scale = this.findScale(lines);
 
     for (const line of lines) {
-      // Parse tempo
+      // SCALE was resolved up front
+      if (line.startsWith('SCALE ')) {
+        continue;
+      }
+
+      // Parse tempo, optionally ramping: TEMPO 120 -> 140 over 8 bars
       if (line.startsWith('TEMPO ')) {
-        const tempoMatch = line.match(/TEMPO\s+(\d+)/);
+        const tempoMatch = line.match(/TEMPO\s+(\d+(?:\.\d+)?)/);
         if (tempoMatch) {
-          tempo = Math.max(60, Math.min(200, parseInt(tempoMatch[1], 10)));
+          tempo = this.clampTempo(parseFloat(tempoMatch[1]));
+          const rampMatch = line.match(this.TEMPO_RAMP);
+          tempoRamp = rampMatch
+            ? { to: this.clampTempo(parseFloat(rampMatch[1])), bars: Math.max(1, Math.min(64, parseInt(rampMatch[2], 10))) }
+            : undefined;
+        }
+        continue;
+      }
+
+      // Parse TIME signature: TIME 7/8
+      if (line.startsWith('TIME ')) {
+        const timeMatch = line.match(this.TIME_SIGNATURE);
+        if (timeMatch) {
+          const beats = parseInt(timeMatch[1], 10);
+          const unit = parseInt(timeMatch[2], 10);
+          if (beats >= 1 && beats <= 32 && this.TIME_UNITS.includes(unit)) {
+            timeSignature = { beats, unit };
+          }
+        }
+        continue;
+      }
+
+      // Parse SEED for reproducible probability trigs
+      if (line.startsWith('SEED ')) {
+        const seedMatch = line.match(/SEED\s+(\d+)/);
+        if (seedMatch) {
+          seed = parseInt(seedMatch[1], 10);
+        }
+        continue;
+      }
+
+      // Parse SECTION headers: section <name>:
+      if (line.startsWith('section ')) {
+        const sectionMatch = line.match(this.SECTION_HEADER);
+        if (sectionMatch) {
+          currentSection = sectionMatch[1].toLowerCase();
+          if (!sections[currentSection]) {
+            sections[currentSection] = { name: currentSection, instruments: {}, totalSteps: 16 };
+          }
+        }
+        continue;
+      }
+
+      // Parse SONG order: song: intro verse*4 chorus*2
+      if (/^song\s*:/.test(line)) {
+        const songMatch = line.match(/^song\s*:\s*(.*)$/);
+        if (songMatch) {
+          song = this.parseSongString(songMatch[1]).entries;
         }
         continue;
       }
@@ -205,6 +311,108 @@ export class PatternParser {
         continue;
       }
 
+      // Parse SYNTH voices: synth lead: osc=saw osc2=square detune=7 cutoff=1200
+      if (line.startsWith('synth ')) {
+        const synthMatch = line.match(/synth\s+(\w+):\s*(.+)/);
+        if (synthMatch) {
+          const [, moduleName, synthString] = synthMatch;
+          const synthModule = this.parseSynthString(moduleName, synthString);
+          if (synthModule) {
+            synthModules[synthModule.name] = synthModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse FM voices: fm bell: ratio=3.5 index=4 ienv=0.3
+      if (line.startsWith('fm ')) {
+        const fmMatch = line.match(/fm\s+(\w+):\s*(.+)/);
+        if (fmMatch) {
+          const [, moduleName, fmString] = fmMatch;
+          const fmModule = this.parseFmString(moduleName, fmString);
+          fmModules[fmModule.name] = fmModule;
+        }
+        continue;
+      }
+
+      // Parse DRUM voices: drum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2
+      if (line.startsWith('drum ')) {
+        const drumMatch = line.match(/drum\s+(\w+):\s*(.*)/);
+        if (drumMatch) {
+          const [, moduleName, drumString] = drumMatch;
+          const drumModule = this.parseDrumString(moduleName, drumString);
+          if (drumModule) {
+            drumModules[drumModule.name] = drumModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse LOOP modules: loop break: user:amen bars=1 slices=16
+      if (line.startsWith('loop ')) {
+        const loopMatch = line.match(/loop\s+(\w+):\s*(.+)/);
+        if (loopMatch) {
+          const [, moduleName, loopString] = loopMatch;
+          const loopModule = this.parseLoopString(moduleName, loopString);
+          if (loopModule) {
+            loopModules[loopModule.name] = loopModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse CHOKE groups: choke hats: hihat openhat
+      if (line.startsWith('choke ')) {
+        const chokeMatch = line.match(/choke\s+(\w+):\s*(.+)/);
+        if (chokeMatch) {
+          const [, groupName, membersString] = chokeMatch;
+          const chokeModule = this.parseChokeString(groupName, membersString);
+          if (chokeModule) {
+            chokeModules[chokeModule.name] = chokeModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse DUCK modules: duck bass: sidechain=kick depth=0.6
+      if (line.startsWith('duck ')) {
+        const duckMatch = line.match(/duck\s+(\w+):\s*(.+)/);
+        if (duckMatch) {
+          const [, moduleName, duckString] = duckMatch;
+          const duckModule = this.parseDuckString(moduleName, duckString);
+          if (duckModule) {
+            duckModules[duckModule.name] = duckModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse BUS modules: bus verb: reverb decay=3 mix=1
+      if (line.startsWith('bus ')) {
+        const busMatch = line.match(/bus\s+(\w+):\s*(.+)/);
+        if (busMatch) {
+          const [, busName, busString] = busMatch;
+          const busModule = this.parseBusString(busName, busString);
+          if (busModule) {
+            busModules[busModule.name] = busModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse SEND modules: send snare: verb=0.4 echo=0.2
+      if (line.startsWith('send ')) {
+        const sendMatch = line.match(/send\s+(\w+):\s*(.+)/);
+        if (sendMatch) {
+          const [, instrumentName, sendString] = sendMatch;
+          const sendModule = this.parseSendString(instrumentName, sendString);
+          if (sendModule) {
+            sendModules[sendModule.name] = sendModule;
+          }
+        }
+        continue;
+      }
+
       // Parse NOTE (pitch) modules
       if (line.startsWith('note ')) {
         const noteMatch = line.match(/note\s+(\w+):\s*(.+)/);
@@ -238,7 +446,98 @@ export class PatternParser {
           const [, target, lfoString] = lfoMatch;
           const lfo = this.parseLFOString(target, lfoString);
           if (lfo) {
-            lfoModules[lfo.key] = lfo;
+            // LFOs on the same target stack: kick.filter.freq, kick.filter.freq#2, ...
+            let key = lfo.key;
+            for (let n = 2; lfoModules[key]; n++) key = `${lfo.key}#${n}`;
+            lfoModules[key] = { ...lfo, key };
+          }
+        }
+        continue;
+      }
+
+      // Parse MOD routes: mod lead: src=velocity dst=filter.freq amt=0.6
+      if (line.startsWith('mod ')) {
+        const modMatch = line.match(/mod\s+(\w+):\s*(.+)/);
+        if (modMatch) {
+          const [, moduleName, modString] = modMatch;
+          const route = this.parseModString(moduleName, modString);
+          if (route) {
+            const name = moduleName.toLowerCase();
+            // Every mod line adds a route
+            modModules[name] = { name, routes: [...(modModules[name]?.routes ?? []), route] };
+          }
+        }
+        continue;
+      }
+
+      // Parse effect CHAIN order: chain kick: distort > filter > comp > eq
+      if (line.startsWith('chain ')) {
+        const chainMatch = line.match(/chain\s+(\w+):\s*(.+)/);
+        if (chainMatch) {
+          const [, moduleName, chainString] = chainMatch;
+          const chain = this.parseChainString(moduleName, chainString);
+          if (chain) {
+            chainModules[chain.name] = chain;
+          }
+        }
+        continue;
+      }
+
+      // Parse ARTICULATION modules: articulation <instrument>: flam=0.03 roll=3
+      if (line.startsWith('articulation ')) {
+        const articulationMatch = line.match(/articulation\s+(\w+):\s*(.+)/);
+        if (articulationMatch) {
+          const [, moduleName, articulationString] = articulationMatch;
+          const articulationModule = this.parseArticulationString(moduleName, articulationString);
+          if (articulationModule) {
+            articulationModules[moduleName.toLowerCase()] = articulationModule;
+          }
+        }
+        continue;
+      }
+
+      // Parse automation lanes: auto <instrument>.<target>: 200 400 . 1200
+      if (line.startsWith('auto ')) {
+        const autoMatch = line.match(/auto\s+([^:]+):\s*(.+)/);
+        if (autoMatch) {
+          const [, path, autoBody] = autoMatch;
+          const lanePath = this.parseAutomationPath(path);
+          const { body: valuesString, resolution } = splitStepResolution(autoBody);
+          const { values } = this.parseAutomationValues(valuesString);
+          const stepResolution = this.stepResolution(resolution);
+          if (lanePath && values.length > 0) {
+            const key = `${lanePath.name}.${lanePath.target}`;
+            automation[key] = {
+              key,
+              ...lanePath,
+              values: values.map(value => value === null ? null : clampAutomationValue(lanePath.target, value)),
+              ...(stepResolution && { resolution: stepResolution }),
+            };
+          }
+        }
+        continue;
+      }
+
+      // Parse melodic sequences: notes <instrument>: C2 . E2 G2 . . A#1 .
+      if (line.startsWith('notes ')) {
+        const notesMatch = line.match(/notes\s+(\w+):\s*(.+)/);
+        if (notesMatch) {
+          const [, instrumentName, notesBody] = notesMatch;
+          const { body: notesString, resolution } = splitStepResolution(notesBody);
+          const { steps, velocities, pitches, lengths } = this.parseNotesString(notesString, scale);
+          const stepResolution = this.stepResolution(resolution);
+
+          if (steps.length > 0) {
+            const lowerInstrumentName = instrumentName.toLowerCase();
+            const target = currentSection ? sections[currentSection].instruments : instruments;
+            target[lowerInstrumentName] = {
+              steps,
+              velocities,
+              pitches,
+              ...(lengths && { lengths }),
+              ...(stepResolution && { resolution: stepResolution }),
+              name: lowerInstrumentName
+            };
           }
         }
         continue;
@@ -248,14 +547,26 @@ export class PatternParser {
       if (line.startsWith('seq ')) {
         const seqMatch = line.match(/seq\s+(\w+):\s*(.+)/);
         if (seqMatch) {
-          const [, instrumentName, patternString] = seqMatch;
-          const { steps, velocities } = this.parsePatternString(patternString);
+          const [, instrumentName, seqBody] = seqMatch;
+          const { body: rawPattern, resolution } = splitStepResolution(seqBody);
+          // Generator expressions (euclid(5,16), every(3,16)) expand to literal steps
+          const patternString = isGeneratorExpression(rawPattern)
+            ? (expandGenerator(rawPattern).pattern ?? '')
+            : rawPattern;
+          const { steps, velocities, articulations, ratchets, conditions, lengths } = this.parsePatternString(patternString);
+          const stepResolution = this.stepResolution(resolution);
 
           if (steps.length > 0) {
             const lowerInstrumentName = instrumentName.toLowerCase();
-            instruments[lowerInstrumentName] = {
+            const target = currentSection ? sections[currentSection].instruments : instruments;
+            target[lowerInstrumentName] = {
               steps,
               velocities,
+              ...(articulations && { articulations }),
+              ...(ratchets && { ratchets }),
+              ...(conditions && { conditions }),
+              ...(lengths && { lengths }),
+              ...(stepResolution && { resolution: stepResolution }),
               name: lowerInstrumentName
             };
           }
@@ -263,14 +574,25 @@ export class PatternParser {
       }
     }
 
-    // Calculate total steps (use the longest pattern or default to 16)
-    const totalSteps = Math.max(
-      16,
-      ...Object.values(instruments).map(inst => inst.steps.length)
-    );
+    // Calculate total steps in 16ths (the longest pattern, at least one bar)
+    const totalSteps = getLoopSteps(Object.values(instruments), timeSignature);
+
+    // Each section loops over its own longest sequence (global tracks included)
+    Object.values(sections).forEach(section => {
+      section.totalSteps = Math.max(
+        totalSteps,
+        ...Object.values(section.instruments).map(getInstrumentSpan)
+      );
+    });
+
+    // Without an explicit song line, play sections once each in declaration order
+    const hasSections = Object.keys(sections).length > 0;
+    const songOrder = (song ?? Object.keys(sections).map(section => ({ section, repeats: 1 })))
+      .filter(entry => sections[entry.section]);
 
     return {
       tempo,
+      ...(tempoRamp && { tempoRamp }),
       instruments,
       sampleModules,
       eqModules,
@@ -287,19 +609,161 @@ export class PatternParser {
       phaserModules,
       noteModules,
       grooveModules,
+      articulationModules,
+      synthModules,
+      fmModules,
+      drumModules,
+      loopModules,
+      chokeModules,
+      duckModules,
+      busModules,
+      sendModules,
+      ...(Object.keys(modModules).length > 0 && { modModules }),
+      ...(Object.keys(chainModules).length > 0 && { chainModules }),
+      ...(Object.keys(automation).length > 0 && { automation }),
+      ...(hasSections && { sections, song: songOrder }),
+      ...(scale && { scale }),
+      ...(seed !== undefined && { seed }),
+      ...(timeSignature && { timeSignature }),
       totalSteps
     };
   }
 
+  /**
+   * Remove a trailing comment starting with // or #. A '#' only opens a comment
+   * at the start of the line or after whitespace, so sharps like A#1 survive.
+   */
+  private static stripInlineComment(line: string): string {
+    const commentIndex = line.search(/(\/\/|(?:^|\s)#)/);
+    if (commentIndex >= 0) {
+      return line.substring(0, commentIndex).trim();
+    }
+    return line.trim();
+  }
+
+  /**
+   * Parse a song order string like "intro verse*4 chorus*2" into entries.
+   * Returns the tokens that could not be understood so validate() can report them.
+   */
+  private static parseSongString(songString: string): { entries: SongOrderEntry[]; invalid: string[] } {
+    const entries: SongOrderEntry[] = [];
+    const invalid: string[] = [];
+
+    for (const token of songString.trim().split(/\s+/).filter(Boolean)) {
+      const m = token.match(/^(\w+)(?:\*(\d+))?$/);
+      if (!m) {
+        invalid.push(token);
+        continue;
+      }
+      const repeats = m[2] ? Math.max(1, Math.min(64, parseInt(m[2], 10))) : 1;
+      entries.push({ section: m[1].toLowerCase(), repeats });
+    }
+
+    return { entries, invalid };
+  }
+
+  /**
+   * Step counts of each bar in a sequence split by '|' separators, using
+   * `countSteps` for one bar's text. Leading and trailing separators
+   * ("|x...|x...|") do not open empty bars. Returns a single entry when the
+   * sequence has no separators.
+   */
+  private static barLengths(body: string, countSteps: (bar: string) => number): number[] {
+    const bars = body.split('|');
+    if (bars.length > 1 && !bars[0].trim()) bars.shift();
+    if (bars.length > 1 && !bars[bars.length - 1].trim()) bars.pop();
+    return bars.map(countSteps);
+  }
+
+  private static clampTempo(tempo: number): number {
+    return Math.max(this.MIN_TEMPO, Math.min(this.MAX_TEMPO, tempo));
+  }
+
+  /** A valid non-default `res=` value, or null (16n lines store no resolution) */
+  private static stepResolution(value: string | null): StepResolution | null {
+    return value && value !== DEFAULT_RESOLUTION && isStepResolution(value) ? value : null;
+  }
+
+  private static invalidResolutionError(instrumentName: string, resolution: string): string {
+    return `Invalid resolution in ${instrumentName}: res=${resolution}. Use res=8n, 16n, 16t or 32n`;
+  }
+
+  /** Whether a tie ('-') starts the line or follows a rest, with no hit to hold */
+  private static hasOrphanTie(symbols: string[]): boolean {
+    let holding = false;
+    return symbols.some(symbol => {
+      if (symbol === '-') return !holding;
+      holding = symbol !== '.';
+      return false;
+    });
+  }
+
+  /**
+   * An instrument plays through at most one voice line; flag a `synth`, `fm`, `drum` or `loop`
+   * line of another kind for the same instrument.
+   */
+  private static checkVoiceLine(instrumentName: string, kind: string, voiceLines: Record<string, string>, errors: string[]): void {
+    const name = instrumentName.toLowerCase();
+    const existing = voiceLines[name];
+    if (existing && existing !== kind) {
+      errors.push(`${name} has both ${existing} and ${kind} lines. Use one voice per instrument`);
+    } else {
+      voiceLines[name] = kind;
+    }
+  }
+
+  private static orphanTieError(instrumentName: string): string {
+    return `Tie without a note in ${instrumentName}. A '-' holds the hit before it, e.g. x--- or C2 - - -`;
+  }
+
+  /** Report bars of different lengths; returns true when an error was added */
+  private static hasUnevenBars(instrumentName: string, lengths: number[], errors: string[]): boolean {
+    if (new Set(lengths).size <= 1) return false;
+    errors.push(`Uneven bars in ${instrumentName}: ${lengths.join(' | ')} steps. Every bar between '|' separators needs the same number of steps`);
+    return true;
+  }
+
   /**
    * Parse a pattern string like "x...x..." into boolean array and velocities
    * X = accent (velocity 1.0), x = normal (0.7), o = ghost (0.3), . = rest (0)
+   * f = flam and r = roll play at normal velocity. A hit may carry a ratchet
+   * (x3, X{4}) with an optional velocity ramp (x4< up, x4> down), and any
+   * hit may carry a trig condition (x?50, x@1:4, x@fill, x@!pre).
+   * Each '-' holds the previous hit one step longer (x--- lasts four steps).
+   * `articulations`, `ratchets`, `conditions` and `lengths` are only returned when used.
    */
-  private static parsePatternString(pattern: string): { steps: boolean[]; velocities: number[] } {
+  private static parsePatternString(pattern: string): {
+    steps: boolean[];
+    velocities: number[];
+    articulations?: (StepArticulation | null)[];
+    ratchets?: (StepRatchet | null)[];
+    conditions?: (TrigCondition | null)[];
+    lengths?: number[];
+  } {
     const steps: boolean[] = [];
     const velocities: number[] = [];
-
-    for (const char of pattern) {
+    const articulations: (StepArticulation | null)[] = [];
+    const ratchets: (StepRatchet | null)[] = [];
+    const conditions: (TrigCondition | null)[] = [];
+    const kinds: NoteStep[] = [];
+
+    // Characters outside step tokens (spaces, stray symbols) are ignored
+    for (const [, char, digit, braced, ramp, condition] of pattern.matchAll(this.STEP_TOKEN)) {
+      const hits = parseInt(digit ?? braced ?? '', 10);
+      const canRatchet = char === 'X' || char === 'x' || char === 'o';
+      ratchets.push(canRatchet && hits >= 2
+        ? { hits: Math.min(8, hits), ramp: ramp === '<' ? 'up' : ramp === '>' ? 'down' : 'none' }
+        : null);
+      conditions.push(char !== '.' && char !== '-' && condition ? this.parseTrigCondition(condition) : null);
+      kinds.push(char === '-' ? 'tie' : char === '.' ? 'rest' : 'hit');
+
+      if (char === 'f' || char === 'r') {
+        steps.push(true);
+        velocities.push(0.7);
+        articulations.push(char === 'f' ? 'flam' : 'roll');
+        continue;
+      }
+      articulations.push(null);
       if (char === 'X') {
         steps.push(true);
         velocities.push(1.0);   // accent
@@ -309,20 +773,185 @@ export class PatternParser {
       } else if (char === 'o') {
         steps.push(true);
         velocities.push(0.3);   // ghost note
-      } else if (char === '.') {
+      } else if (char === '.' || char === '-') {
         steps.push(false);
         velocities.push(0);
       }
-      // Ignore spaces and other characters
     }
 
-    // Limit to max steps
+    // Limit to max steps ('|' bar separators are not steps)
+    const lengths = this.noteLengths(kinds);
     return {
       steps: steps.slice(0, this.MAX_STEPS),
       velocities: velocities.slice(0, this.MAX_STEPS),
+      ...(articulations.some(Boolean) && { articulations: articulations.slice(0, this.MAX_STEPS) }),
+      ...(ratchets.some(Boolean) && { ratchets: ratchets.slice(0, this.MAX_STEPS) }),
+      ...(conditions.some(Boolean) && { conditions: conditions.slice(0, this.MAX_STEPS) }),
+      ...(lengths.some(length => length > 1) && { lengths: lengths.slice(0, this.MAX_STEPS) }),
     };
   }
 
+  /**
+   * Steps each note lasts: a hit counts one step plus every tie right after it
+   * (ties after a rest hold nothing). Rests and ties get 0.
+   */
+  private static noteLengths(kinds: NoteStep[]): number[] {
+    const lengths = kinds.map(kind => kind === 'hit' ? 1 : 0);
+    let held = -1;
+    kinds.forEach((kind, i) => {
+      if (kind === 'hit') held = i;
+      else if (kind === 'rest') held = -1;
+      else if (held >= 0) lengths[held]++;
+    });
+    return lengths;
+  }
+
+  /**
+   * Parse a trig condition suffix: "?50" (probability %), "@1:4" (first of
+   * every four loops), "@fill", "@!fill", "@pre", "@!pre".
+   * Returns null for anything out of range.
+   */
+  private static parseTrigCondition(condition: string): TrigCondition | null {
+    const probability = condition.match(/^\?(\d+)$/);
+    if (probability) {
+      const percent = parseInt(probability[1], 10);
+      return percent >= 1 && percent <= 100 ? { type: 'probability', percent } : null;
+    }
+    const ratio = condition.match(/^@(\d+):(\d+)$/);
+    if (ratio) {
+      const hit = parseInt(ratio[1], 10);
+      const every = parseInt(ratio[2], 10);
+      return hit >= 1 && every <= 8 && hit <= every ? { type: 'ratio', hit, every } : null;
+    }
+    const flag = condition.match(/^@(!?)(fill|pre)$/);
+    if (flag) {
+      return { type: flag[2] as 'fill' | 'pre', negate: flag[1] === '!' };
+    }
+    return null;
+  }
+
+  /**
+   * Find the last valid SCALE line, e.g. "SCALE A minor transpose=-2"
+   */
+  private static findScale(lines: string[]): ScaleSetting | undefined {
+    let scale: ScaleSetting | undefined;
+    for (const line of lines) {
+      if (!line.startsWith('SCALE ')) continue;
+      scale = this.parseScaleString(this.stripInlineComment(line.slice(6))) ?? scale;
+    }
+    return scale;
+  }
+
+  /**
+   * Parse a SCALE string like "A minor", "F#2 dorian" or "C major transpose=3".
+   * The root sits in octave 3 unless an octave is given.
+   */
+  private static parseScaleString(scaleString: string): ScaleSetting | null {
+    const m = scaleString.trim().match(/^([A-G][#b]?)(-?\d)?\s+(\w+)(?:\s+transpose\s*=\s*(-?\d+))?$/);
+    if (!m) return null;
+    const [, root, octave, modeName, transposeStr] = m;
+
+    const aliases: Record<string, ScaleMode> = { ionian: 'major', aeolian: 'minor' };
+    const lowerMode = modeName.toLowerCase();
+    const mode = (aliases[lowerMode] ?? lowerMode) as ScaleMode;
+    if (!this.SCALE_INTERVALS[mode]) return null;
+
+    const rootMidi = this.noteNameToMidi(`${root}${octave ?? '3'}`);
+    if (rootMidi === null) return null;
+
+    const transpose = transposeStr ? Math.max(-24, Math.min(24, parseInt(transposeStr, 10))) : 0;
+    return { root, mode, rootMidi, transpose };
+  }
+
+  /**
+   * Resolve a scale degree like "5", "b7", "#4" or "1+" (octave up) / "3-"
+   * (octave down) to a MIDI note. Degrees above 7 continue into the next octave.
+   */
+  private static scaleDegreeToMidi(token: string, scale: ScaleSetting): number | null {
+    const m = token.match(this.SCALE_DEGREE);
+    if (!m) return null;
+    const [, accidental, degreeStr, shifts] = m;
+    const degree = parseInt(degreeStr, 10);
+    if (degree < 1 || degree > 14) return null;
+
+    const intervals = this.SCALE_INTERVALS[scale.mode];
+    let midi = scale.rootMidi + Math.floor((degree - 1) / 7) * 12 + intervals[(degree - 1) % 7];
+    if (accidental === '#') midi += 1;
+    if (accidental === 'b') midi -= 1;
+    for (const shift of shifts) midi += shift === '+' ? 12 : -12;
+    return midi;
+  }
+
+  /**
+   * Parse a melodic sequence like "C2 . E2 G2 | A2 ..." into steps, velocities and pitches.
+   * Each whitespace-separated token is one step: a note name (C4 = MIDI 60,
+   * sharps/flats as C#3 or Db3), a scale degree when a SCALE is set, or '.'
+   * for a rest. The SCALE transpose applies to every note. Unknown tokens are
+   * returned in `invalid` so validate() can report them.
+   */
+  private static parseNotesString(notesString: string, scale?: ScaleSetting): { steps: boolean[]; velocities: number[]; pitches: number[]; lengths?: number[]; invalid: string[] } {
+    const steps: boolean[] = [];
+    const velocities: number[] = [];
+    const pitches: number[] = [];
+    const kinds: NoteStep[] = [];
+    const invalid: string[] = [];
+
+    // '|' separates bars and takes no step
+    for (const token of notesString.replace(/\|/g, ' ').trim().split(/\s+/).filter(Boolean)) {
+      if (token === '.' || token === '-') {
+        steps.push(false);
+        velocities.push(0);
+        pitches.push(0);
+        kinds.push(token === '-' ? 'tie' : 'rest');
+        continue;
+      }
+      const base = scale && this.SCALE_DEGREE.test(token)
+        ? this.scaleDegreeToMidi(token, scale)
+        : this.noteNameToMidi(token);
+      const midi = base === null ? null : base + (scale?.transpose ?? 0);
+      if (midi === null || midi < 0 || midi > 127) {
+        invalid.push(token);
+        continue;
+      }
+      steps.push(true);
+      velocities.push(0.7);
+      pitches.push(this.midiToFrequency(midi));
+      kinds.push('hit');
+    }
+
+    const lengths = this.noteLengths(kinds);
+    return {
+      steps: steps.slice(0, this.MAX_STEPS),
+      velocities: velocities.slice(0, this.MAX_STEPS),
+      pitches: pitches.slice(0, this.MAX_STEPS),
+      ...(lengths.some(length => length > 1) && { lengths: lengths.slice(0, this.MAX_STEPS) }),
+      invalid,
+    };
+  }
+
+  /**
+   * Convert a note name like "C4", "A#1" or "Eb-1" to a MIDI note number (C4 = 60).
+   * The letter must be uppercase so "b7" stays free for scale degrees.
+   * Returns null for anything that is not a note name in the MIDI range.
+   */
+  private static noteNameToMidi(name: string): number | null {
+    const m = name.match(/^([A-G])(#|b)?(-?\d)$/);
+    if (!m) return null;
+    const [, letter, accidental, octave] = m;
+    const semitones: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+    let midi = (parseInt(octave, 10) + 1) * 12 + semitones[letter.toLowerCase()];
+    if (accidental === '#') midi += 1;
+    if (accidental === 'b') midi -= 1;
+    return midi >= 0 && midi <= 127 ? midi : null;
+  }
+
+  /**
+   * Convert a MIDI note number to Hz: f = 440 * 2^((n-69)/12)
+   */
+  private static midiToFrequency(midi: number): number {
+    return 440 * Math.pow(2, (midi - 69) / 12);
+  }
+
   /**
    * Parse EQ string like "low=2 mid=-1 high=0" into EQModule
    * Any combination of low/mid/high may be provided in any order
@@ -397,10 +1026,11 @@ export class PatternParser {
   }
 
   /**
-   * Parse SAMPLE string like "kick: snare" OR with options: "kick: snare gain=2"
+   * Parse SAMPLE string like "kick: snare" OR with options: "kick: snare gain=2",
+   * "pad: user:choir start=0.25 end=0.5 pitch=-5 reverse loop fade=0.05"
    */
   private static parseSampleString(moduleName: string, sampleString: string): SampleModule | null {
-    // Split by spaces; first token is sample name, rest are key=value
+    // Split by spaces; first token is sample name, rest are key=value or flags
     const parts = sampleString.trim().split(/\s+/);
     if (!parts.length) return null;
     const sampleName = parts[0].toLowerCase();
@@ -414,18 +1044,36 @@ export class PatternParser {
         gain = steps;
       }
     }
+    const option = (key: string, min: number, max: number) => {
+      const m = opts.match(new RegExp(`\\b${key}\\s*=\\s*(-?[\\d.]+)`, 'i'));
+      const value = m ? parseFloat(m[1]) : NaN;
+      return Number.isNaN(value) ? undefined : Math.max(min, Math.min(max, value));
+    };
+    const flags = parts.slice(1).map(part => part.toLowerCase());
+    const start = option('start', 0, 1);
+    const end = option('end', 0, 1);
+    const pitch = option('pitch', -24, 24);
+    const fade = option('fade', 0, 1);
 
     return {
       name: moduleName.toLowerCase(),
       sample: sampleName,
       gain,
+      ...(start !== undefined && { start }),
+      ...(end !== undefined && { end }),
+      ...(pitch !== undefined && { pitch }),
+      ...(flags.includes('reverse') && { reverse: true }),
+      ...(flags.includes('loop') && { loop: true }),
+      ...(fade !== undefined && { fade }),
     };
   }
 
   /**
    * Parse LFO string and target: supports 2-part (name.amp, name.pan) and
-   * 3-part (name.filter.freq, name.delay.time) dotted paths.
-   * Scope rules: delay targets are master-only, filter and pan are instrument-only, amp works on both.
+   * 3-part (name.filter.freq, master.chorus.rate) dotted paths.
+   * Scope rules: each scope has its own targets (LFO_TARGETS); filter and pan are
+   * instrument-only.
+   * Returns null for an unknown target or a sync rate that doesn't parse.
    */
   private static parseLFOString(target: string, lfoString: string): LFOModule | null {
     const normalizedTarget = target.trim().toLowerCase();
@@ -436,27 +1084,17 @@ export class PatternParser {
     if (!name) return null;
 
     const targetType = parts.slice(1).join('.') as LFOTarget;
-    if (!this.VALID_LFO_TARGETS.includes(targetType)) return null;
-
-    // Enforce scope rules
     const scope: 'master' | 'instrument' = name === 'master' ? 'master' : 'instrument';
-    if (scope === 'master' && (targetType === 'filter.freq' || targetType === 'filter.q' || targetType === 'pan')) return null;
-    if (scope === 'instrument' && (targetType === 'delay.time' || targetType === 'delay.feedback')) return null;
+    if (!this.LFO_TARGETS[scope].includes(targetType)) return null;
 
-    const pairs = Array.from(lfoString.matchAll(/(rate|depth|wave)\s*=\s*([^\s]+)/gi));
+    const pairs = Array.from(lfoString.matchAll(/(rate|depth|wave|reset)\s*=\s*([^\s]+)/gi));
     const map: Record<string, string> = {};
     for (const [, key, value] of pairs as any) {
       map[key.toLowerCase()] = String(value);
     }
 
-    // rate may have 'Hz' suffix
-    let rateHz = 1;
-    if (map['rate']) {
-      const rateStr = map['rate'].toLowerCase().replace(/hz$/, '');
-      const n = parseFloat(rateStr);
-      if (!Number.isNaN(n)) rateHz = n;
-    }
-    rateHz = Math.max(0.1, Math.min(20, rateHz));
+    const shape = this.parseLFOShape(map);
+    if (!shape) return null;
 
     let depth = 0.5;
     if (map['depth']) {
@@ -465,10 +1103,6 @@ export class PatternParser {
     }
     depth = Math.max(0, Math.min(1, depth));
 
-    const wave = ((map['wave'] || 'sine').toLowerCase() as LFOWave);
-    const allowed: LFOWave[] = ['sine', 'triangle', 'square', 'sawtooth'];
-    const finalWave = allowed.includes(wave) ? wave : 'sine';
-
     const key = `${name}.${targetType}`;
 
     return {
@@ -476,12 +1110,146 @@ export class PatternParser {
       scope,
       target: targetType,
       name,
-      rateHz,
+      rateHz: shape.rateHz,
+      ...(shape.sync && { sync: shape.sync }),
       depth,
-      wave: finalWave,
+      wave: shape.wave,
+      reset: shape.reset,
+    };
+  }
+
+  /**
+   * Rate, wave and phase reset of an LFO from its `rate=`, `wave=` and `reset=`
+   * values, shared by `lfo` lines and `mod` routes from an LFO. Returns null for
+   * a sync rate that doesn't parse.
+   */
+  private static parseLFOShape(map: Record<string, string>): Pick<LFOModule, 'rateHz' | 'sync' | 'wave' | 'reset'> | null {
+    // rate is Hz (optional 'Hz' suffix), a note value (1/8) or bars (2bar)
+    let rateHz = 1;
+    let sync: LFOSync | undefined;
+    if (map['rate']) {
+      const rateStr = map['rate'].toLowerCase();
+      if (/^\d+\/|bars?$/.test(rateStr)) {
+        const parsed = this.parseLFOSync(rateStr);
+        if (!parsed) return null;
+        sync = parsed;
+      } else {
+        const n = parseFloat(rateStr.replace(/hz$/, ''));
+        if (!Number.isNaN(n)) rateHz = n;
+      }
+    }
+    rateHz = Math.max(0.1, Math.min(20, rateHz));
+
+    const wave = ((map['wave'] || 'sine').toLowerCase() as LFOWave);
+
+    // Synced LFOs restart on the downbeat unless reset=off; free ones only with reset=bar
+    const resetOption = map['reset']?.toLowerCase();
+    const reset = resetOption === 'bar' || (resetOption !== 'off' && !!sync);
+
+    return {
+      rateHz,
+      ...(sync && { sync }),
+      wave: this.LFO_WAVES.includes(wave) ? wave : 'sine',
+      reset,
     };
   }
 
+  /**
+   * Parse MOD string like "src=env2 dst=pitch amt=0.5 decay=0.1". Env2 routes
+   * take `attack=`/`decay=`, LFO routes `rate=`/`wave=`/`reset=` as on `lfo`
+   * lines. Returns null for master, or an unknown source or destination.
+   */
+  private static parseModString(moduleName: string, modString: string): ModRoute | null {
+    if (moduleName.toLowerCase() === 'master') return null;
+
+    const pairs = Array.from(modString.matchAll(/(src|dst|amt|attack|decay|rate|wave|reset)\s*=\s*([^\s]+)/gi));
+    const map: Record<string, string> = {};
+    for (const [, key, value] of pairs) {
+      map[key.toLowerCase()] = value.toLowerCase();
+    }
+    const source = map['src'] as ModSource;
+    const destination = map['dst'] as ModDestination;
+    if (!this.MOD_SOURCES.includes(source) || !this.MOD_DESTINATIONS.includes(destination)) return null;
+
+    const options = this.parseNumericOptions(modString, ['amt', 'attack', 'decay']);
+    const value = (key: string, fallback: number, min: number, max: number) => this.clampOption(options, key, fallback, min, max);
+    const lfo = source === 'lfo' ? this.parseLFOShape(map) : undefined;
+    if (lfo === null) return null;
+
+    return {
+      source,
+      destination,
+      amount: value('amt', 0.5, -1, 1),
+      ...(source === 'env2' && { env2: { attack: value('attack', 0.005, 0, 2), decay: value('decay', 0.2, 0.01, 4) } }),
+      ...(lfo && { lfo }),
+    };
+  }
+
+  /**
+   * Parse CHAIN string like "distort > filter > comp > eq". Returns null for a
+   * stage the chain doesn't have (filter and duck are instrument-only) or one
+   * listed twice.
+   */
+  private static parseChainString(moduleName: string, chainString: string): ChainModule | null {
+    const name = moduleName.toLowerCase();
+    const stages = CHAIN_STAGES[getChainScope(name)];
+    const order = chainString.split('>').map(stage => stage.trim().toLowerCase()) as ChainStage[];
+    if (order.some((stage, i) => !stages.includes(stage) || order.indexOf(stage) !== i)) return null;
+    return { name, order };
+  }
+
+  /**
+   * Parse a tempo-synced LFO rate: "1/8", "1/8t" (triplet), "1/4." (dotted),
+   * "2bar" / "2bars". Cycles run from a 1/64 note to 64 bars; null otherwise.
+   */
+  private static parseLFOSync(rate: string): LFOSync | null {
+    const note = rate.match(/^(\d+)\/(\d+)([t.])?$/);
+    if (note) {
+      const [, numerator, denominator, modifier] = note;
+      const scale = modifier === 't' ? 2 / 3 : modifier === '.' ? 1.5 : 1;
+      const length = (parseInt(numerator, 10) / parseInt(denominator, 10)) * scale;
+      if (!Number.isFinite(length) || length < 1 / 64 || length > 16) return null;
+      return { label: rate, unit: 'note', length };
+    }
+    const bars = rate.match(/^(\d+(?:\.\d+)?)bars?$/);
+    if (bars) {
+      const length = parseFloat(bars[1]);
+      if (length < 0.25 || length > 64) return null;
+      return { label: rate, unit: 'bar', length };
+    }
+    return null;
+  }
+
+  /**
+   * Parse an automation path like "kick.filter.freq" or "hihat.pan".
+   * Lanes drive instrument chains only, so 'master' is rejected.
+   */
+  private static parseAutomationPath(path: string): Pick<AutomationLane, 'name' | 'target'> | null {
+    const [name, ...rest] = path.trim().toLowerCase().split('.');
+    const target = rest.join('.');
+    if (!/^\w+$/.test(name) || name === 'master' || !isAutomationTarget(target)) return null;
+    return { name, target };
+  }
+
+  /**
+   * Parse automation values: one number or '.' (hold) per step, '|' between bars.
+   * `invalid` lists tokens that are neither.
+   */
+  private static parseAutomationValues(valuesString: string): { values: (number | null)[]; invalid: string[] } {
+    const values: (number | null)[] = [];
+    const invalid: string[] = [];
+    for (const token of valuesString.split(/[\s|]+/).filter(Boolean)) {
+      if (token === '.') {
+        values.push(null);
+      } else if (/^-?\d+(?:\.\d+)?$/.test(token)) {
+        values.push(parseFloat(token));
+      } else {
+        invalid.push(token);
+      }
+    }
+    return { values: values.slice(0, this.MAX_STEPS), invalid };
+  }
+
   /**
    * Parse FILTER string like "type=lowpass freq=800 Q=1.0"
    */
@@ -657,6 +1425,223 @@ export class PatternParser {
     return { name: moduleName.toLowerCase(), rate, depth, mix };
   }
 
+  /**
+   * Numeric `key=value` options of a module line, by lower-cased key. A value
+   * that isn't a number is kept as NaN so clampOption falls back.
+   */
+  private static parseNumericOptions(optionString: string, keys: string[]): Record<string, number> {
+    const options: Record<string, number> = {};
+    for (const [, key, value] of optionString.matchAll(new RegExp(`\\b(${keys.join('|')})\\s*=\\s*(\\S+)`, 'gi'))) {
+      options[key.toLowerCase()] = parseFloat(value);
+    }
+    return options;
+  }
+
+  /** An option clamped to min..max, or the fallback when it is missing or not a number */
+  private static clampOption(options: Record<string, number>, key: string, fallback: number, min: number, max: number): number {
+    const parsed = options[key];
+    return parsed === undefined || Number.isNaN(parsed) ? fallback : Math.max(min, Math.min(max, parsed));
+  }
+
+  /**
+   * Parse SYNTH string like "osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6".
+   * Waves are sine, square, saw (or sawtooth) and triangle; returns null for any other wave.
+   */
+  private static parseSynthString(moduleName: string, synthString: string): SynthModule | null {
+    const waves: Record<string, string> = {};
+    for (const [, key, value] of synthString.matchAll(/\b(osc2?)\s*=\s*(\w+)/gi)) {
+      waves[key.toLowerCase()] = value.toLowerCase() === 'sawtooth' ? 'saw' : value.toLowerCase();
+    }
+    const isWave = (wave: string | undefined): wave is SynthWave => this.SYNTH_WAVES.includes(wave as SynthWave);
+    const osc = waves['osc'] ?? 'saw';
+    const osc2 = waves['osc2'];
+    if (!isWave(osc) || (osc2 !== undefined && !isWave(osc2))) return null;
+
+    const options = this.parseNumericOptions(synthString, ['detune', 'sub', 'cutoff', 'res', 'fenv', 'fattack', 'fdecay', 'glide']);
+    const value = (key: string, fallback: number, min: number, max: number) => this.clampOption(options, key, fallback, min, max);
+
+    return {
+      name: moduleName.toLowerCase(),
+      osc,
+      ...(osc2 && { osc2 }),
+      detune: value('detune', 0, -1200, 1200),
+      sub: value('sub', 0, 0, 1),
+      cutoff: value('cutoff', 2000, 20, 20000),
+      res: value('res', 1, 0.1, 30),
+      fenv: value('fenv', 0, 0, 1),
+      fattack: value('fattack', 0.005, 0.001, 2),
+      fdecay: value('fdecay', 0.3, 0.01, 5),
+      glide: value('glide', 0, 0, 1),
+    };
+  }
+
+  /**
+   * Parse FM string like "ratio=3.5 index=4 ienv=0.3". Missing or invalid values
+   * fall back to a plain 1:1 voice with index 2 held for the whole note.
+   */
+  private static parseFmString(moduleName: string, fmString: string): FmModule {
+    const options = this.parseNumericOptions(fmString, ['ratio', 'index', 'ienv']);
+    const value = (key: string, fallback: number, min: number, max: number) => this.clampOption(options, key, fallback, min, max);
+
+    return {
+      name: moduleName.toLowerCase(),
+      ratio: value('ratio', 1, 0.125, 16),
+      index: value('index', 2, 0, 20),
+      ienv: value('ienv', 0, 0, 5),
+    };
+  }
+
+  /**
+   * Parse DRUM string like "model=808 tune=-3 decay=0.9 click=0.4 tone=0.2". Without
+   * model= the instrument name picks it (drum kick:, drum hihat:); returns null when
+   * neither names a drum model.
+   */
+  private static parseDrumString(moduleName: string, drumString: string): DrumModule | null {
+    const name = moduleName.toLowerCase();
+    const modelMatch = drumString.match(/\bmodel\s*=\s*(\w+)/i);
+    const model = modelMatch ? modelMatch[1].toLowerCase() : BUILT_IN_DRUMS[name] ?? name;
+    if (!isDrumModel(model)) return null;
+
+    const options = this.parseNumericOptions(drumString, ['tune', 'decay', 'click', 'tone']);
+    const value = (key: string, fallback: number, min: number, max: number) => this.clampOption(options, key, fallback, min, max);
+
+    return {
+      name,
+      model,
+      tune: value('tune', 0, -24, 24),
+      decay: value('decay', 1, 0.1, 4),
+      click: value('click', 0, 0, 1),
+      tone: value('tone', 0, 0, 1),
+    };
+  }
+
+  /**
+   * Parse LOOP string like "user:amen bars=1 slices=16 order=0,1,4,3". The first
+   * token names the sample; returns null without one. Order entries are kept as
+   * written so validation can report slices that don't exist.
+   */
+  private static parseLoopString(moduleName: string, loopString: string): LoopModule | null {
+    const [sample] = loopString.trim().split(/\s+/);
+    if (!sample || sample.includes('=')) return null;
+
+    const options = this.parseNumericOptions(loopString, ['bars', 'slices']);
+    const value = (key: string, fallback: number, min: number, max: number) => this.clampOption(options, key, fallback, min, max);
+    const orderMatch = loopString.match(/\border\s*=\s*(\d+(?:,\d+)*)/i);
+
+    return {
+      name: moduleName.toLowerCase(),
+      sample: sample.toLowerCase(),
+      bars: value('bars', 1, 0.25, 16),
+      slices: Math.round(value('slices', 16, 1, 64)),
+      ...(orderMatch && { order: orderMatch[1].split(',').map(index => parseInt(index, 10)) }),
+    };
+  }
+
+  /**
+   * Parse CHOKE members like "hihat openhat". Returns null unless there are at
+   * least two distinct instrument names.
+   */
+  private static parseChokeString(groupName: string, membersString: string): ChokeModule | null {
+    const tokens = membersString.trim().split(/[\s,]+/).filter(Boolean);
+    if (tokens.some(token => !/^\w+$/.test(token))) return null;
+    const members = Array.from(new Set(tokens.map(token => token.toLowerCase())));
+    if (members.length < 2) return null;
+    return { name: groupName.toLowerCase(), members };
+  }
+
+  /**
+   * Parse DUCK string like "sidechain=kick depth=0.6 attack=0.005 release=0.2".
+   * Returns null without a sidechain source.
+   */
+  private static parseDuckString(moduleName: string, duckString: string): DuckModule | null {
+    const source = duckString.match(/sidechain\s*=\s*(\w+)/i);
+    if (!source) return null;
+    const options = this.parseNumericOptions(duckString, ['depth', 'attack', 'release']);
+
+    return {
+      name: moduleName.toLowerCase(),
+      sidechain: source[1].toLowerCase(),
+      depth: this.clampOption(options, 'depth', 0.6, 0, 1),
+      attack: this.clampOption(options, 'attack', 0.005, 0.001, 0.5),
+      release: this.clampOption(options, 'release', 0.2, 0.01, 2),
+    };
+  }
+
+  /**
+   * Parse BUS string like "reverb decay=3 mix=1": an effect name followed by that
+   * effect's params. A bus is a return, so mix defaults to fully wet.
+   */
+  private static parseBusString(busName: string, busString: string): BusModule | null {
+    const [effect, ...params] = busString.trim().split(/\s+/);
+    const name = busName.toLowerCase();
+    const paramString = params.join(' ');
+    const wet = <T extends { mix: number }>(settings: T | null): T | null =>
+      settings && (/\bmix\s*=/i.test(paramString) ? settings : { ...settings, mix: 1 });
+
+    switch (effect.toLowerCase()) {
+      case 'reverb': {
+        const settings = wet(this.parseReverbString(name, paramString));
+        return settings && { name, effect: 'reverb', settings };
+      }
+      case 'delay': {
+        const settings = wet(this.parseDelayString(name, paramString));
+        return settings && { name, effect: 'delay', settings };
+      }
+      case 'chorus': {
+        const settings = wet(this.parseChorusString(name, paramString));
+        return settings && { name, effect: 'chorus', settings };
+      }
+      case 'phaser': {
+        const settings = wet(this.parsePhaserString(name, paramString));
+        return settings && { name, effect: 'phaser', settings };
+      }
+      case 'distort': {
+        const settings = wet(this.parseDistortString(name, paramString));
+        return settings && { name, effect: 'distort', settings };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse SEND string like "verb=0.4 echo=0.2" into a level (clamped to 0..1) per bus.
+   * Returns null when anything besides bus=level pairs is on the line.
+   */
+  private static parseSendString(instrumentName: string, sendString: string): SendModule | null {
+    const pairs = Array.from(sendString.matchAll(/(\w+)\s*=\s*(\d*\.?\d+)/g));
+    if (pairs.length === 0 || sendString.replace(/(\w+)\s*=\s*(\d*\.?\d+)/g, '').trim() !== '') return null;
+    const levels: Record<string, number> = {};
+    for (const [, bus, level] of pairs) {
+      levels[bus.toLowerCase()] = Math.min(1, parseFloat(level));
+    }
+    return { name: instrumentName.toLowerCase(), levels };
+  }
+
+  /**
+   * Parse ARTICULATION string like "flam=0.03 roll=4"
+   * flam = grace hit lead in seconds, roll = hits per roll step
+   */
+  private static parseArticulationString(moduleName: string, articulationString: string): ArticulationModule | null {
+    const pairs = Array.from(articulationString.matchAll(/(flam|roll)\s*=\s*([\d.]+)/gi));
+    if (pairs.length === 0) return null;
+    const map: Record<string, number> = {};
+    for (const [, key, value] of pairs as any) {
+      map[key.toLowerCase()] = parseFloat(value);
+    }
+
+    let flam = map['flam'] ?? 0.03;
+    let roll = map['roll'] ?? 3;
+
+    if (Number.isNaN(flam)) flam = 0.03;
+    if (Number.isNaN(roll)) roll = 3;
+
+    flam = Math.max(0.005, Math.min(0.1, flam));
+    roll = Math.max(2, Math.min(8, Math.round(roll)));
+
+    return { name: moduleName.toLowerCase(), flam, roll };
+  }
+
   /**
    * Parse PHASER string like "rate=0.5 depth=0.6 stages=4 mix=0.3"
    */
@@ -708,9 +1693,7 @@ export class PatternParser {
     const midi = parseInt(trimmed, 10);
     if (Number.isNaN(midi)) return null;
     const clampedMidi = Math.max(0, Math.min(127, midi));
-    // Convert MIDI to Hz: f = 440 * 2^((n-69)/12)
-    const freq = 440 * Math.pow(2, (clampedMidi - 69) / 12);
-    return { name: moduleName.toLowerCase(), pitch: freq };
+    return { name: moduleName.toLowerCase(), pitch: this.midiToFrequency(clampedMidi) };
   }
 
   /**
@@ -757,9 +1740,10 @@ export class PatternParser {
   }
 
   /**
-   * Validate a pattern string with detailed error reporting
+   * Validate a pattern string with detailed error reporting.
+   * Pass the names in the user sample library to warn about `user:` samples it lacks.
    */
-  static validate(pattern: string): {
+  static validate(pattern: string, userSamples?: string[]): {
     isValid: boolean;
     errors: string[];
     warnings: string[];
@@ -784,18 +1768,97 @@ export class PatternParser {
     const lines = pattern.split('\n').map(line => line.trim()).filter(line => line.length > 0);
     let hasValidSequence = false;
     let hasTempo = false;
+    const declaredSections: string[] = [];
+    const sectionSeqCounts: Record<string, number> = {};
+    const songSections: string[] = [];
+    const automatedInstruments: string[] = [];
+    const modulatedInstruments: string[] = [];
+    const chainLines: ChainModule[] = [];
+    const sidechainSources: { name: string; sidechain: string }[] = [];
+    const chokeMembers: Record<string, string> = {}; // instrument -> choke group
+    const voiceLines: Record<string, string> = {}; // instrument -> 'synth', 'fm' or 'drum'
+    const declaredBuses: string[] = [];
+    const sendTargets: { instrument: string; bus: string }[] = [];
+    let currentSection: string | null = null;
+    const scale = this.findScale(lines);
 
     for (const line of lines) {
-      // Check tempo format
+      // Check SCALE format
+      if (line.startsWith('SCALE')) {
+        const scaleString = this.stripInlineComment(line.slice(5));
+        if (!this.parseScaleString(scaleString)) {
+          errors.push(`Invalid scale: ${line}. Use: SCALE A minor (modes: ${Object.keys(this.SCALE_INTERVALS).join(', ')}) with optional transpose=-24..24`);
+        }
+        continue;
+      }
+
+      // Check SECTION header format
+      if (line.startsWith('section ')) {
+        const sectionMatch = line.match(this.SECTION_HEADER);
+        if (!sectionMatch) {
+          errors.push(`Invalid section format: ${line}. Use: section name:`);
+        } else {
+          currentSection = sectionMatch[1].toLowerCase();
+          if (!declaredSections.includes(currentSection)) {
+            declaredSections.push(currentSection);
+            sectionSeqCounts[currentSection] = 0;
+          }
+        }
+        continue;
+      }
+
+      // Check SONG order format
+      if (/^song\s*:/.test(line)) {
+        const songString = this.stripInlineComment(line.replace(/^song\s*:/, ''));
+        const { entries, invalid } = this.parseSongString(songString);
+        invalid.forEach(token => {
+          errors.push(`Invalid song entry '${token}'. Use: song: intro verse*4 chorus*2`);
+        });
+        if (entries.length === 0 && invalid.length === 0) {
+          errors.push('Song order is empty. Use: song: intro verse*4 chorus*2');
+        }
+        entries.forEach(entry => songSections.push(entry.section));
+        continue;
+      }
+
+      // Check TIME signature
+      if (line.startsWith('TIME')) {
+        const timeMatch = line.replace(/\s+(\/\/|#).*$/, '').match(this.TIME_SIGNATURE);
+        const beats = timeMatch ? parseInt(timeMatch[1], 10) : 0;
+        if (!timeMatch || beats < 1 || beats > 32 || !this.TIME_UNITS.includes(parseInt(timeMatch[2], 10))) {
+          errors.push('Invalid time signature. Use: TIME 7/8 (1-32 beats over 2, 4, 8 or 16)');
+        }
+        continue;
+      }
+
+      // Check SEED format
+      if (line.startsWith('SEED')) {
+        if (!/^SEED\s+\d+\s*((\/\/|#).*)?$/.test(line)) {
+          errors.push('Invalid seed format. Use: SEED 42');
+        }
+        continue;
+      }
+
+      // Check tempo format (and ramp: TEMPO 120 -> 140 over 8 bars)
       if (line.startsWith('TEMPO ')) {
         hasTempo = true;
-        const tempoMatch = line.match(/TEMPO\s+(\d+)/);
+        const tempoMatch = line.match(/TEMPO\s+(\d+(?:\.\d+)?)/);
         if (!tempoMatch) {
           errors.push('Invalid tempo format. Use: TEMPO 120');
         } else {
-          const tempo = parseInt(tempoMatch[1], 10);
-          if (tempo < 60 || tempo > 200) {
-            errors.push('Tempo must be between 60 and 200 BPM');
+          const rest = this.stripInlineComment(line.slice((tempoMatch.index ?? 0) + tempoMatch[0].length)).trim();
+          const rampMatch = rest.startsWith('->') ? rest.match(this.TEMPO_RAMP) : null;
+          const tempos = [parseFloat(tempoMatch[1]), ...(rampMatch ? [parseFloat(rampMatch[1])] : [])];
+          if (tempos.some(t => t < this.MIN_TEMPO || t > this.MAX_TEMPO)) {
+            errors.push(`Tempo must be between ${this.MIN_TEMPO} and ${this.MAX_TEMPO} BPM`);
+          }
+          if (rest.startsWith('->') && !rampMatch) {
+            errors.push('Invalid tempo ramp. Use: TEMPO 120 -> 140 over 8 bars');
+          } else if (rampMatch) {
+            const bars = parseInt(rampMatch[2], 10);
+            if (bars < 1 || bars > 64) {
+              errors.push('Tempo ramp length must be between 1 and 64 bars');
+            }
           }
         }
         continue;
@@ -811,6 +1874,11 @@ export class PatternParser {
           const sample = this.parseSampleString(instrumentName, rest);
           if (!sample) {
             errors.push(`Invalid sample assignment for ${instrumentName}.`);
+          } else if ((sample.start ?? 0) >= (sample.end ?? 1)) {
+            errors.push(`Sample start must be before end for ${instrumentName}. Both are positions from 0 (beginning) to 1 (end)`);
+          } else if (userSamples && UserSampleService.isUserSampleRef(sample.sample) &&
+            !userSamples.includes(sample.sample.slice(UserSampleService.PREFIX.length))) {
+            warnings.push(`Sample ${sample.sample} for ${instrumentName} is not in your sample library. Import it in the Sample Library; until then ${instrumentName} plays its built-in sound.`);
           }
         }
         continue;
@@ -869,12 +1937,42 @@ export class PatternParser {
           const [, target, lfoString] = lfoMatch;
           const lfo = this.parseLFOString(target, lfoString);
           if (!lfo) {
-            errors.push(`Invalid lfo target or values for ${target.trim()}. Valid targets: amp, filter.freq, filter.q, pan (instrument only), delay.time, delay.feedback (master only). Use: lfo name.<target>: rate=1Hz depth=0.5 wave=sine`);
+            errors.push(`Invalid lfo target or values for ${target.trim()}. Instrument targets: ${this.LFO_TARGETS.instrument.join(', ')}. Master targets: ${this.LFO_TARGETS.master.join(', ')}. Use: lfo name.<target>: rate=1Hz (or 1/8, 2bar) depth=0.5 wave=sine`);
           }
         }
         continue;
       }
 
+      // Check MOD routes: mod lead: src=velocity dst=filter.freq amt=0.6
+      if (line.startsWith('mod ')) {
+        const modMatch = line.match(/mod\s+(\w+):\s*(.+)/);
+        if (!modMatch) {
+          errors.push(`Invalid mod format: ${line}. Use: mod lead: src=velocity dst=filter.freq amt=0.6`);
+        } else if (modMatch[1].toLowerCase() === 'master') {
+          errors.push('mod routes are per instrument. Use an lfo line to modulate master');
+        } else if (!this.parseModString(modMatch[1], this.stripInlineComment(modMatch[2]))) {
+          errors.push(`Invalid mod route for ${modMatch[1]}. Sources: ${this.MOD_SOURCES.join(', ')}. Destinations: ${this.MOD_DESTINATIONS.join(', ')}. Use: mod lead: src=velocity dst=filter.freq amt=0.6`);
+        } else {
+          modulatedInstruments.push(modMatch[1].toLowerCase());
+        }
+        continue;
+      }
+
+      // Check effect CHAIN order: chain kick: distort > filter > comp > eq
+      if (line.startsWith('chain ')) {
+        const chainMatch = line.match(/chain\s+(\w+):\s*(.+)/);
+        const chain = chainMatch && this.parseChainString(chainMatch[1], this.stripInlineComment(chainMatch[2]));
+        if (!chainMatch) {
+          errors.push(`Invalid chain format: ${line}. Use: chain kick: distort > filter > comp > eq`);
+        } else if (!chain) {
+          const scope = getChainScope(chainMatch[1]);
+          errors.push(`Invalid chain for ${chainMatch[1]}. ${scope === 'master' ? 'Master' : 'Instrument'} stages, each listed once: ${CHAIN_STAGES[scope].join(', ')}. Use: chain kick: distort > filter > comp > eq`);
+        } else {
+          chainLines.push(chain);
+        }
+        continue;
+      }
+
       // Check FILTER format
       if (line.startsWith('filter ')) {
         const filterMatch = line.match(/filter\s+(\w+):\s*(.+)/);
@@ -965,6 +2063,20 @@ export class PatternParser {
         continue;
       }
 
+      // Check ARTICULATION format
+      if (line.startsWith('articulation ')) {
+        const articulationMatch = line.match(/articulation\s+(\w+):\s*(.+)/);
+        if (!articulationMatch) {
+          errors.push(`Invalid articulation format: ${line}. Use: articulation name: flam=0.03 roll=3`);
+        } else {
+          const [, moduleName, articulationString] = articulationMatch;
+          if (!this.parseArticulationString(moduleName, articulationString)) {
+            errors.push(`Invalid articulation values for ${moduleName}. Use flam=<0.005..0.1 seconds> and/or roll=<2..8 hits>`);
+          }
+        }
+        continue;
+      }
+
       // Check CHORUS format
       if (line.startsWith('chorus ')) {
         const chorusMatch = line.match(/chorus\s+(\w+):\s*(.+)/);
@@ -1025,6 +2137,209 @@ export class PatternParser {
         continue;
       }
 
+      // Check SYNTH format
+      if (line.startsWith('synth ')) {
+        const synthMatch = line.match(/synth\s+(\w+):\s*(.+)/);
+        if (!synthMatch) {
+          errors.push(`Invalid synth format: ${line}. Use: synth lead: osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6`);
+        } else {
+          const [, moduleName, synthString] = synthMatch;
+          if (!this.parseSynthString(moduleName, this.stripInlineComment(synthString))) {
+            errors.push(`Invalid synth waveform for ${moduleName}. Use osc=/osc2= with ${this.SYNTH_WAVES.join(', ')}`);
+          }
+          this.checkVoiceLine(moduleName, 'synth', voiceLines, errors);
+        }
+        continue;
+      }
+
+      // Check FM format
+      if (line.startsWith('fm ')) {
+        const fmMatch = line.match(/fm\s+(\w+):\s*(.+)/);
+        if (!fmMatch) {
+          errors.push(`Invalid fm format: ${line}. Use: fm bell: ratio=3.5 index=4 ienv=0.3`);
+        } else {
+          this.checkVoiceLine(fmMatch[1], 'fm', voiceLines, errors);
+        }
+        continue;
+      }
+
+      // Check DRUM format
+      if (line.startsWith('drum ')) {
+        const drumMatch = line.match(/drum\s+(\w+):\s*(.*)/);
+        if (!drumMatch) {
+          errors.push(`Invalid drum format: ${line}. Use: drum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2`);
+        } else {
+          const [, moduleName, drumString] = drumMatch;
+          if (!this.parseDrumString(moduleName, this.stripInlineComment(drumString))) {
+            errors.push(`Unknown drum model for ${moduleName}. Use model= with ${DRUM_MODELS.join(', ')}`);
+          }
+          this.checkVoiceLine(moduleName, 'drum', voiceLines, errors);
+        }
+        continue;
+      }
+
+      // Check LOOP format
+      if (line.startsWith('loop ')) {
+        const loopMatch = line.match(/loop\s+(\w+):\s*(.+)/);
+        const loopModule = loopMatch && this.parseLoopString(loopMatch[1], this.stripInlineComment(loopMatch[2]));
+        if (!loopMatch || !loopModule) {
+          errors.push(`Invalid loop format: ${line}. Use: loop break: user:amen bars=1 slices=16`);
+        } else {
+          const outOfRange = loopModule.order?.filter(index => index >= loopModule.slices) ?? [];
+          if (outOfRange.length > 0) {
+            errors.push(`Slice ${outOfRange.join(', ')} out of range for ${loopModule.name}. Use order= with slices 0 to ${loopModule.slices - 1}`);
+          }
+          if (userSamples && UserSampleService.isUserSampleRef(loopModule.sample) &&
+            !userSamples.includes(loopModule.sample.slice(UserSampleService.PREFIX.length))) {
+            warnings.push(`Sample ${loopModule.sample} for ${loopModule.name} is not in your sample library. Import it in the Sample Library; until then ${loopModule.name} plays its built-in sound.`);
+          }
+          this.checkVoiceLine(loopModule.name, 'loop', voiceLines, errors);
+        }
+        continue;
+      }
+
+      // Check CHOKE format
+      if (line.startsWith('choke ')) {
+        const chokeMatch = line.match(/choke\s+(\w+):\s*(.+)/);
+        const chokeModule = chokeMatch && this.parseChokeString(chokeMatch[1], this.stripInlineComment(chokeMatch[2]));
+        if (!chokeModule) {
+          errors.push(`Invalid choke group: ${line}. List at least two instruments, e.g. choke hats: hihat openhat`);
+        } else {
+          chokeModule.members.forEach(member => {
+            const existing = chokeMembers[member];
+            if (existing && existing !== chokeModule.name) {
+              errors.push(`${member} is in choke groups ${existing} and ${chokeModule.name}. An instrument can only be in one`);
+            } else {
+              chokeMembers[member] = chokeModule.name;
+            }
+          });
+        }
+        continue;
+      }
+
+      // Check DUCK format
+      if (line.startsWith('duck ')) {
+        const duckMatch = line.match(/duck\s+(\w+):\s*(.+)/);
+        if (!duckMatch) {
+          errors.push(`Invalid duck format: ${line}. Use: duck bass: sidechain=kick depth=0.6 attack=0.005 release=0.2`);
+        } else {
+          const [, moduleName, duckString] = duckMatch;
+          const duckModule = this.parseDuckString(moduleName, this.stripInlineComment(duckString));
+          if (!duckModule) {
+            errors.push(`Duck ${moduleName} needs a sidechain source, e.g. duck ${moduleName}: sidechain=kick`);
+          } else if (duckModule.name === 'master') {
+            errors.push('Duck works on instruments, not master. Duck each instrument that should pump');
+          } else if (duckModule.sidechain === duckModule.name) {
+            errors.push(`${moduleName} cannot duck itself. Use another instrument as the sidechain`);
+          } else {
+            sidechainSources.push(duckModule);
+          }
+        }
+        continue;
+      }
+
+      // Check BUS format
+      if (line.startsWith('bus ')) {
+        const busMatch = line.match(/bus\s+(\w+):\s*(.+)/);
+        if (!busMatch) {
+          errors.push(`Invalid bus format: ${line}. Use: bus verb: reverb decay=3 mix=1`);
+        } else {
+          const [, busName, busString] = busMatch;
+          const effect = busString.trim().split(/\s+/)[0];
+          if (busName.toLowerCase() === 'master') {
+            errors.push("'master' is not a bus name. Use master effect lines like: reverb master: mix=0.3");
+          } else if (!this.parseBusString(busName, this.stripInlineComment(busString))) {
+            errors.push(`Unknown bus effect '${effect}' for ${busName}. Use: ${this.BUS_EFFECTS.join(', ')}`);
+          } else {
+            declaredBuses.push(busName.toLowerCase());
+          }
+        }
+        continue;
+      }
+
+      // Check SEND format
+      if (line.startsWith('send ')) {
+        const sendMatch = line.match(/send\s+(\w+):\s*(.+)/);
+        const sendString = sendMatch ? this.stripInlineComment(sendMatch[2]) : '';
+        const sendModule = sendMatch && this.parseSendString(sendMatch[1], sendString);
+        if (!sendModule) {
+          errors.push(`Invalid send format: ${line}. Use: send snare: verb=0.4 echo=0.2`);
+        } else {
+          Array.from(sendString.matchAll(/(\w+)\s*=\s*(\d*\.?\d+)/g)).forEach(([, bus, level]) => {
+            if (parseFloat(level) > 1) {
+              warnings.push(`Send level ${level} from ${sendModule.name} to ${bus} is above 1. It will be clamped.`);
+            }
+          });
+          Object.keys(sendModule.levels).forEach(bus => sendTargets.push({ instrument: sendModule.name, bus }));
+        }
+        continue;
+      }
+
+      // Check automation lanes: auto kick.filter.freq: 200 400 . 1200
+      if (line.startsWith('auto ')) {
+        const autoMatch = line.match(/auto\s+([^:]+):\s*(.+)/);
+        if (!autoMatch) {
+          errors.push(`Invalid auto format: ${line}. Use: auto name.<target>: 200 400 . 1200`);
+        } else {
+          const [, path, autoBody] = autoMatch;
+          const lanePath = this.parseAutomationPath(path);
+          const { body: valuesString, resolution } = splitStepResolution(this.stripInlineComment(autoBody));
+          const { values, invalid } = this.parseAutomationValues(valuesString);
+          if (!lanePath) {
+            errors.push(`Invalid auto target ${path.trim()}. Valid targets: ${Object.keys(AUTOMATION_RANGES).join(', ')} (instrument only)`);
+          } else if (resolution !== null && !isStepResolution(resolution)) {
+            errors.push(this.invalidResolutionError(path.trim(), resolution));
+          } else if (invalid.length > 0) {
+            errors.push(`Invalid values in auto ${path.trim()}: ${invalid.join(', ')}. Use numbers or '.' to hold the previous value`);
+          } else if (values.length === 0) {
+            errors.push(`No steps in auto ${path.trim()}`);
+          } else if (!this.hasUnevenBars(path.trim(), this.barLengths(valuesString, bar => bar.trim().split(/\s+/).filter(Boolean).length), errors)) {
+            automatedInstruments.push(lanePath.name);
+            const { min, max } = AUTOMATION_RANGES[lanePath.target];
+            if (values.some(value => value !== null && (value < min || value > max))) {
+              warnings.push(`auto ${path.trim()} has values outside ${min} to ${max}. They will be clamped.`);
+            }
+          }
+        }
+        continue;
+      }
+
+      // Check melodic sequence format
+      if (line.startsWith('notes ')) {
+        const notesMatch = line.match(/notes\s+(\w+):\s*(.+)/);
+        if (!notesMatch) {
+          errors.push(`Invalid notes format: ${line}. Use: notes name: C2 . E2 G2`);
+          invalidInstruments.push('unknown');
+        } else {
+          const [, instrumentName, notesBody] = notesMatch;
+          const { body: notesString, resolution } = splitStepResolution(this.stripInlineComment(notesBody));
+          const { steps, invalid } = this.parseNotesString(notesString, scale);
+          if (resolution !== null && !isStepResolution(resolution)) {
+            errors.push(this.invalidResolutionError(instrumentName, resolution));
+            invalidInstruments.push(instrumentName);
+          } else if (!scale && invalid.some(token => this.SCALE_DEGREE.test(token))) {
+            errors.push(`Scale degrees in ${instrumentName} need a key. Add a line like: SCALE A minor`);
+            invalidInstruments.push(instrumentName);
+          } else if (invalid.length > 0) {
+            errors.push(`Invalid notes in ${instrumentName}: ${invalid.join(', ')}. Use note names like C2, F#3, Bb1, scale degrees like 1 b3 5+ (with SCALE) or '.' for a rest`);
+            invalidInstruments.push(instrumentName);
+          } else if (steps.length === 0) {
+            errors.push(`No steps in notes for ${instrumentName}`);
+            invalidInstruments.push(instrumentName);
+          } else if (this.hasOrphanTie(notesString.replace(/\|/g, ' ').trim().split(/\s+/))) {
+            errors.push(this.orphanTieError(instrumentName));
+            invalidInstruments.push(instrumentName);
+          } else if (this.hasUnevenBars(instrumentName, this.barLengths(this.stripInlineComment(notesString), bar => bar.trim().split(/\s+/).filter(Boolean).length), errors)) {
+            invalidInstruments.push(instrumentName);
+          } else {
+            hasValidSequence = true;
+            validInstruments.push(instrumentName);
+            if (currentSection) sectionSeqCounts[currentSection]++;
+          }
+        }
+        continue;
+      }
+
       // Check sequence format
       if (line.startsWith('seq ')) {
         const seqMatch = line.match(/seq\s+(\w+):\s*(.+)/);
@@ -1032,21 +2347,46 @@ export class PatternParser {
           errors.push(`Invalid sequence format: ${line}`);
           invalidInstruments.push('unknown');
         } else {
-          const [, instrumentName, patternString] = seqMatch;
-          if (!/^[xXo.\s]+$/.test(patternString)) {
-            errors.push(`Invalid pattern characters in ${instrumentName}. Use only 'x', 'X', 'o', and '.'`);
+          const [, instrumentName, seqBody] = seqMatch;
+          const { body: rawPattern, resolution } = splitStepResolution(this.stripInlineComment(seqBody));
+          const generated = isGeneratorExpression(rawPattern) ? expandGenerator(rawPattern) : null;
+          const patternString = generated?.pattern ?? rawPattern;
+          const patternBody = patternString.replace(/[\s|]/g, '');
+          const stepConditions = Array.from(patternBody.matchAll(this.STEP_TOKEN))
+            .map(m => m[5])
+            .filter(Boolean);
+          if (resolution !== null && !isStepResolution(resolution)) {
+            errors.push(this.invalidResolutionError(instrumentName, resolution));
+            invalidInstruments.push(instrumentName);
+          } else if (generated && !generated.pattern) {
+            errors.push(`Invalid generator in ${instrumentName}. ${generated.error}`);
+            invalidInstruments.push(instrumentName);
+          } else if (!/^[xXofr.|\s\d{}<>?@:-]+$/.test(patternString.replace(/@!?(fill|pre)?/g, '@'))) {
+            errors.push(`Invalid pattern characters in ${instrumentName}. Use only 'x', 'X', 'o', 'f', 'r', '.', '-' (tie) and '|' between bars`);
+            invalidInstruments.push(instrumentName);
+          } else if (!/^(?:[xXo](?:(?:[2-8]|\{[2-8]\})[<>]?)?(?:\?\d*|@!?(?:fill|pre|\d*(?::\d*)?))?|[fr](?:\?\d*|@!?(?:fill|pre|\d*(?::\d*)?))?|[.-])+$/.test(patternBody)) {
+            errors.push(`Invalid step in ${instrumentName}. Ratchets follow x, X or o with 2-8 hits (x3, X{4}, optional < or > ramp); conditions follow a hit (x?50, x@1:4, x@fill)`);
+            invalidInstruments.push(instrumentName);
+          } else if (stepConditions.some(condition => !this.parseTrigCondition(condition))) {
+            errors.push(`Invalid trig condition in ${instrumentName}. Use ?1-100 (probability), @1:4 (loop ratio up to 8), @fill, @!fill, @pre or @!pre`);
+            invalidInstruments.push(instrumentName);
+          } else if (this.hasOrphanTie(Array.from(patternBody.matchAll(this.STEP_TOKEN)).map(m => m[1]))) {
+            errors.push(this.orphanTieError(instrumentName));
+            invalidInstruments.push(instrumentName);
+          } else if (this.hasUnevenBars(instrumentName, this.barLengths(patternString, bar => Array.from(bar.matchAll(this.STEP_TOKEN)).length), errors)) {
             invalidInstruments.push(instrumentName);
           } else {
             hasValidSequence = true;
             validInstruments.push(instrumentName);
+            if (currentSection) sectionSeqCounts[currentSection]++;
 
             // Add warnings for potentially problematic patterns
-            const stepCount = patternString.replace(/\s/g, '').length;
+            const stepCount = Array.from(patternString.matchAll(this.STEP_TOKEN)).length;
             if (stepCount < 4) {
               warnings.push(`${instrumentName} has very few steps (${stepCount}). Consider adding more steps.`);
             }
-            if (stepCount > 32) {
-              warnings.push(`${instrumentName} has many steps (${stepCount}). This may be hard to follow.`);
+            if (stepCount > this.MAX_STEPS) {
+              warnings.push(`${instrumentName} has too many steps (${stepCount}). Only the first ${this.MAX_STEPS} will play.`);
             }
           }
         }
@@ -1057,6 +2397,59 @@ export class PatternParser {
       warnings.push('No tempo specified. Using default tempo of 120 BPM.');
     }
 
+    // Song order may reference sections declared later in the document
+    Array.from(new Set(songSections)).forEach(section => {
+      if (!declaredSections.includes(section)) {
+        errors.push(`Song references unknown section '${section}'. Declare it with: section ${section}:`);
+      }
+    });
+    declaredSections.forEach(section => {
+      if (sectionSeqCounts[section] === 0) {
+        warnings.push(`Section ${section} has no sequences.`);
+      }
+    });
+
+    // Lanes may come before the sequences they automate
+    const sequenced = validInstruments.map(name => name.toLowerCase());
+    Array.from(new Set(automatedInstruments)).forEach(name => {
+      if (!sequenced.includes(name)) {
+        warnings.push(`Automation for ${name} has no matching seq or notes line.`);
+      }
+    });
+
+    Array.from(new Set(modulatedInstruments)).forEach(name => {
+      if (!sequenced.includes(name)) {
+        warnings.push(`Mod routes for ${name} have no matching seq or notes line.`);
+      }
+    });
+
+    // A listed stage with no module line of its own has nothing to do
+    chainLines.forEach(({ name, order }) => {
+      const missing = order.filter(stage => !lines.some(line => new RegExp(`^${stage}\\s+${name}\\s*:`, 'i').test(line)));
+      if (missing.length > 0) {
+        warnings.push(`Chain for ${name} lists ${missing.join(', ')} with no matching ${missing.length > 1 ? 'lines' : 'line'}.`);
+      }
+    });
+
+    Object.keys(chokeMembers).forEach(member => {
+      if (!sequenced.includes(member)) {
+        warnings.push(`Choke group ${chokeMembers[member]} lists ${member}, which has no seq or notes line.`);
+      }
+    });
+
+    sidechainSources.forEach(({ name, sidechain }) => {
+      if (!sequenced.includes(sidechain)) {
+        warnings.push(`Sidechain source ${sidechain} for ${name} has no matching seq or notes line.`);
+      }
+    });
+
+    // Buses may be declared after the sends that feed them
+    sendTargets.forEach(({ instrument, bus }) => {
+      if (!declaredBuses.includes(bus)) {
+        errors.push(`Send from ${instrument} to unknown bus '${bus}'. Declare it with: bus ${bus}: reverb mix=1`);
+      }
+    });
+
     if (!hasValidSequence) {
       errors.push('At least one valid sequence is required');
     }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { euclid, every, expandGenerator, isGeneratorExpression } from './rhythmGenerators';
+import { PatternParser } from './patternParser';
+
+describe('rhythmGenerators', () => {
+  describe('euclid', () => {
+    it('should spread hits evenly starting on the downbeat', () => {
+      expect(euclid(3, 8)).toBe('x..x..x.');
+      expect(euclid(4, 16)).toBe('x...x...x...x...');
+      expect(euclid(5, 16).split('').filter(c => c === 'x')).toHaveLength(5);
+    });
+
+    it('should rotate left, wrapping negative rotations', () => {
+      expect(euclid(3, 8, 1)).toBe('..x..x.x');
+      expect(euclid(3, 8, -1)).toBe('.x..x..x');
+      expect(euclid(3, 8, 8)).toBe(euclid(3, 8));
+    });
+
+    it('should handle empty and full patterns', () => {
+      expect(euclid(0, 4)).toBe('....');
+      expect(euclid(4, 4)).toBe('xxxx');
+    });
+  });
+
+  describe('every', () => {
+    it('should place a hit every n steps from the offset', () => {
+      expect(every(3, 16)).toBe('x..x..x..x..x..x');
+      expect(every(4, 8, 2)).toBe('..x...x.');
+    });
+  });
+
+  describe('expandGenerator', () => {
+    it('should accept named and positional arguments', () => {
+      expect(expandGenerator('euclid(3,8,rot=1)').pattern).toBe(euclid(3, 8, 1));
+      expect(expandGenerator('euclid(3, 8, 1)').pattern).toBe(euclid(3, 8, 1));
+      expect(expandGenerator('every(4,8,off=2)').pattern).toBe('..x...x.');
+    });
+
+    it('should report invalid generators', () => {
+      expect(expandGenerator('euclid(9,8)').error).toContain('hits <= steps');
+      expect(expandGenerator('every(0,16)').pattern).toBeNull();
+      expect(expandGenerator('euclid(5)').error).toContain('needs hits and steps');
+      expect(expandGenerator('shuffle(4,16)').error).toContain("Unknown generator 'shuffle'");
+      expect(expandGenerator('euclid(a,16)').error).toContain("Invalid argument 'a'");
+    });
+
+    it('should only treat calls as generators', () => {
+      expect(isGeneratorExpression('euclid(5,16)')).toBe(true);
+      expect(isGeneratorExpression('x...x...')).toBe(false);
+    });
+  });
+
+  describe('PatternParser integration', () => {
+    it('should expand generators into the same steps as literal strings', () => {
+      const generated = PatternParser.parse('seq perc: euclid(5,16,rot=2)');
+      const literal = PatternParser.parse(`seq perc: ${euclid(5, 16, 2)}`);
+      expect(generated.instruments.perc.steps).toEqual(literal.instruments.perc.steps);
+      expect(generated.instruments.perc.velocities).toEqual(literal.instruments.perc.velocities);
+      expect(generated.totalSteps).toBe(16);
+    });
+
+    it('should validate generator lines', () => {
+      expect(PatternParser.validate('TEMPO 120\nseq hat: every(3,16)').isValid).toBe(true);
+      const result = PatternParser.validate('TEMPO 120\nseq hat: euclid(20,16)');
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(e => e.startsWith('Invalid generator in hat'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Rhythm generators — expand `seq` generator expressions into literal step
+ * strings so the parser, the editor hint and the grid all see ordinary steps.
+ *
+ *   euclid(5,16)        5 hits spread as evenly as possible over 16 steps
+ *   euclid(5,16,rot=2)  same, rotated left by 2 steps (rot may be negative)
+ *   every(3,16)         a hit on every 3rd step over 16 steps
+ *   every(4,16,off=2)   same, starting on step 3 (offset 2)
+ */
+
+export interface GeneratorResult {
+  pattern: string | null; // expanded step string like "x..x..x."; null when invalid
+  error?: string;
+}
+
+const GENERATOR_CALL = /^(\w+)\s*\((.*)\)$/;
+const MAX_GENERATOR_STEPS = 128;
+
+/** Whether a seq body is a generator call rather than literal steps */
+export function isGeneratorExpression(body: string): boolean {
+  return GENERATOR_CALL.test(body.trim());
+}
+
+/** Euclidean rhythm: `hits` onsets distributed over `steps`, first step is a hit */
+export function euclid(hits: number, steps: number, rotation = 0): string {
+  const pattern = Array.from({ length: steps }, (_, i) => ((i * hits) % steps) < hits ? 'x' : '.');
+  return rotate(pattern, rotation).join('');
+}
+
+/** A hit every `interval` steps, starting at `offset` */
+export function every(interval: number, steps: number, offset = 0): string {
+  return Array.from({ length: steps }, (_, i) =>
+    i >= offset && (i - offset) % interval === 0 ? 'x' : '.'
+  ).join('');
+}
+
+function rotate<T>(items: T[], amount: number): T[] {
+  if (items.length === 0) return items;
+  const shift = ((amount % items.length) + items.length) % items.length;
+  return [...items.slice(shift), ...items.slice(0, shift)];
+}
+
+/**
+ * Expand a generator expression like "euclid(5,16,rot=2)".
+ * Positional arguments come first; named ones (rot=, off=) may follow.
+ */
+export function expandGenerator(expression: string): GeneratorResult {
+  const call = expression.trim().match(GENERATOR_CALL);
+  if (!call) return { pattern: null, error: `Not a generator: ${expression}` };
+
+  const [, name, argString] = call;
+  const positional: number[] = [];
+  const named: Record<string, number> = {};
+  for (const arg of argString.split(',').map(a => a.trim()).filter(Boolean)) {
+    const kv = arg.match(/^(\w+)\s*=\s*(-?\d+)$/);
+    if (kv) {
+      named[kv[1].toLowerCase()] = parseInt(kv[2], 10);
+    } else if (/^-?\d+$/.test(arg)) {
+      positional.push(parseInt(arg, 10));
+    } else {
+      return { pattern: null, error: `Invalid argument '${arg}' in ${name}()` };
+    }
+  }
+
+  switch (name.toLowerCase()) {
+    case 'euclid': {
+      const [hits, steps, rot] = positional;
+      if (hits === undefined || steps === undefined) {
+        return { pattern: null, error: 'euclid needs hits and steps, e.g. euclid(5,16)' };
+      }
+      if (steps < 1 || steps > MAX_GENERATOR_STEPS || hits < 0 || hits > steps) {
+        return { pattern: null, error: `euclid(${hits},${steps}) needs 0 <= hits <= steps <= ${MAX_GENERATOR_STEPS}` };
+      }
+      return { pattern: euclid(hits, steps, named['rot'] ?? rot ?? 0) };
+    }
+    case 'every': {
+      const [interval, steps, off] = positional;
+      if (interval === undefined || steps === undefined) {
+        return { pattern: null, error: 'every needs an interval and steps, e.g. every(3,16)' };
+      }
+      const offset = named['off'] ?? off ?? 0;
+      if (interval < 1 || steps < 1 || steps > MAX_GENERATOR_STEPS || offset < 0 || offset >= steps) {
+        return { pattern: null, error: `every(${interval},${steps}) needs interval >= 1, 1 <= steps <= ${MAX_GENERATOR_STEPS} and 0 <= off < steps` };
+      }
+      return { pattern: every(interval, steps, offset) };
+    }
+    default:
+      return { pattern: null, error: `Unknown generator '${name}'. Use euclid(hits,steps,rot=N) or every(interval,steps,off=N)` };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Song arrangement helpers — flatten a parsed `song:` order into a timeline
+ * of section passes and map a position on that timeline back to a section.
+ *
+ * Positions are expressed in sequencer steps from the start of the song, so
+ * the same helpers serve the audio engine (scheduling) and the editor
+ * (playhead tracking).
+ */
+
+import { ParsedPattern } from '../types/app';
+
+/** One pass through a section, placed on the song timeline */
+export interface SongTimelineEntry {
+  section: string;
+  startStep: number; // first step of this pass, from the start of the song
+  steps: number;     // length of the pass (the section's totalSteps)
+}
+
+/** Whether the pattern uses song arrangement mode */
+export function hasSongArrangement(pattern: ParsedPattern | null | undefined): boolean {
+  return !!pattern?.song?.length && !!pattern.sections;
+}
+
+/**
+ * Expand the song order (with repeats) into back-to-back section passes.
+ * Returns an empty array when the pattern has no arrangement.
+ */
+export function getSongTimeline(pattern: ParsedPattern): SongTimelineEntry[] {
+  if (!hasSongArrangement(pattern)) return [];
+
+  const timeline: SongTimelineEntry[] = [];
+  let startStep = 0;
+  for (const entry of pattern.song!) {
+    const section = pattern.sections![entry.section];
+    if (!section) continue;
+    for (let i = 0; i < entry.repeats; i++) {
+      timeline.push({ section: entry.section, startStep, steps: section.totalSteps });
+      startStep += section.totalSteps;
+    }
+  }
+  return timeline;
+}
+
+/** Total length of one playthrough in steps (the loop length for plain patterns) */
+export function getSongLength(pattern: ParsedPattern): number {
+  const timeline = getSongTimeline(pattern);
+  if (timeline.length === 0) return pattern.totalSteps;
+  const last = timeline[timeline.length - 1];
+  return last.startStep + last.steps;
+}
+
+/**
+ * Map an absolute step count (e.g. derived from transport time) to the active
+ * section and the step within that section. Wraps around the song length.
+ * `section` is null for patterns without an arrangement.
+ */
+export function locateSongStep(pattern: ParsedPattern, step: number): { section: string | null; step: number } {
+  const timeline = getSongTimeline(pattern);
+  if (timeline.length === 0) {
+    const len = pattern.totalSteps || 16;
+    return { section: null, step: ((step % len) + len) % len };
+  }
+
+  const songLength = getSongLength(pattern);
+  const wrapped = ((step % songLength) + songLength) % songLength;
+  const entry = timeline.find(e => wrapped >= e.startStep && wrapped < e.startStep + e.steps)
+    ?? timeline[timeline.length - 1];
+  return { section: entry.section, step: wrapped - entry.startStep };
+}
@@ -0,0 +1,70 @@
+/**
+ * Step timing — converts between a line's own steps (8n, 16n, 16t, 32n) and
+ * the shared 16th-note grid that `totalSteps`, loop lengths and the playhead
+ * are measured in. TEMPO always counts quarter notes, whatever the TIME.
+ */
+
+import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
+import { ParsedPattern, StepResolution, TimeSignature } from '../types/app';
+
+/** 16th notes covered by one step at each resolution */
+export const STEP_RESOLUTIONS: Record<StepResolution, number> = {
+  '8n': 2,
+  '16n': 1,
+  '16t': 2 / 3,
+  '32n': 0.5,
+};
+
+export const DEFAULT_RESOLUTION: StepResolution = '16n';
+
+type Instrument = ParsedPattern['instruments'][string];
+
+export function isStepResolution(value: string): value is StepResolution {
+  return value in STEP_RESOLUTIONS;
+}
+
+/**
+ * Split a trailing `res=<resolution>` option off a seq/notes body.
+ * `resolution` is the raw value (possibly invalid), or null when absent.
+ */
+export function splitStepResolution(body: string): { body: string; resolution: string | null } {
+  const m = body.match(/(?:^|\s+)res=(\S*)\s*$/);
+  if (!m) return { body, resolution: null };
+  return { body: body.slice(0, m.index), resolution: m[1] };
+}
+
+/** 16th notes per step for an instrument (1 for plain 16n lines) */
+export function getStepSpan(instrument: Pick<Instrument, 'resolution'>): number {
+  return STEP_RESOLUTIONS[instrument.resolution ?? DEFAULT_RESOLUTION];
+}
+
+/** Length of one 16th note in seconds */
+export function getSixteenthDuration(bpm: number): number {
+  return 60 / bpm / AUDIO_CONSTANTS.STEPS_PER_BEAT;
+}
+
+/** Length of one bar in 16th notes (16 in 4/4, 14 in 7/8) */
+export function getBarSteps(timeSignature?: TimeSignature): number {
+  if (!timeSignature) return 16;
+  return Math.max(1, Math.round((timeSignature.beats * 16) / timeSignature.unit));
+}
+
+/** How many 16th notes an instrument's steps cover, rounded up to a whole 16th */
+export function getInstrumentSpan(instrument: Instrument): number {
+  return Math.ceil(instrument.steps.length * getStepSpan(instrument) - 1e-9);
+}
+
+/** Index of the instrument step playing at a position on the 16th-note grid */
+export function toInstrumentStep(sixteenths: number, instrument: Pick<Instrument, 'resolution'>): number {
+  return Math.floor(sixteenths / getStepSpan(instrument) + 1e-9);
+}
+
+/** Loop length in 16th notes: the longest instrument, at least one bar */
+export function getLoopSteps(instruments: Instrument[], timeSignature?: TimeSignature): number {
+  return Math.max(getBarSteps(timeSignature), ...instruments.map(getInstrumentSpan));
+}
+
+/** 16th notes per beat of the meter (4 in 4/4, 2 in 7/8) */
+export function getBeatSteps(timeSignature?: TimeSignature): number {
+  return timeSignature ? Math.max(1, 16 / timeSignature.unit) : AUDIO_CONSTANTS.STEPS_PER_BEAT;
+}
@@ -0,0 +1,30 @@
+/**
+ * Tempo ramps — `TEMPO 120 -> 140 over 8 bars` glides the transport from the
+ * start tempo to the target, then holds the target for the rest of playback.
+ *
+ * Tone ramps BPM exponentially in time, which makes the tempo change linearly
+ * per beat. That gives closed forms for the tempo at any beat and for how many
+ * seconds a ramp over a number of beats takes.
+ */
+
+import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
+import { TempoRamp, TimeSignature } from '../types/app';
+import { getBarSteps } from './stepTiming';
+
+/** Length of a ramp in quarter-note beats */
+export function getRampBeats(ramp: TempoRamp, timeSignature?: TimeSignature): number {
+  return (ramp.bars * getBarSteps(timeSignature)) / AUDIO_CONSTANTS.STEPS_PER_BEAT;
+}
+
+/** Tempo after `beats` quarter notes of playback */
+export function getTempoAtBeat(startTempo: number, ramp: TempoRamp | undefined, rampBeats: number, beats: number): number {
+  if (!ramp || rampBeats <= 0) return startTempo;
+  const progress = Math.min(1, Math.max(0, beats / rampBeats));
+  return startTempo + (ramp.to - startTempo) * progress;
+}
+
+/** Seconds an exponential ramp from `from` to `to` BPM takes to cover `beats` */
+export function getRampDuration(from: number, to: number, beats: number): number {
+  if (Math.abs(to - from) < 1e-6) return (60 * beats) / from;
+  return (60 * beats * Math.log(to / from)) / (to - from);
+}
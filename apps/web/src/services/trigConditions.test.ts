@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { seededRandom, evaluateTrigCondition, TrigContext } from './trigConditions';
+
+const ctx = (overrides: Partial<TrigContext> = {}): TrigContext => ({
+  seed: 1,
+  key: 'snare:4',
+  iteration: 0,
+  fill: false,
+  previous: null,
+  ...overrides,
+});
+
+describe('Trig Conditions', () => {
+  describe('seededRandom', () => {
+    it('should be deterministic for the same seed and key', () => {
+      expect(seededRandom(42, 'kick:0#3')).toBe(seededRandom(42, 'kick:0#3'));
+    });
+
+    it('should vary with seed and key', () => {
+      const base = seededRandom(42, 'kick:0#3');
+      expect(seededRandom(43, 'kick:0#3')).not.toBe(base);
+      expect(seededRandom(42, 'kick:0#4')).not.toBe(base);
+    });
+
+    it('should stay within [0, 1) and spread evenly', () => {
+      const values = Array.from({ length: 1000 }, (_, i) => seededRandom(7, `hat:${i}`));
+      values.forEach(v => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThan(1);
+      });
+      const below = values.filter(v => v < 0.5).length;
+      expect(below).toBeGreaterThan(400);
+      expect(below).toBeLessThan(600);
+    });
+  });
+
+  describe('evaluateTrigCondition', () => {
+    it('should fire probability trigs at roughly their percentage', () => {
+      const condition = { type: 'probability' as const, percent: 25 };
+      const fired = Array.from({ length: 400 }, (_, iteration) =>
+        evaluateTrigCondition(condition, ctx({ iteration }))
+      ).filter(Boolean).length;
+      expect(fired).toBeGreaterThan(60);
+      expect(fired).toBeLessThan(140);
+    });
+
+    it('should always fire at 100% probability', () => {
+      const condition = { type: 'probability' as const, percent: 100 };
+      for (let iteration = 0; iteration < 20; iteration++) {
+        expect(evaluateTrigCondition(condition, ctx({ iteration }))).toBe(true);
+      }
+    });
+
+    it('should fire ratio trigs on the matching loop only', () => {
+      const condition = { type: 'ratio' as const, hit: 2, every: 4 };
+      const fired = [0, 1, 2, 3, 4, 5].map(iteration => evaluateTrigCondition(condition, ctx({ iteration })));
+      expect(fired).toEqual([false, true, false, false, false, true]);
+    });
+
+    it('should follow fill mode', () => {
+      expect(evaluateTrigCondition({ type: 'fill', negate: false }, ctx({ fill: true }))).toBe(true);
+      expect(evaluateTrigCondition({ type: 'fill', negate: false }, ctx({ fill: false }))).toBe(false);
+      expect(evaluateTrigCondition({ type: 'fill', negate: true }, ctx({ fill: false }))).toBe(true);
+    });
+
+    it('should follow the previous conditional trig', () => {
+      expect(evaluateTrigCondition({ type: 'pre', negate: false }, ctx({ previous: true }))).toBe(true);
+      expect(evaluateTrigCondition({ type: 'pre', negate: false }, ctx({ previous: null }))).toBe(false);
+      expect(evaluateTrigCondition({ type: 'pre', negate: true }, ctx({ previous: false }))).toBe(true);
+    });
+  });
+});
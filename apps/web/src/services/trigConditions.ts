@@ -0,0 +1,53 @@
+/**
+ * Trig conditions — decide whether a conditional step fires on a given loop.
+ *
+ * Decisions are pure functions of the pattern seed, the trig and the loop
+ * iteration, so the same pattern always plays the same way from the start
+ * of the transport (live playback and offline renders agree).
+ */
+
+import { TrigCondition } from '../types/app';
+
+/** Seed used when a pattern has no SEED line */
+export const DEFAULT_TRIG_SEED = 1;
+
+/** Context needed to evaluate a condition on one loop iteration */
+export interface TrigContext {
+  seed: number;
+  key: string;           // identifies the trig, e.g. 'snare:4'
+  iteration: number;     // 0-based loop pass for this trig
+  fill: boolean;         // fill mode held by the player
+  previous: boolean | null; // result of the last conditional trig on the same track
+}
+
+/**
+ * Deterministic pseudo-random number in [0, 1) for a seed and key.
+ * FNV-1a hashes the key into the seed, mulberry32 scrambles the result.
+ */
+export function seededRandom(seed: number, key: string): number {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  let t = (h + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Whether a conditional trig fires on this iteration */
+export function evaluateTrigCondition(condition: TrigCondition, ctx: TrigContext): boolean {
+  switch (condition.type) {
+    case 'probability':
+      return seededRandom(ctx.seed, `${ctx.key}#${ctx.iteration}`) * 100 < condition.percent;
+    case 'ratio':
+      // 1:4 = first of every four loops, 3:4 = third of every four
+      return ctx.iteration % condition.every === condition.hit - 1;
+    case 'fill':
+      return ctx.fill !== condition.negate;
+    case 'pre':
+      // No earlier conditional trig counts as "did not fire"
+      return (ctx.previous ?? false) !== condition.negate;
+  }
+}
@@ -1,7 +1,16 @@
 // Unified Audio Engine - Real-time everything, no pre-calculation
-import { ParsedPattern, UnifiedAudioState, LFOModule, FilterModule, DelayModule, ReverbModule, PanModule, DistortModule, ChorusModule, PhaserModule } from '../types/app';
+import { ParsedPattern, UnifiedAudioState, AutomationLane, LFOWave, BusEffect, BusModule, DuckModule, SendModule, SynthModule, SynthWave, FmModule, DrumModule, LoopModule, EnvelopeModule, LFOModule, FilterModule, DelayModule, ReverbModule, PanModule, DistortModule, ChorusModule, ChainStage, ModModule, ModRoute, PhaserModule, StepArticulation, StepRatchet, TrigCondition } from '../types/app';
 import { PatternParser } from './patternParser';
+import { getAutomationBaseValue } from './automation';
 import { applyGrooveTemplate, getGrooveTemplate } from './groovePresets';
+import { getSongTimeline, getSongLength } from './songArrangement';
+import { evaluateTrigCondition, DEFAULT_TRIG_SEED } from './trigConditions';
+import { getBarSteps, getSixteenthDuration, getStepSpan } from './stepTiming';
+import { getRampBeats, getRampDuration, getTempoAtBeat } from './tempoRamp';
+import { BUILT_IN_DRUMS, defaultDrum, drumKey, renderDrum } from './drumSynth';
+import { getChainOrder } from './effectChain';
+import { UserSample, UserSampleService } from './userSampleService';
+import { AUDIO_CONSTANTS } from '@ascii-sequencer/shared';
 import * as Tone from 'tone';
 
 export interface ParameterUpdate {
@@ -12,6 +21,59 @@ export interface ParameterUpdate {
 
 type ParameterType = 'tempo' | 'sequence' | 'effects' | 'eq' | 'volume';
 
+// The nodes of one reverb, delay, chorus, phaser or distort, as built for a bus or an insert
+interface EffectNodes {
+  nodes: AudioNode[];          // every node to disconnect when the effect is retired
+  convolver?: ConvolverNode;   // reverb
+  delay?: DelayNode;           // delay and chorus
+  feedback?: GainNode;         // delay
+  lfo?: OscillatorNode;        // chorus and phaser
+  lfoGain?: GainNode;
+  shaper?: WaveShaperNode;     // distort
+}
+
+// A send/return bus: input -> dry + effect -> wet -> output -> master chain input
+interface EffectBus extends EffectNodes {
+  module: BusModule;
+  input: GainNode;
+  dry: GainNode;
+  wet: GainNode;
+  output: GainNode;            // fades in on creation and out on removal
+}
+
+// An effect module line on an instrument chain: the stage before feeds dry and the effect, merge feeds the stage after
+interface EffectInsert extends EffectNodes {
+  module: BusModule;           // the module line in bus form, so buses and inserts share their effect code
+  dry: GainNode;
+  wet: GainNode;
+  stage: StageNodes;
+  quietAt?: number;            // while pooled: when its tail has died away and it can be reused
+}
+
+interface InstrumentChain {
+  preGain: GainNode;
+  filter: BiquadFilterNode;
+  comp: DynamicsCompressorNode;
+  duck: GainNode; // sidechain ducking, unity unless a duck module dips it
+  eqLow: BiquadFilterNode;
+  eqMid: BiquadFilterNode;
+  eqHigh: BiquadFilterNode;
+  pan: StereoPannerNode;
+  input: AudioNode; // alias to preGain
+  output: AudioNode; // pan
+  stages: StageNodes[]; // between preGain and pan, in order
+  inserts: Partial<Record<BusEffect, EffectInsert>>;
+}
+
+// What an LFO runs on: `lfo` lines, and `mod` routes from an LFO
+type LFOSettings = Pick<LFOModule, 'key' | 'rateHz' | 'sync' | 'depth' | 'wave' | 'reset'>;
+
+// One depth gain per modulated param, from an LFO or a `mod` route's constant source
+type ModOutput = { depthGain: GainNode; param: AudioParam };
+
+// A stage of an instrument or the master chain: what the stage before feeds, and what feeds the stage after
+type StageNodes = { inputs: AudioNode[]; output: AudioNode };
+
 /**
  * Unified Audio Engine - Real-time everything, no pre-calculation
  *
@@ -23,6 +85,29 @@ type ParameterType = 'tempo' | 'sequence' | 'effects' | 'eq' | 'volume';
  */
 export class UnifiedAudioEngine {
   private static instance: UnifiedAudioEngine | null = null;
+  // Samples are assumed to be recorded at C4 unless a `note` module sets their root
+  private static readonly SAMPLE_ROOT_PITCH = 261.63;
+  // Seconds over which bus returns and send levels glide when a pattern reloads
+  private static readonly BUS_FADE = 0.03;
+  // Random LFO waves: levels per noise loop, and samples per level (one LFO cycle)
+  private static readonly RANDOM_LFO_SEGMENTS = 64;
+  private static readonly RANDOM_LFO_SEGMENT_LENGTH = 128;
+  // Voice level follows velocity unless an instrument's `mod` lines route velocity to amp themselves
+  private static readonly DEFAULT_MOD_ROUTE: ModRoute = { source: 'velocity', destination: 'amp', amount: 1 };
+  // Cents a `mod` route onto pitch moves at amt=1 (two octaves)
+  private static readonly MOD_PITCH_RANGE = 2400;
+  // Effect module lines that become inserts on an instrument chain
+  private static readonly INSERT_EFFECTS: BusEffect[] = ['distort', 'chorus', 'phaser', 'delay', 'reverb'];
+  // Idle inserts kept for reuse; past this they are disconnected
+  private static readonly MAX_POOLED_INSERTS = 16;
+  private static readonly MAX_IMPULSE_RESPONSES = 8;
+  // Anti-click fade when a choke group cuts a ringing voice
+  private static readonly CHOKE_FADE = 0.01;
+  // Amp envelope for `synth` voices without an `env` line
+  private static readonly DEFAULT_SYNTH_ENV: EnvelopeModule = { name: 'synth', attack: 0.005, decay: 0.2, sustain: 0.6, release: 0.15 };
+  private static readonly SYNTH_OSC_TYPES: Record<SynthWave, OscillatorType> = {
+    sine: 'sine', square: 'square', saw: 'sawtooth', triangle: 'triangle'
+  };
 
   // Core state
   private isInitialized = false;
@@ -41,8 +126,9 @@ export class UnifiedAudioEngine {
   private masterEQHigh: BiquadFilterNode | null = null;
   private masterComp: DynamicsCompressorNode | null = null;
   private masterPreGain: GainNode | null = null; // for master amp
-  private masterChainInput: AudioNode | null = null; // first node in chain
-  // Master effects: Distortion, Delay, Reverb (inserted between Comp and PreGain)
+  private masterChainInput: AudioNode | null = null; // fixed input; the stages after it follow `chain master:`
+  private masterStages: StageNodes[] = []; // between masterChainInput and masterPreGain, in order
+  // Master effects: Distortion, Delay, Reverb (between Comp and PreGain by default)
   private masterDistortion: WaveShaperNode | null = null;
   private masterDistortDryGain: GainNode | null = null;
   private masterDistortWetGain: GainNode | null = null;
@@ -57,7 +143,7 @@ export class UnifiedAudioEngine {
   private masterReverbWetGain: GainNode | null = null;
   private masterReverbMerge: GainNode | null = null;
 
-  // Dynamic master effects (chorus, distortion, phaser — created on first use)
+  // Master chorus and phaser, created on first use and only patched in while their module is present
   private chorusDelay: DelayNode | null = null;
   private chorusLFO: OscillatorNode | null = null;
   private chorusLFOGain: GainNode | null = null;
@@ -65,11 +151,6 @@ export class UnifiedAudioEngine {
   private chorusWetGain: GainNode | null = null;
   private chorusMerge: GainNode | null = null;
 
-  private distortionNode: WaveShaperNode | null = null;
-  private distortionDryGain: GainNode | null = null;
-  private distortionWetGain: GainNode | null = null;
-  private distortionMerge: GainNode | null = null;
-
   private phaserFilters: BiquadFilterNode[] | null = null;
   private phaserLFO: OscillatorNode | null = null;
   private phaserLFOGain: GainNode | null = null;
@@ -79,31 +160,47 @@ export class UnifiedAudioEngine {
 
   // Current velocity for the hit being scheduled (set by Tone.Part callback)
   private currentVelocity: number = 0.7;
+  // Per-hit pitch in Hz from a `notes` line; null falls back to the note module
+  private currentPitch: number | null = null;
+  // Length in seconds of a tied hit (x---); null for ordinary one-shot hits
+  private currentDuration: number | null = null;
+  // Slice of a `loop` line to play; null for instruments without one
+  private currentSlice: number | null = null;
+  // Where the hit sits in its line, 0 (first step) to 1 (last), for `mod` routes from `step`
+  private currentPosition = 0;
+
+  // Trig conditions: fill mode, loop pass per trig, decisions per pass, last result per track
+  private fillMode = false;
+  private trigIterations: Map<string, number> = new Map();
+  private trigDecisions: Map<string, boolean> = new Map();
+  private lastTrigResults: Map<string, boolean> = new Map();
+
+  // Automation lanes scheduled by the current part, by 'name.target' key
+  private automatedLanes: Map<string, AutomationLane> = new Map();
+
+  // Send/return buses by name, and the send gains feeding them by 'instrument>bus'
+  private buses: Map<string, EffectBus> = new Map();
+  private busSends: Map<string, GainNode> = new Map();
 
   // Per-instrument chains
-  private instrumentChains: Map<string, {
-    preGain: GainNode;
-    filter: BiquadFilterNode;
-    comp: DynamicsCompressorNode;
-    eqLow: BiquadFilterNode;
-    eqMid: BiquadFilterNode;
-    eqHigh: BiquadFilterNode;
-    pan: StereoPannerNode;
-    input: AudioNode; // alias to preGain
-    output: AudioNode; // pan
-  }> = new Map();
+  private instrumentChains: Map<string, InstrumentChain> = new Map();
+  // Inserts whose module line went away, kept for the next instrument that needs the same effect
+  private insertPool: EffectInsert[] = [];
+  // Impulse responses by 'decay:predelay', shared by every reverb of that size
+  private impulseResponses: Map<string, AudioBuffer> = new Map();
 
-  // LFOs
+  // LFOs by key; the source is replaced whenever the LFO's phase resets
   private lfoMap: Map<string, {
-    osc: OscillatorNode;
-    depthGain: GainNode;
-    targetParam: AudioParam;
-    scope: 'master' | 'instrument';
-    name: string;
-    wave: OscillatorType;
-    rateHz: number;
-    depth: number;
+    source: OscillatorNode | AudioBufferSourceNode;
+    outputs: ModOutput[];
+    cfg: LFOSettings;
   }> = new Map();
+  // Per-hit `mod` routes onto chain params, by 'name.modN': each hit sets or shapes the source's offset
+  private modSources: Map<string, { source: ConstantSourceNode; outputs: ModOutput[] }> = new Map();
+  // Cents from LFO `mod` routes onto pitch, by instrument; every voice's detune follows it
+  private pitchBuses: Map<string, ConstantSourceNode> = new Map();
+  // Looping noise for the random waves, made on first use
+  private randomLFOBuffers: Map<LFOWave, AudioBuffer> = new Map();
 
   // No longer using custom timing system, powered by Tone.Transport
 
@@ -114,6 +211,10 @@ export class UnifiedAudioEngine {
   // Track sources scheduled to start in the future so we can cancel them on live edits
   private pendingSources: Array<{ startTime: number; instrument: string; stop: () => void }>
     = [];
+  // Pitch of the last note of each `synth` voice, where glides start from
+  private lastSynthPitch: Map<string, number> = new Map();
+  // Voices of choke group members that may still be ringing, dropped when their sources end
+  private chokeVoices: Array<{ group: string; instrument: string; startTime: number; choke: (at: number) => void }> = [];
 
   // Real-time parameter system
   private parameterHistory: ParameterUpdate[] = [];
@@ -126,6 +227,9 @@ export class UnifiedAudioEngine {
 
   // Samples
   private sampleBuffers: Map<string, AudioBuffer> = new Map(); // sampleName -> buffer
+  private drumBuffers: Map<string, { key: string; buffer: AudioBuffer }> = new Map(); // instrument -> rendered `drum` voice
+  private missingSamples: Set<string> = new Set(); // sample names already reported as not loaded
+  private reversedBuffers: WeakMap<AudioBuffer, AudioBuffer> = new WeakMap(); // buffer -> reversed copy for `reverse` samples
 
   private constructor() {
     // Constructor is minimal - initialization happens in initialize()
@@ -169,8 +273,9 @@ export class UnifiedAudioEngine {
       this.masterGain.connect(this.volumeGain);
       this.volumeGain.connect(this.audioContext.destination);
 
-      // Preload a minimal sample bank (procedurally generated for MVP)
+      // Preload a minimal sample bank (procedurally generated for MVP), then the user's imports
       await this.preloadDefaultSamples();
+      await this.loadUserSamples();
 
       this.isInitialized = true;
       console.log('Unified Audio Engine initialized successfully');
@@ -194,15 +299,17 @@ export class UnifiedAudioEngine {
       // Apply real-time updates
       this.updateParameter('sequence', newPattern);
 
-      // Apply tempo changes in real-time
-      if (newPattern.tempo && (!previousPattern || previousPattern.tempo !== newPattern.tempo)) {
+      // Apply tempo changes (start tempo or ramp) in real-time
+      const tempoChanged = !previousPattern || previousPattern.tempo !== newPattern.tempo ||
+        JSON.stringify(previousPattern.tempoRamp) !== JSON.stringify(newPattern.tempoRamp);
+      if (newPattern.tempo && tempoChanged) {
         this.updateParameter('tempo', newPattern.tempo);
       }
 
       // Apply EQ changes in real-time (always pass object to allow reset)
       this.updateParameter('eq', newPattern.eqModules || {});
 
-      // Apply effects changes in real-time (amp/comp/lfo/filter/delay/reverb/pan/distort)
+      // Apply effects changes in real-time (amp/comp/lfo/filter/delay/reverb/pan/distort/chorus/phaser/chain)
       this.updateParameter('effects', {
         amp: newPattern.ampModules || {},
         comp: newPattern.compModules || {},
@@ -212,8 +319,17 @@ export class UnifiedAudioEngine {
         reverb: newPattern.reverbModules || {},
         pan: newPattern.panModules || {},
         distort: newPattern.distortModules || {},
+        chorus: newPattern.chorusModules || {},
+        phaser: newPattern.phaserModules || {},
+        duck: newPattern.duckModules || {},
+        bus: newPattern.busModules || {},
+        send: newPattern.sendModules || {},
+        mod: newPattern.modModules || {},
+        chain: newPattern.chainModules || {},
       });
 
+      this.renderDrumVoices(newPattern.drumModules || {});
+
       console.log(`[Unified] Pattern loaded: ${Object.keys(this.currentPattern.instruments).length} instruments, ${this.currentPattern.tempo} BPM`);
     } catch (error) {
       console.error('Failed to load pattern:', error);
@@ -253,25 +369,28 @@ export class UnifiedAudioEngine {
       this.clearScheduledEvents();
       this.stopAllAudio();
 
+      // Conditional trigs restart from the first loop unless resuming
+      if (!this.isPaused) {
+        this.resetTrigState();
+      }
+
       // Restore master gain (stopAllAudio sets it to 0 for instant mute)
       if (this.masterGain) {
         this.masterGain.gain.setValueAtTime(1, this.audioContext.currentTime);
       }
 
-      // Sync Tone Transport BPM
-      Tone.Transport.bpm.value = this.currentPattern.tempo;
+      // Sync Tone Transport BPM; a TEMPO ramp restarts from the top or resumes where it paused
+      if (!this.isPaused) {
+        Tone.Transport.position = 0;
+      }
+      this.scheduleTempoRamp();
 
       // Ensure Tone.Part is up to date
       this.rebuildTonePart();
 
       // Start transport
-      if (this.isPaused) {
-        Tone.Transport.start();
-        this.isPaused = false;
-      } else {
-        Tone.Transport.position = 0;
-        Tone.Transport.start();
-      }
+      Tone.Transport.start();
+      this.isPaused = false;
 
       this.isPlaying = true;
     } catch (error) {
@@ -287,6 +406,8 @@ export class UnifiedAudioEngine {
     if (!this.isPlaying) return;
 
     Tone.Transport.pause();
+    // Freeze any running tempo ramp until playback resumes
+    this.scheduleTempoRamp(true);
 
     // Stop all active non-Tone audio immediately
     this.stopAllAudio();
@@ -310,6 +431,10 @@ export class UnifiedAudioEngine {
     // Clear scheduling
     this.scheduledEvents.forEach(id => window.clearTimeout(id));
     this.scheduledEvents = [];
+    this.resetTrigState();
+    this.restoreAutomatedParams(false);
+    const now = (Tone.context.rawContext as AudioContext).currentTime;
+    this.instrumentChains.forEach(chain => this.resetDuck(chain.duck, now));
 
     // Restore master gain
     if (this.masterGain && this.audioContext) {
@@ -351,10 +476,6 @@ export class UnifiedAudioEngine {
         break;
       case 'effects':
         this.applyEffectsUpdate(value);
-        // Apply master effects that are handled by dedicated functions
-        if (value.chorus && value.chorus['master']) this.applyChorusEffect(value.chorus['master']);
-        if (value.phaser && value.phaser['master']) this.applyPhaserEffect(value.phaser['master']);
-        if (value.distort && value.distort['master']) this.applyDistortionEffect(value.distort['master']);
         break;
       case 'eq':
         this.applyEQUpdate(value);
@@ -413,12 +534,6 @@ export class UnifiedAudioEngine {
     if (masterAmp && this.masterPreGain) {
       const linear = this.stepsToLinear(masterAmp.gain);
       this.masterPreGain.gain.setValueAtTime(linear, now);
-      // Update any LFO targeting master.amp scaling
-      const lfoKey = 'master.amp';
-      const lfo = this.lfoMap.get(lfoKey);
-      if (lfo) {
-        lfo.depthGain.gain.setValueAtTime(linear * (lfo.depth || 0), now);
-      }
     } else if (this.masterPreGain) {
       // Reset to neutral if no master amp provided
       this.masterPreGain.gain.setValueAtTime(1, now);
@@ -453,20 +568,32 @@ export class UnifiedAudioEngine {
     const reverbMods = effectsConfig?.reverb || {};
     const panMods = effectsConfig?.pan || {};
     const distortMods = effectsConfig?.distort || {};
+    const duckMods = effectsConfig?.duck || {};
+    const modMods = (effectsConfig?.mod || {}) as Record<string, ModModule>;
 
-    // Determine which instruments need chains (if any of amp/comp/eq/lfo/filter/pan present)
+    // Determine which instruments need chains (if any of amp/comp/eq/lfo/filter/pan or an effect insert present)
     if (this.currentPattern) {
       const names = new Set<string>(
         Object.keys(this.currentPattern?.instruments || {})
       );
+      // Instruments that only play inside a song section
+      Object.values(this.currentPattern.sections || {}).forEach(section => {
+        Object.keys(section.instruments).forEach(n => names.add(n.toLowerCase()));
+      });
       Object.keys(this.currentPattern?.eqModules || {}).forEach(n => names.add(n.toLowerCase()));
       Object.keys(ampMods).forEach((n: string) => names.add(n.toLowerCase()));
       Object.keys(compMods).forEach((n: string) => names.add(n.toLowerCase()));
       Object.keys(filterMods).forEach((n: string) => names.add(n.toLowerCase()));
       Object.keys(panMods).forEach((n: string) => names.add(n.toLowerCase()));
+      UnifiedAudioEngine.INSERT_EFFECTS.forEach(effect => {
+        Object.keys(effectsConfig?.[effect] || {}).forEach(n => names.add(n.toLowerCase()));
+      });
+      Object.keys(duckMods).forEach((n: string) => names.add(n));
+      Object.keys(modMods).forEach(n => names.add(n));
       Object.values(lfoMods as Record<string, LFOModule>).forEach(l => {
         if (l.scope === 'instrument') names.add(l.name.toLowerCase());
       });
+      Object.values(this.currentPattern.automation || {}).forEach(lane => names.add(lane.name));
       names.forEach(n => {
         if (n !== 'master') this.ensureInstrumentChain(n);
       });
@@ -479,12 +606,6 @@ export class UnifiedAudioEngine {
       if (chain) {
         const linear = this.stepsToLinear(cfg.gain);
         chain.preGain.gain.setValueAtTime(linear, now);
-        // Update LFO depth scaling if present
-        const lfoKey = `${lower}.amp`;
-        const lfo = this.lfoMap.get(lfoKey);
-        if (lfo) {
-          lfo.depthGain.gain.setValueAtTime(linear * (lfo.depth || 0), now);
-        }
       }
     });
 
@@ -501,18 +622,9 @@ export class UnifiedAudioEngine {
       }
     });
 
-    // Apply/Update LFOs targeting amp
-    const lfoEntries = Object.values(lfoMods as Record<string, LFOModule>);
-    lfoEntries.forEach((lfoCfg) => {
-      this.updateLFO(lfoCfg);
-    });
-
-    // Dispose any LFOs no longer present
-    const newLfoKeys = new Set(lfoEntries.map(l => l.key.toLowerCase()));
-    Array.from(this.lfoMap.keys()).forEach((key) => {
-      if (!newLfoKeys.has(key)) {
-        this.disposeLFO(key);
-      }
+    // Release chains whose duck module was removed back to unity
+    this.instrumentChains.forEach((chain, name) => {
+      if (!duckMods[name]) this.resetDuck(chain.duck, now);
     });
 
     // Apply per-instrument FILTER
@@ -536,98 +648,10 @@ export class UnifiedAudioEngine {
         chain.pan.pan.setValueAtTime(cfg.value, now);
       }
     });
-    Object.entries(this.currentPattern!.instruments).forEach(([name]) => {
-      const lowerName = name.toLowerCase();
-      const cfg = this.currentPattern?.delayModules?.[lowerName];
-      const chain = this.instrumentChains.get(lowerName);
-
-      if (chain && cfg) {
-        if (!(chain as any).__delay) {
-          const dly = ac.createDelay(2.0);
-          const fb = ac.createGain();
-          const dryG = ac.createGain();
-          const wetG = ac.createGain();
-          const merge = ac.createGain();
-
-          // Chain: preGain -> filter -> comp -> eqLow -> eqMid -> eqHigh -> [Delay] -> pan
-          try { chain.eqHigh.disconnect(chain.pan); } catch {}
-          chain.eqHigh.connect(dryG);
-          chain.eqHigh.connect(dly);
-          dly.connect(fb);
-          fb.connect(dly);
-          dly.connect(wetG);
-          dryG.connect(merge);
-          wetG.connect(merge);
-          merge.connect(chain.pan);
-
-          (chain as any).__delay = dly;
-          (chain as any).__delayFeedback = fb;
-          (chain as any).__delayDry = dryG;
-          (chain as any).__delayWet = wetG;
-        }
-        (chain as any).__delay.delayTime.setValueAtTime(cfg.time, now);
-        (chain as any).__delayFeedback.gain.setValueAtTime(cfg.feedback, now);
-        (chain as any).__delayDry.gain.setValueAtTime(1 - cfg.mix, now);
-        (chain as any).__delayWet.gain.setValueAtTime(cfg.mix, now);
-      }
-    });
-
-    Object.entries(this.currentPattern!.instruments).forEach(([name]) => {
-      const lowerName = name.toLowerCase();
-      const cfg = this.currentPattern?.reverbModules?.[lowerName];
-      const chain = this.instrumentChains.get(lowerName);
-
-      if (chain && cfg) {
-        if (!(chain as any).__reverb) {
-          const rev = ac.createConvolver();
-          rev.buffer = this.generateImpulseResponse(cfg.decay, cfg.predelay);
-          const dryG = ac.createGain();
-          const wetG = ac.createGain();
-          const merge = ac.createGain();
-
-
-          // Route from pan (or delay merge) through reverb
-
-          try {
-            // Only if no delay is present, disconnect pan
-            if (!(chain as any).__delay) {
-              chain.pan.disconnect();
-            }
-          } catch {}
-
-          if (!(chain as any).__delay) {
-            chain.pan.connect(dryG);
-            chain.pan.connect(rev);
-          } else {
-            // Re-use existing routing; add reverb after delay merge in parallel
-            // This is simpler: just apply reverb as a wet signal from the instrument output
-            chain.pan.connect(rev);
-            chain.pan.connect(dryG); // dry already connected via delay
-          }
-
-          rev.connect(wetG);
-          dryG.connect(merge);
-          wetG.connect(merge);
-
-          if (!(chain as any).__delay) {
-            this.ensureMasterChain();
-            if (this.masterChainInput) {
-              merge.connect(this.masterChainInput);
-            } else if (this.masterGain) {
-              merge.connect(this.masterGain!);
-            }
-          }
-
-          (chain as any).__reverb = rev;
-          (chain as any).__reverbDry = dryG;
-          (chain as any).__reverbWet = wetG;
-        } else {
-          // Update existing reverb
-          (chain as any).__reverb.buffer = this.generateImpulseResponse(cfg.decay, cfg.predelay);
-        }
-        (chain as any).__reverbDry.gain.setValueAtTime(1 - cfg.mix, now);
-        (chain as any).__reverbWet.gain.setValueAtTime(cfg.mix, now);
-      }
+    // Per-instrument effect inserts, patched in by the chain order
+    this.instrumentChains.forEach((chain, name) => {
+      this.updateInserts(chain, name, effectsConfig, now);
+      this.applyInstrumentChainOrder(name, effectsConfig);
     });
 
     // Apply master DISTORTION
@@ -660,7 +684,7 @@ export class UnifiedAudioEngine {
     // Apply master REVERB
     const masterReverb = reverbMods['master'] as ReverbModule | undefined;
     if (masterReverb && this.masterReverb && this.masterReverbDryGain && this.masterReverbWetGain) {
-      this.masterReverb.buffer = this.generateImpulseResponse(masterReverb.decay, masterReverb.predelay);
+      this.masterReverb.buffer = this.getImpulseResponse(masterReverb.decay, masterReverb.predelay);
       this.masterReverbDryGain.gain.setValueAtTime(1 - masterReverb.mix, now);
       this.masterReverbWetGain.gain.setValueAtTime(masterReverb.mix, now);
     } else if (this.masterReverbDryGain && this.masterReverbWetGain) {
@@ -682,52 +706,233 @@ export class UnifiedAudioEngine {
     if (masterPhaser) {
       this.applyPhaserEffect(masterPhaser);
     }
+
+    this.applyMasterChainOrder(effectsConfig);
+
+    // Send/return buses
+    this.applyBuses(effectsConfig.bus || {}, effectsConfig.send || {});
+
+    // Apply/Update LFOs and mod routes last, so every effect they can target exists and depths scale from its new settings
+    const lfoEntries = Object.values(lfoMods as Record<string, LFOModule>);
+    lfoEntries.forEach((lfoCfg) => {
+      this.updateLFO(lfoCfg, this.resolveLFOTarget(lfoCfg));
+    });
+    const modLFOs = this.getModLFOs(modMods);
+    modLFOs.forEach(({ settings, targets }) => {
+      this.updateLFO(settings, targets);
+    });
+    this.updateModSources(modMods);
+
+    // Dispose any LFOs no longer present
+    const newLfoKeys = new Set([...lfoEntries, ...modLFOs.map(m => m.settings)].map(l => l.key.toLowerCase()));
+    Array.from(this.lfoMap.keys()).forEach((key) => {
+      if (!newLfoKeys.has(key)) {
+        this.disposeLFO(key);
+      }
+    });
+  }
+
+  /**
+   * Keep an instrument's inserts in line with its effect module lines: update
+   * the ones it has, take the rest from the pool or build them, and return
+   * those whose line is gone (or whose phaser needs other stages) to the pool.
+   */
+  private updateInserts(chain: InstrumentChain, name: string, effectsConfig: any, now: number): void {
+    UnifiedAudioEngine.INSERT_EFFECTS.forEach(effect => {
+      const settings = effectsConfig?.[effect]?.[name];
+      const module = settings ? ({ name, effect, settings } as BusModule) : null;
+      let insert = chain.inserts[effect];
+      if (insert && (!module || this.getInsertStructure(module) !== this.getInsertStructure(insert.module))) {
+        this.releaseInsert(insert, now);
+        delete chain.inserts[effect];
+        insert = undefined;
+      }
+      if (!module) return;
+
+      insert = insert ?? this.acquireInsert(module, now);
+      chain.inserts[effect] = insert;
+      this.updateEffectNodes(insert, module, insert.module, now);
+      insert.module = module;
+      insert.dry.gain.setValueAtTime(1 - module.settings.mix, now);
+      insert.wet.gain.setValueAtTime(module.settings.mix, now);
+    });
+  }
+
+  /**
+   * An insert for a module line: a pooled one built for the same effect whose
+   * tail has rung out, else new nodes. A pooled chorus or phaser gets a fresh LFO.
+   */
+  private acquireInsert(module: BusModule, now: number): EffectInsert {
+    const ac = Tone.context.rawContext as AudioContext;
+    const structure = this.getInsertStructure(module);
+    const pooled = this.insertPool.findIndex(insert =>
+      this.getInsertStructure(insert.module) === structure && insert.quietAt! <= now);
+    if (pooled >= 0) {
+      const insert = this.insertPool.splice(pooled, 1)[0];
+      delete insert.quietAt;
+      if (insert.lfoGain) {
+        const lfo = ac.createOscillator();
+        lfo.type = 'sine';
+        lfo.connect(insert.lfoGain);
+        lfo.start(now);
+        insert.lfo = lfo;
+        insert.nodes.push(lfo);
+      }
+      return insert;
+    }
+
+    const { effectIn, effectOut, ...effect } = this.createEffectNodes(module, now);
+    const dry = ac.createGain();
+    const wet = ac.createGain();
+    const merge = ac.createGain();
+    effectOut.connect(wet);
+    dry.connect(merge);
+    wet.connect(merge);
+    return {
+      ...effect,
+      module,
+      dry,
+      wet,
+      stage: { inputs: [dry, effectIn], output: merge },
+      nodes: [...effect.nodes, dry, wet, merge],
+    };
   }
 
   /**
-   * Find the last node in the master effects chain that feeds into masterPreGain.
-   * Used when inserting a new effect (chorus, distortion, phaser) into the chain.
-   * The cascade order reflects the signal flow: phaser < distortion < chorus < reverb < delay < distort < comp < eqHigh.
+   * Pool an insert its chain no longer uses, with its wet path and delay
+   * feedback silenced and its LFO stopped so an idle insert costs nothing.
+   * It stays out of reuse until its tail has died away, so old echoes and
+   * reverb never follow it to the next instrument. Past the pool size its
+   * nodes are disconnected for good. The chain order unpatches it.
    */
-  private getLastMasterChainNode(...exclude: (AudioNode | null)[]): AudioNode | null {
-    const candidates: (AudioNode | null)[] = [
-      this.phaserMerge,
-      this.distortionMerge,
-      this.chorusMerge,
-      this.masterReverbMerge,
-      this.masterDelayMerge,
-      this.masterDistortMerge,
-      this.masterComp,
-      this.masterEQHigh,
-    ];
-    for (const node of candidates) {
-      if (node && !exclude.includes(node)) return node;
+  private releaseInsert(insert: EffectInsert, now: number): void {
+    insert.wet.gain.setValueAtTime(0, now);
+    insert.feedback?.gain.setValueAtTime(0, now);
+    if (insert.lfo) {
+      insert.lfo.stop(now);
+      insert.lfo.disconnect();
+      insert.nodes = insert.nodes.filter(node => node !== insert.lfo);
+      delete insert.lfo;
     }
-    return null;
+    if (this.insertPool.length < UnifiedAudioEngine.MAX_POOLED_INSERTS) {
+      insert.quietAt = now + this.getInsertTail(insert.module);
+      this.insertPool.push(insert);
+      return;
+    }
+    insert.nodes.forEach(node => {
+      try { node.disconnect(); } catch {}
+    });
   }
 
   /**
-   * Insert a dry/wet effect pair into the master chain before masterPreGain.
-   * Disconnects the current last node from masterPreGain and routes through dry/wet/merge.
+   * Seconds an insert keeps sounding after its input and feedback stop
    */
-  private insertMasterEffect(
-    dryGain: GainNode,
-    wetInput: AudioNode,
-    wetOutput: AudioNode,
-    merge: GainNode,
-    ...excludeFromChain: (AudioNode | null)[]
-  ): void {
-    const lastNode = this.getLastMasterChainNode(...excludeFromChain);
-    if (lastNode && this.masterPreGain) {
-      try { lastNode.disconnect(this.masterPreGain); } catch {}
-      lastNode.connect(dryGain);
-      lastNode.connect(wetInput);
-      wetOutput.connect(merge);
-      dryGain.connect(merge);
-      merge.connect(this.masterPreGain);
+  private getInsertTail(module: BusModule): number {
+    switch (module.effect) {
+      case 'reverb':
+        return module.settings.decay + module.settings.predelay;
+      case 'delay':
+        return module.settings.time;
+      case 'chorus':
+        return 0.1; // the longest modulated delay
+      default:
+        return 0;
     }
   }
 
+  /**
+   * Params an insert can't change without new nodes. Unlike a bus, a reverb
+   * insert swaps its impulse response in place.
+   */
+  private getInsertStructure(module: BusModule): string {
+    return module.effect === 'phaser' ? `phaser:${module.settings.stages}` : module.effect;
+  }
+
+  /**
+   * Connect or disconnect head -> stages -> tail, each stage's output to the next one's inputs
+   */
+  private linkStages(head: AudioNode, stages: StageNodes[], tail: AudioNode, link: (from: AudioNode, to: AudioNode) => void): void {
+    let previous = head;
+    stages.forEach(stage => {
+      stage.inputs.forEach(input => link(previous, input));
+      previous = stage.output;
+    });
+    link(previous, tail);
+  }
+
+  /**
+   * Re-patch the stages between head and tail into a new order. Only the links
+   * between stages change, so params, delay feedback and reverb tails carry over.
+   */
+  private patchChain(head: AudioNode, tail: AudioNode, from: StageNodes[], to: StageNodes[]): void {
+    if (from.length === to.length && from.every((stage, i) => stage.output === to[i].output)) return;
+    this.linkStages(head, from, tail, (a, b) => {
+      try { a.disconnect(b); } catch {}
+    });
+    this.linkStages(head, to, tail, (a, b) => a.connect(b));
+  }
+
+  /**
+   * Patch an instrument's stages between its amp and pan in its `chain` order.
+   * Inserts released to the pool drop out of the signal path.
+   */
+  private applyInstrumentChainOrder(name: string, effectsConfig: any): void {
+    const chain = this.instrumentChains.get(name);
+    if (!chain) return;
+    const available = this.getInstrumentStages(chain);
+    Object.entries(chain.inserts).forEach(([effect, insert]) => {
+      available[effect as ChainStage] = insert.stage;
+    });
+    const stages = getChainOrder(effectsConfig?.chain?.[name], 'instrument').flatMap(stage => available[stage] ?? []);
+    this.patchChain(chain.preGain, chain.pan, chain.stages, stages);
+    chain.stages = stages;
+  }
+
+  /**
+   * Patch the master stages between its input and amp in the `chain master:`
+   * order. Chorus and phaser are only in the path while their module is present.
+   */
+  private applyMasterChainOrder(effectsConfig: any): void {
+    if (!this.masterChainInput || !this.masterPreGain) return;
+    const available: Partial<Record<ChainStage, StageNodes>> = {
+      ...this.getMasterStages(),
+      ...(effectsConfig?.chorus?.master && this.chorusMerge && {
+        chorus: { inputs: [this.chorusDryGain!, this.chorusDelay!], output: this.chorusMerge },
+      }),
+      ...(effectsConfig?.phaser?.master && this.phaserMerge && {
+        phaser: { inputs: [this.phaserDryGain!, this.phaserFilters![0]], output: this.phaserMerge },
+      }),
+    };
+    const stages = getChainOrder(effectsConfig?.chain?.master, 'master').flatMap(stage => available[stage] ?? []);
+    this.patchChain(this.masterChainInput, this.masterPreGain, this.masterStages, stages);
+    this.masterStages = stages;
+  }
+
+  /**
+   * The stages every instrument chain has, whatever its module lines
+   */
+  private getInstrumentStages(chain: Pick<InstrumentChain, 'filter' | 'comp' | 'duck' | 'eqLow' | 'eqHigh'>): Partial<Record<ChainStage, StageNodes>> {
+    return {
+      filter: { inputs: [chain.filter], output: chain.filter },
+      comp: { inputs: [chain.comp], output: chain.comp },
+      duck: { inputs: [chain.duck], output: chain.duck },
+      eq: { inputs: [chain.eqLow], output: chain.eqHigh },
+    };
+  }
+
+  /**
+   * The stages the master chain always has; distortion, delay and reverb pass through dry without a module
+   */
+  private getMasterStages(): Partial<Record<ChainStage, StageNodes>> {
+    return {
+      eq: { inputs: [this.masterEQLow!], output: this.masterEQHigh! },
+      comp: { inputs: [this.masterComp!], output: this.masterComp! },
+      distort: { inputs: [this.masterDistortDryGain!, this.masterDistortion!], output: this.masterDistortMerge! },
+      delay: { inputs: [this.masterDelayDryGain!, this.masterDelay!], output: this.masterDelayMerge! },
+      reverb: { inputs: [this.masterReverbDryGain!, this.masterReverb!], output: this.masterReverbMerge! },
+    };
+  }
+
   /**
    * Apply chorus effect using modulated delay lines
    */
@@ -750,8 +955,10 @@ export class UnifiedAudioEngine {
       const wetGain = ac.createGain();
       const merge = ac.createGain();
 
-      this.insertMasterEffect(dryGain, delay, delay, merge);
+      // Patched in between master stages by applyMasterChainOrder
       delay.connect(wetGain);
+      dryGain.connect(merge);
+      wetGain.connect(merge);
 
       this.chorusDelay = delay;
       this.chorusLFO = lfo;
@@ -767,35 +974,6 @@ export class UnifiedAudioEngine {
     this.chorusWetGain!.gain.setValueAtTime(cfg.mix, now);
   }
 
-  /**
-   * Apply distortion effect using waveshaper
-   */
-  private applyDistortionEffect(cfg: DistortModule): void {
-    if (!Tone.context) return;
-    const ac = Tone.context.rawContext as AudioContext;
-    const now = ac.currentTime;
-
-    if (!this.distortionNode) {
-      const distort = ac.createWaveShaper();
-      distort.oversample = '4x';
-      const dryGain = ac.createGain();
-      const wetGain = ac.createGain();
-      const merge = ac.createGain();
-
-      this.insertMasterEffect(dryGain, distort, distort, merge, merge);
-      distort.connect(wetGain);
-
-      this.distortionNode = distort;
-      this.distortionDryGain = dryGain;
-      this.distortionWetGain = wetGain;
-      this.distortionMerge = merge;
-    }
-
-    this.distortionNode!.curve = this.makeDistortionCurve(cfg.amount) as any;
-    this.distortionDryGain!.gain.setValueAtTime(1 - cfg.mix, now);
-    this.distortionWetGain!.gain.setValueAtTime(cfg.mix, now);
-  }
-
   /**
    * Apply phaser effect using allpass filters modulated by LFO
    */
@@ -837,8 +1015,10 @@ export class UnifiedAudioEngine {
       const wetGain = ac.createGain();
       const merge = ac.createGain();
 
-      this.insertMasterEffect(dryGain, filters[0], filters[filters.length - 1], merge, merge);
+      // Patched in between master stages by applyMasterChainOrder
       filters[filters.length - 1].connect(wetGain);
+      dryGain.connect(merge);
+      wetGain.connect(merge);
 
       this.phaserFilters = filters;
       this.phaserLFO = lfo;
@@ -855,6 +1035,226 @@ export class UnifiedAudioEngine {
     this.phaserWetGain!.gain.setValueAtTime(cfg.mix, now);
   }
 
+  /**
+   * Reconcile send/return buses with the pattern. A bus whose effect keeps the
+   * same nodes is updated in place; new, removed and rebuilt buses, and every
+   * send level, glide over BUS_FADE so reloading a pattern doesn't click.
+   */
+  private applyBuses(busMods: Record<string, BusModule>, sendMods: Record<string, SendModule>): void {
+    if (!Tone.context) return;
+    const ac = Tone.context.rawContext as AudioContext;
+    const now = ac.currentTime;
+    this.ensureMasterChain();
+
+    this.buses.forEach((bus, name) => {
+      const next = busMods[name];
+      if (!next || this.getBusStructure(next) !== this.getBusStructure(bus.module)) {
+        this.retireBus(name, now);
+      }
+    });
+    Object.values(busMods).forEach(module => {
+      const bus = this.buses.get(module.name) ?? this.createBus(module, now);
+      this.updateBus(bus, module, now);
+    });
+
+    const levels = new Map<string, number>();
+    Object.values(sendMods).forEach(send => {
+      Object.entries(send.levels).forEach(([busName, level]) => {
+        if (this.buses.has(busName)) levels.set(`${send.name}>${busName}`, level);
+      });
+    });
+    Array.from(this.busSends.keys()).forEach(key => {
+      if (!levels.has(key)) this.retireSend(key, now);
+    });
+    levels.forEach((level, key) => {
+      let send = this.busSends.get(key);
+      if (!send) {
+        const [instrument, busName] = key.split('>');
+        const chain = this.ensureInstrumentChain(instrument);
+        if (!chain) return;
+        send = ac.createGain();
+        send.gain.setValueAtTime(0, now);
+        chain.output.connect(send);
+        send.connect(this.buses.get(busName)!.input);
+        this.busSends.set(key, send);
+      }
+      this.glideParam(send.gain, level, now);
+    });
+  }
+
+  /**
+   * Build the nodes for a bus, silent until updateBus fades its return in
+   */
+  private createBus(module: BusModule, now: number): EffectBus {
+    const ac = Tone.context.rawContext as AudioContext;
+    const input = ac.createGain();
+    const dry = ac.createGain();
+    const wet = ac.createGain();
+    const output = ac.createGain();
+    output.gain.setValueAtTime(0, now);
+    const { effectIn, effectOut, ...effect } = this.createEffectNodes(module, now);
+    const bus: EffectBus = { ...effect, module, input, dry, wet, output, nodes: [input, dry, wet, output, ...effect.nodes] };
+
+    input.connect(dry);
+    input.connect(effectIn);
+    effectOut.connect(wet);
+    dry.connect(output);
+    wet.connect(output);
+    output.connect((this.masterChainInput ?? this.masterGain)!);
+    this.buses.set(module.name, bus);
+    return bus;
+  }
+
+  /**
+   * Build the nodes of an effect, wet only: effectIn takes the signal and
+   * effectOut gives the effected sound. updateEffectNodes sets its params.
+   */
+  private createEffectNodes(module: BusModule, now: number): EffectNodes & { effectIn: AudioNode; effectOut: AudioNode } {
+    const ac = Tone.context.rawContext as AudioContext;
+    switch (module.effect) {
+      case 'reverb': {
+        const convolver = ac.createConvolver();
+        return { convolver, effectIn: convolver, effectOut: convolver, nodes: [convolver] };
+      }
+      case 'delay': {
+        const delay = ac.createDelay(2.0);
+        const feedback = ac.createGain();
+        delay.connect(feedback);
+        feedback.connect(delay);
+        return { delay, feedback, effectIn: delay, effectOut: delay, nodes: [delay, feedback] };
+      }
+      case 'chorus':
+      case 'phaser': {
+        const lfo = ac.createOscillator();
+        const lfoGain = ac.createGain();
+        lfo.type = 'sine';
+        lfo.connect(lfoGain);
+        lfo.start();
+        if (module.effect === 'chorus') {
+          const delay = ac.createDelay(0.1);
+          delay.delayTime.setValueAtTime(0.02, now);
+          lfoGain.connect(delay.delayTime);
+          return { delay, lfo, lfoGain, effectIn: delay, effectOut: delay, nodes: [delay, lfo, lfoGain] };
+        }
+        const filters: BiquadFilterNode[] = [];
+        for (let i = 0; i < module.settings.stages; i++) {
+          const f = ac.createBiquadFilter();
+          f.type = 'allpass';
+          f.frequency.setValueAtTime(1000, now);
+          f.Q.setValueAtTime(0.5, now);
+          lfoGain.connect(f.frequency);
+          if (i > 0) filters[i - 1].connect(f);
+          filters.push(f);
+        }
+        return { lfo, lfoGain, effectIn: filters[0], effectOut: filters[filters.length - 1], nodes: [...filters, lfo, lfoGain] };
+      }
+      case 'distort': {
+        const shaper = ac.createWaveShaper();
+        shaper.oversample = '4x';
+        return { shaper, effectIn: shaper, effectOut: shaper, nodes: [shaper] };
+      }
+    }
+  }
+
+  /**
+   * Apply a bus module's params to its nodes and fade the return to full level
+   */
+  private updateBus(bus: EffectBus, module: BusModule, now: number): void {
+    this.updateEffectNodes(bus, module, bus.module, now);
+    bus.module = module;
+    this.glideParam(bus.dry.gain, 1 - module.settings.mix, now);
+    this.glideParam(bus.wet.gain, module.settings.mix, now);
+    this.glideParam(bus.output.gain, 1, now);
+  }
+
+  /**
+   * Apply a module's params to an effect's nodes, all but the dry/wet mix.
+   * Impulse responses and curves are only swapped when their settings change.
+   */
+  private updateEffectNodes(effect: EffectNodes, module: BusModule, previous: BusModule, now: number): void {
+    switch (module.effect) {
+      case 'reverb': {
+        const { decay, predelay } = module.settings;
+        if (!effect.convolver!.buffer || previous.effect !== 'reverb' || previous.settings.decay !== decay || previous.settings.predelay !== predelay) {
+          effect.convolver!.buffer = this.getImpulseResponse(decay, predelay);
+        }
+        break;
+      }
+      case 'delay':
+        effect.delay!.delayTime.setValueAtTime(module.settings.time, now);
+        this.glideParam(effect.feedback!.gain, module.settings.feedback, now);
+        break;
+      case 'chorus':
+        effect.lfo!.frequency.setValueAtTime(module.settings.rate, now);
+        effect.lfoGain!.gain.setValueAtTime(module.settings.depth * 0.005, now);
+        break;
+      case 'phaser':
+        effect.lfo!.frequency.setValueAtTime(module.settings.rate, now);
+        effect.lfoGain!.gain.setValueAtTime(module.settings.depth * 2000, now);
+        break;
+      case 'distort':
+        // Swapping the curve is instant, so only do it when the amount changes
+        if (!effect.shaper!.curve || previous.effect !== 'distort' || previous.settings.amount !== module.settings.amount) {
+          effect.shaper!.curve = this.makeDistortionCurve(module.settings.amount) as any;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Params a bus can't change without new nodes; a different key means rebuild
+   */
+  private getBusStructure(module: BusModule): string {
+    switch (module.effect) {
+      case 'reverb':
+        return `reverb:${module.settings.decay}:${module.settings.predelay}`;
+      case 'phaser':
+        return `phaser:${module.settings.stages}`;
+      default:
+        return module.effect;
+    }
+  }
+
+  /**
+   * Fade a bus and its sends out, then disconnect them once silent
+   */
+  private retireBus(name: string, now: number): void {
+    const bus = this.buses.get(name);
+    if (!bus) return;
+    this.buses.delete(name);
+    Array.from(this.busSends.keys())
+      .filter(key => key.endsWith(`>${name}`))
+      .forEach(key => this.retireSend(key, now));
+    this.glideParam(bus.output.gain, 0, now);
+    this.disconnectAfterFade(bus.nodes, () => bus.lfo?.stop());
+  }
+
+  private retireSend(key: string, now: number): void {
+    const send = this.busSends.get(key);
+    if (!send) return;
+    this.busSends.delete(key);
+    this.glideParam(send.gain, 0, now);
+    this.disconnectAfterFade([send]);
+  }
+
+  /**
+   * Ramp an AudioParam from its current value so level changes don't step
+   */
+  private glideParam(param: AudioParam, value: number, now: number): void {
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + UnifiedAudioEngine.BUS_FADE);
+  }
+
+  private disconnectAfterFade(nodes: AudioNode[], onDone?: () => void): void {
+    // Not tracked in scheduledEvents: stopping playback must not leave retired nodes connected
+    window.setTimeout(() => {
+      try { onDone?.(); } catch { /* ignore */ }
+      nodes.forEach(node => {
+        try { node.disconnect(); } catch { /* ignore */ }
+      });
+    }, UnifiedAudioEngine.BUS_FADE * 1000 + 50);
+  }
+
   /**
    * Apply EQ update in real-time
    */
@@ -914,13 +1314,13 @@ export class UnifiedAudioEngine {
   /**
    * Apply real-time tempo change without waiting for next loop
    */
-  private applyRealTimeTempoChange(_oldTempo: number, newTempo: number): void {
+  private applyRealTimeTempoChange(_oldTempo: number, _newTempo: number): void {
     if (!this.currentPattern) return;
 
     // Debug: console.log(`[Tone] Tempo change: ${newTempo} BPM`);
 
-    // Update Tone.Transport BPM
-    Tone.Transport.bpm.value = newTempo;
+    // Update Tone.Transport BPM (continuing any ramp from the current position)
+    this.scheduleTempoRamp();
 
     // We must rebuild the part because the groove offsets (in seconds) are based on the tempo-derived step interval
     if (this.isPlaying) {
@@ -944,36 +1344,79 @@ export class UnifiedAudioEngine {
    * Get current state with real-time calculations
    */
   getState(): UnifiedAudioState {
-    const tempo = this.currentPattern?.tempo || 120;
+    const pattern = this.currentPattern;
+    // Ramping patterns report the live transport BPM so the display follows the ramp
+    const tempo = pattern?.tempoRamp && (this.isPlaying || this.isPaused)
+      ? Math.round(Tone.Transport.bpm.value * 10) / 10
+      : pattern?.tempo || 120;
     const volume = this.volumeGain ? 20 * Math.log10(this.volumeGain.gain.value) : -6;
 
-    // Calculate real-time position using Tone.Transport
-    let currentTime = Tone.Transport.seconds;
-    if (this.tonePart && (this.tonePart.loopEnd as any) > 0) {
-      currentTime = currentTime % (this.tonePart.loopEnd as any);
-    }
+    // Position from transport ticks so tempo changes and ramps keep it on the grid
+    const beats = this.getTransportBeats();
+    const loopBeats = this.tonePart && pattern ? getSongLength(pattern) / AUDIO_CONSTANTS.STEPS_PER_BEAT : 0;
+    const position = (loopBeats > 0 ? beats % loopBeats : beats) * AUDIO_CONSTANTS.STEPS_PER_BEAT;
 
     return {
       isInitialized: this.isInitialized,
       isPlaying: this.isPlaying,
       isPaused: this.isPaused,
       tempo,
-      currentTime,
+      currentTime: Tone.Transport.seconds,
+      position,
       volume,
       error: null,
       effectsEnabled: true,
       audioQuality: 'high',
-      overflowMode: this.overflowMode
+      overflowMode: this.overflowMode,
+      fillMode: this.fillMode,
+      tempoRamp: pattern?.tempoRamp,
+      gainReduction: this.getGainReduction()
     };
   }
 
+  /** Current ducking in dB (positive = quieter) for each instrument with a duck module */
+  private getGainReduction(): Record<string, number> {
+    const reduction: Record<string, number> = {};
+    Object.keys(this.currentPattern?.duckModules || {}).forEach(name => {
+      const chain = this.instrumentChains.get(name);
+      if (chain) reduction[name] = Math.max(0, -20 * Math.log10(Math.max(chain.duck.gain.value, 0.001)));
+    });
+    return reduction;
+  }
+
+  /** Quarter-note beats played since the transport started */
+  private getTransportBeats(): number {
+    return Tone.Transport.ticks / Tone.Transport.PPQ;
+  }
+
+  /**
+   * Point Tone.Transport.bpm at the pattern tempo for the current transport
+   * position. Inside a TEMPO ramp the BPM jumps to the ramp's value at this beat
+   * and ramps on to the target over the remaining beats, unless `hold` is set
+   * (paused transport); past the ramp it holds the target.
+   */
+  private scheduleTempoRamp(hold = false): void {
+    if (!this.currentPattern) return;
+    const { tempo, tempoRamp, timeSignature } = this.currentPattern;
+    const bpm = Tone.Transport.bpm;
+    bpm.cancelScheduledValues(0);
+
+    const rampBeats = tempoRamp ? getRampBeats(tempoRamp, timeSignature) : 0;
+    const beats = this.getTransportBeats();
+    const current = getTempoAtBeat(tempo, tempoRamp, rampBeats, beats);
+    bpm.value = current;
+    if (tempoRamp && !hold && beats < rampBeats && current !== tempoRamp.to) {
+      bpm.rampTo(tempoRamp.to, getRampDuration(current, tempoRamp.to, rampBeats - beats));
+    }
+  }
+
   // Obsolete custom loop duration methods removed — Tone.Transport handles this
 
   // getCurrentStep method removed - not currently used
 
   /**
-   * Ensure master chain is created and connected:
-   * EQLow -> EQMid -> EQHigh -> Comp -> Distortion(dry/wet) -> Delay(dry/wet) -> Reverb(dry/wet) -> PreGain -> MasterGain
+   * Ensure master chain is created and connected, by default:
+   * Input -> EQLow -> EQMid -> EQHigh -> Comp -> Distortion(dry/wet) -> Delay(dry/wet) -> Reverb(dry/wet) -> PreGain -> MasterGain
    */
   private ensureMasterChain(): void {
     if (!Tone.context || !this.masterGain) return;
@@ -982,6 +1425,8 @@ export class UnifiedAudioEngine {
     }
 
     const ac = Tone.context.rawContext as AudioContext;
+    const input = ac.createGain();
+
     // Create filters with neutral gains
     this.masterEQLow = ac.createBiquadFilter();
     this.masterEQLow.type = 'lowshelf';
@@ -1029,7 +1474,7 @@ export class UnifiedAudioEngine {
     // Reverb with dry/wet mix (defaults to full dry = passthrough)
     this.masterReverb = Tone.context.createConvolver();
     // Generate a default short impulse response
-    this.masterReverb.buffer = this.generateImpulseResponse(1.0, 0.01);
+    this.masterReverb.buffer = this.getImpulseResponse(1.0, 0.01);
     this.masterReverbDryGain = Tone.context.createGain();
     this.masterReverbDryGain.gain.setValueAtTime(1, ac.currentTime);
     this.masterReverbWetGain = Tone.context.createGain();
@@ -1039,326 +1484,148 @@ export class UnifiedAudioEngine {
     this.masterPreGain = Tone.context.createGain();
     this.masterPreGain.gain.setValueAtTime(1, ac.currentTime);
 
-    // Connect chain: EQLow -> EQMid -> EQHigh -> Comp -> Distortion(dry/wet) -> Delay(dry/wet) -> Reverb(dry/wet) -> PreGain -> MasterGain
+    // Wire each stage, then chain them: Input -> EQ -> Comp -> Distortion -> Delay -> Reverb -> PreGain -> MasterGain
     this.masterEQLow.connect(this.masterEQMid);
     this.masterEQMid.connect(this.masterEQHigh);
-    this.masterEQHigh.connect(this.masterComp);
 
-    // Comp -> Distortion dry/wet
-    this.masterComp.connect(this.masterDistortDryGain);
-    this.masterComp.connect(this.masterDistortion);
     this.masterDistortion.connect(this.masterDistortWetGain);
     this.masterDistortDryGain.connect(this.masterDistortMerge);
     this.masterDistortWetGain.connect(this.masterDistortMerge);
 
-    // Distortion merge -> Delay dry/wet
-    this.masterDistortMerge.connect(this.masterDelayDryGain);
-    this.masterDistortMerge.connect(this.masterDelay);
     this.masterDelay.connect(this.masterDelayFeedback);
     this.masterDelayFeedback.connect(this.masterDelay); // feedback loop
     this.masterDelay.connect(this.masterDelayWetGain);
     this.masterDelayDryGain.connect(this.masterDelayMerge);
     this.masterDelayWetGain.connect(this.masterDelayMerge);
 
-    // Delay merge -> Reverb dry/wet
-    this.masterDelayMerge.connect(this.masterReverbDryGain);
-    this.masterDelayMerge.connect(this.masterReverb);
     this.masterReverb.connect(this.masterReverbWetGain);
     this.masterReverbDryGain.connect(this.masterReverbMerge);
     this.masterReverbWetGain.connect(this.masterReverbMerge);
 
-    // Reverb merge -> PreGain -> MasterGain
-    this.masterReverbMerge.connect(this.masterPreGain);
+    const stages = this.getMasterStages();
+    this.masterStages = getChainOrder(this.currentPattern?.chainModules?.master, 'master').flatMap(stage => stages[stage] ?? []);
+    this.linkStages(input, this.masterStages, this.masterPreGain, (a, b) => a.connect(b));
     this.masterPreGain.connect(this.masterGain);
 
-    this.masterChainInput = this.masterEQLow;
+    this.masterChainInput = input;
   }
 
   /**
-   * Preload a small built-in sample bank.
-   * For MVP these are generated procedurally to avoid external assets.
-   * Names: 'kick', 'snare', 'hihat', 'clap'
+   * Preload the built-in sample bank.
+   * These are the drum synth's models at their default parameters, so no external assets are needed.
+   * Names: see BUILT_IN_DRUMS
    */
   private async preloadDefaultSamples(): Promise<void> {
     if (!Tone.context) return;
     const ac = Tone.context.rawContext as AudioContext;
-    const add = (name: string, buf: AudioBuffer) => this.sampleBuffers.set(name.toLowerCase(), buf);
     try {
-      add('kick', this.generateKickSample(ac));
-      add('snare', this.generateSnareSample(ac));
-      add('hihat', this.generateHiHatSample(ac));
-      add('clap', this.generateClapSample(ac));
-      add('kick808', this.generateKick808Sample(ac));
-      add('rim', this.generateRimSample(ac));
-      add('tom', this.generateTomSample(ac));
-      add('cowbell', this.generateCowbellSample(ac));
-      add('shaker', this.generateShakerSample(ac));
-      add('crash', this.generateCrashSample(ac));
-      add('openhat', this.generateOpenHatSample(ac));
-      add('perc', this.generatePercSample(ac));
+      Object.entries(BUILT_IN_DRUMS).forEach(([name, model]) => {
+        this.sampleBuffers.set(name, renderDrum(ac, defaultDrum(name, model)));
+      });
       console.log('[Unified] Default samples loaded');
     } catch (e) {
       console.error('[Unified] Error loading default samples:', e);
     }
   }
 
-  // Procedural sample generators (very light approximations)
-  private generateKickSample(ac: AudioContext): AudioBuffer {
-    const duration = 0.2;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    // Exponential pitch down with exponential amplitude decay
-    const startFreq = 120;
-    const endFreq = 40;
-    const twoPi = 2 * Math.PI;
-    let phase = 0;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const freq = startFreq * Math.pow(endFreq / startFreq, t);
-      const env = Math.pow(1 - t, 4);
-      phase += twoPi * freq / sr;
-      ch[i] = Math.sin(phase) * env * 0.9;
-    }
-    return buf;
-  }
-
-  private generateSnareSample(ac: AudioContext): AudioBuffer {
-    const duration = 0.15;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 8);
-      ch[i] = (Math.random() * 2 - 1) * env * 0.6;
-    }
-    return buf;
-  }
-
-  private generateHiHatSample(ac: AudioContext): AudioBuffer {
-    const duration = 0.07;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    // Bright, short noise burst
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 10);
-      const n = (Math.random() * 2 - 1);
-      ch[i] = n * env * 0.35;
-    }
-    return buf;
-  }
-
-  private generateClapSample(ac: AudioContext): AudioBuffer {
-    // Multi-tap noise bursts to approximate a clap
-    const duration = 0.2;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const taps = [0, 0.015, 0.03, 0.045];
-    for (let i = 0; i < len; i++) ch[i] = 0;
-    for (const tTap of taps) {
-      const start = Math.floor(tTap * sr);
-      for (let i = 0; i < len - start; i++) {
-        const t = i / (len - start);
-        const env = Math.pow(1 - t, 10);
-        ch[start + i] += (Math.random() * 2 - 1) * env * 0.18;
-      }
-    }
-    // Normalize a bit to avoid clipping
-    let max = 0;
-    for (let i = 0; i < len; i++) max = Math.max(max, Math.abs(ch[i]));
-    if (max > 1e-6) {
-      const s = 0.95 / max;
-      for (let i = 0; i < len; i++) ch[i] *= s;
-    }
-    return buf;
-  }
-
-  private generateKick808Sample(ac: AudioContext): AudioBuffer {
-    // Deeper, longer 808-style kick with sub-bass emphasis
-    const duration = 0.5;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const startFreq = 60;
-    const endFreq = 30;
-    const twoPi = 2 * Math.PI;
-    let phase = 0;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const freq = startFreq * Math.pow(endFreq / startFreq, t);
-      const env = Math.pow(1 - t, 2); // slower decay than regular kick
-      phase += twoPi * freq / sr;
-      ch[i] = Math.sin(phase) * env * 0.95;
-    }
-    return buf;
-  }
-
-  private generateRimSample(ac: AudioContext): AudioBuffer {
-    // Short bandpass-filtered noise with a tonal click
-    const duration = 0.04;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const twoPi = 2 * Math.PI;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 15);
-      // Mix tonal click (1200Hz) with noise
-      const tone = Math.sin(twoPi * 1200 * i / sr) * 0.6;
-      const noise = (Math.random() * 2 - 1) * 0.4;
-      ch[i] = (tone + noise) * env * 0.7;
-    }
-    return buf;
-  }
-
-  private generateTomSample(ac: AudioContext): AudioBuffer {
-    // Mid-frequency sine sweep with longer body
-    const duration = 0.3;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const startFreq = 200;
-    const endFreq = 80;
-    const twoPi = 2 * Math.PI;
-    let phase = 0;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const freq = startFreq * Math.pow(endFreq / startFreq, t);
-      const env = Math.pow(1 - t, 3);
-      phase += twoPi * freq / sr;
-      ch[i] = Math.sin(phase) * env * 0.8;
-    }
-    return buf;
-  }
-
-  private generateCowbellSample(ac: AudioContext): AudioBuffer {
-    // Two detuned square-ish tones for metallic character
-    const duration = 0.15;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const twoPi = 2 * Math.PI;
-    const f1 = 545;
-    const f2 = 810;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 5);
-      const s1 = Math.sign(Math.sin(twoPi * f1 * i / sr)) * 0.3;
-      const s2 = Math.sign(Math.sin(twoPi * f2 * i / sr)) * 0.3;
-      ch[i] = (s1 + s2) * env * 0.5;
-    }
-    return buf;
-  }
-
-  private generateShakerSample(ac: AudioContext): AudioBuffer {
-    // Very short high-pass noise burst
-    const duration = 0.05;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    let prev = 0;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 12);
-      const noise = Math.random() * 2 - 1;
-      // Simple one-pole high-pass
-      const hp = noise - prev;
-      prev = noise;
-      ch[i] = hp * env * 0.3;
-    }
-    return buf;
-  }
-
-  private generateCrashSample(ac: AudioContext): AudioBuffer {
-    // Long noise burst with slow decay
-    const duration = 1.2;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 1.5);
-      ch[i] = (Math.random() * 2 - 1) * env * 0.25;
-    }
-    return buf;
-  }
-
-  private generateOpenHatSample(ac: AudioContext): AudioBuffer {
-    // Longer hi-hat with sustained noise
-    const duration = 0.25;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    let prev = 0;
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 3);
-      const noise = Math.random() * 2 - 1;
-      // High-pass for brightness
-      const hp = noise - prev * 0.85;
-      prev = noise;
-      ch[i] = hp * env * 0.3;
-    }
-    return buf;
-  }
-
-  private generatePercSample(ac: AudioContext): AudioBuffer {
-    // Metallic, inharmonic ring — multiple detuned sine partials
-    const duration = 0.35;
-    const sr = ac.sampleRate;
-    const len = Math.floor(duration * sr);
-    const buf = ac.createBuffer(1, len, sr);
-    const ch = buf.getChannelData(0);
-    const twoPi = 2 * Math.PI;
-    const freqs = [340, 553, 788, 1024]; // inharmonic
-    const amps = [0.4, 0.3, 0.2, 0.1];
-    for (let i = 0; i < len; i++) {
-      const t = i / len;
-      const env = Math.pow(1 - t, 4);
-      let sample = 0;
-      for (let f = 0; f < freqs.length; f++) {
-        sample += Math.sin(twoPi * freqs[f] * i / sr) * amps[f];
+  /**
+   * Decode the samples stored in the user library into the sample bank as `user:<name>`.
+   * A file that no longer decodes is skipped; its instruments fall back at playback.
+   */
+  private async loadUserSamples(): Promise<void> {
+    const ac = Tone.context.rawContext as AudioContext;
+    const stored = await UserSampleService.getAll();
+    for (const sample of stored) {
+      try {
+        // decodeAudioData detaches its input, so decode a copy
+        const buffer = await ac.decodeAudioData(sample.data.slice(0));
+        this.sampleBuffers.set(UserSampleService.PREFIX + sample.name, buffer);
+      } catch (e) {
+        console.error(`[Unified] Could not decode user sample ${sample.name}:`, e);
       }
-      ch[i] = sample * env * 0.6;
     }
-    return buf;
   }
 
   /**
-   * Ensure per-instrument chain exists and is connected to master chain input
-   * Chain: preGain -> filter -> comp -> eqLow -> eqMid -> eqHigh -> pan -> masterChainInput
+   * Import an audio file into the user library: decode it, make it playable as
+   * `sample <instrument>: user:<name>` and persist it for later sessions.
    */
-  private ensureInstrumentChain(name: string) {
-    if (!Tone.context) return null;
-    const n = name.toLowerCase();
-    const existing = this.instrumentChains.get(n);
-    if (existing) return existing;
-
+  async importUserSample(file: File): Promise<UserSample> {
+    if (!UserSampleService.isSupportedFile(file)) {
+      throw new Error(`Unsupported file type: ${file.name}. Use WAV, AIFF or OGG`);
+    }
     const ac = Tone.context.rawContext as AudioContext;
-    const now = ac.currentTime;
-    const preGain = ac.createGain();
-    preGain.gain.setValueAtTime(1, now);
+    const data = await file.arrayBuffer();
+    let buffer: AudioBuffer;
+    try {
+      buffer = await ac.decodeAudioData(data.slice(0));
+    } catch {
+      throw new Error(`Could not decode ${file.name}`);
+    }
 
-    // Filter defaults to lowpass at 20000Hz (passthrough)
-    const filter = ac.createBiquadFilter();
-    filter.type = 'lowpass';
-    filter.frequency.setValueAtTime(20000, now);
-    filter.Q.setValueAtTime(1, now);
+    const sample: UserSample = {
+      name: UserSampleService.toSampleName(file.name),
+      fileName: file.name,
+      type: file.type,
+      size: file.size,
+      duration: buffer.duration,
+      sampleRate: buffer.sampleRate,
+      channels: buffer.numberOfChannels,
+      addedAt: new Date(),
+    };
+    const ref = UserSampleService.PREFIX + sample.name;
+    this.sampleBuffers.set(ref, buffer);
+    this.missingSamples.delete(ref);
+    await UserSampleService.save({ ...sample, data });
+    return sample;
+  }
+
+  /**
+   * Remove a sample from the user library and the sample bank
+   */
+  async removeUserSample(name: string): Promise<void> {
+    this.sampleBuffers.delete(UserSampleService.PREFIX + name);
+    await UserSampleService.remove(name);
+  }
+
+  /**
+   * Render a buffer for each `drum` line, keeping the ones whose parameters are
+   * unchanged so live edits only pay for the voices that were retuned.
+   */
+  private renderDrumVoices(drumMods: Record<string, DrumModule>): void {
+    if (!Tone.context) return;
+    const ac = Tone.context.rawContext as AudioContext;
+    Array.from(this.drumBuffers.keys()).forEach(name => {
+      if (!drumMods[name]) this.drumBuffers.delete(name);
+    });
+    Object.values(drumMods).forEach(drum => {
+      const key = drumKey(drum);
+      if (this.drumBuffers.get(drum.name)?.key === key) return;
+      this.drumBuffers.set(drum.name, { key, buffer: renderDrum(ac, drum) });
+    });
+  }
+
+  /**
+   * Ensure per-instrument chain exists and is connected to master chain input, by default:
+   * preGain -> filter -> comp -> duck -> eqLow -> eqMid -> eqHigh -> pan -> masterChainInput
+   * Effect inserts (distort, chorus, phaser, delay, reverb) go in before pan once updateInserts adds them.
+   */
+  private ensureInstrumentChain(name: string) {
+    if (!Tone.context) return null;
+    const n = name.toLowerCase();
+    const existing = this.instrumentChains.get(n);
+    if (existing) return existing;
+
+    const ac = Tone.context.rawContext as AudioContext;
+    const now = ac.currentTime;
+    const preGain = ac.createGain();
+    preGain.gain.setValueAtTime(1, now);
+
+    // Filter defaults to lowpass at 20000Hz (passthrough)
+    const filter = ac.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(20000, now);
+    filter.Q.setValueAtTime(1, now);
 
     const comp = ac.createDynamicsCompressor();
     comp.threshold.setValueAtTime(-24, now);
@@ -1387,13 +1654,15 @@ export class UnifiedAudioEngine {
     const pan = ac.createStereoPanner();
     pan.pan.setValueAtTime(0, now);
 
-    // Connect chain: preGain -> filter -> comp -> eqLow -> eqMid -> eqHigh -> pan -> masterChainInput
-    preGain.connect(filter);
-    filter.connect(comp);
-    comp.connect(eqLow);
+    const duck = ac.createGain();
+    duck.gain.setValueAtTime(1, now);
+
+    // Connect chain: preGain -> [filter, comp, duck, eq in `chain` order] -> pan -> masterChainInput
     eqLow.connect(eqMid);
     eqMid.connect(eqHigh);
-    eqHigh.connect(pan);
+    const available = this.getInstrumentStages({ filter, comp, duck, eqLow, eqHigh });
+    const stages = getChainOrder(this.currentPattern?.chainModules?.[n], 'instrument').flatMap(stage => available[stage] ?? []);
+    this.linkStages(preGain, stages, pan, (a, b) => a.connect(b));
 
     // Ensure master input
     this.ensureMasterChain();
@@ -1403,7 +1672,7 @@ export class UnifiedAudioEngine {
       pan.connect(this.masterGain);
     }
 
-    const chain = { preGain, filter, comp, eqLow, eqMid, eqHigh, pan, input: preGain, output: pan };
+    const chain: InstrumentChain = { preGain, filter, comp, duck, eqLow, eqMid, eqHigh, pan, input: preGain, output: pan, stages, inserts: {} };
     this.instrumentChains.set(n, chain);
     return chain;
   }
@@ -1419,20 +1688,57 @@ export class UnifiedAudioEngine {
   }
 
   /**
-   * Resolve an LFO target to the correct AudioParam and depth scaling factor.
+   * Resolve an LFO target to the AudioParams it moves and the depth scaling for
+   * each. Most params swing by their own value times depth; EQ gains and comp
+   * threshold swing by fixed dB, and a mix moves wet and dry in opposite
+   * directions. Returns null while the targeted effect doesn't exist.
    */
-  private resolveLFOTarget(lfoCfg: LFOModule): { param: AudioParam; depthScale: number } | null {
+  private resolveLFOTarget(lfoCfg: Pick<LFOModule, 'scope' | 'name' | 'target'>): { param: AudioParam; depthScale: number }[] | null {
     const targetType = lfoCfg.target;
+    const proportional = (param: AudioParam | undefined, scale = 1) =>
+      param ? [{ param, depthScale: param.value * scale }] : null;
+    const fixed = (param: AudioParam | undefined, depthScale: number) =>
+      param ? [{ param, depthScale }] : null;
+    const mix = (dry: GainNode | null | undefined, wet: GainNode | null | undefined) =>
+      dry && wet ? [{ param: wet.gain, depthScale: 0.5 }, { param: dry.gain, depthScale: -0.5 }] : null;
 
     if (lfoCfg.scope === 'master') {
       this.ensureMasterChain();
       switch (targetType) {
         case 'amp':
-          return this.masterPreGain ? { param: this.masterPreGain.gain, depthScale: this.masterPreGain.gain.value } : null;
+          return proportional(this.masterPreGain?.gain);
+        case 'eq.low':
+          return fixed(this.masterEQLow?.gain, 12);
+        case 'eq.mid':
+          return fixed(this.masterEQMid?.gain, 12);
+        case 'eq.high':
+          return fixed(this.masterEQHigh?.gain, 12);
+        case 'comp.threshold':
+          return fixed(this.masterComp?.threshold, 24);
+        case 'comp.ratio':
+          return proportional(this.masterComp?.ratio);
         case 'delay.time':
-          return this.masterDelay ? { param: this.masterDelay.delayTime, depthScale: this.masterDelay.delayTime.value * 0.1 } : null;
+          return proportional(this.masterDelay?.delayTime, 0.1);
         case 'delay.feedback':
-          return this.masterDelayFeedback ? { param: this.masterDelayFeedback.gain, depthScale: this.masterDelayFeedback.gain.value } : null;
+          return proportional(this.masterDelayFeedback?.gain);
+        case 'delay.mix':
+          return mix(this.masterDelayDryGain, this.masterDelayWetGain);
+        case 'reverb.mix':
+          return mix(this.masterReverbDryGain, this.masterReverbWetGain);
+        case 'distort.mix':
+          return mix(this.masterDistortDryGain, this.masterDistortWetGain);
+        case 'chorus.rate':
+          return proportional(this.chorusLFO?.frequency);
+        case 'chorus.depth':
+          return proportional(this.chorusLFOGain?.gain);
+        case 'chorus.mix':
+          return mix(this.chorusDryGain, this.chorusWetGain);
+        case 'phaser.rate':
+          return proportional(this.phaserLFO?.frequency);
+        case 'phaser.depth':
+          return proportional(this.phaserLFOGain?.gain);
+        case 'phaser.mix':
+          return mix(this.phaserDryGain, this.phaserWetGain);
         default:
           return null;
       }
@@ -1441,13 +1747,45 @@ export class UnifiedAudioEngine {
       if (!chain) return null;
       switch (targetType) {
         case 'amp':
-          return { param: chain.preGain.gain, depthScale: chain.preGain.gain.value };
+          return proportional(chain.preGain.gain);
         case 'filter.freq':
-          return { param: chain.filter.frequency, depthScale: chain.filter.frequency.value };
+          return proportional(chain.filter.frequency);
         case 'filter.q':
-          return { param: chain.filter.Q, depthScale: chain.filter.Q.value };
+          return proportional(chain.filter.Q);
         case 'pan':
-          return { param: chain.pan.pan, depthScale: 1 };
+          return fixed(chain.pan.pan, 1);
+        case 'eq.low':
+          return fixed(chain.eqLow.gain, 12);
+        case 'eq.mid':
+          return fixed(chain.eqMid.gain, 12);
+        case 'eq.high':
+          return fixed(chain.eqHigh.gain, 12);
+        case 'comp.threshold':
+          return fixed(chain.comp.threshold, 24);
+        case 'comp.ratio':
+          return proportional(chain.comp.ratio);
+        case 'delay.time':
+          return proportional(chain.inserts.delay?.delay?.delayTime, 0.1);
+        case 'delay.feedback':
+          return proportional(chain.inserts.delay?.feedback?.gain);
+        case 'delay.mix':
+          return mix(chain.inserts.delay?.dry, chain.inserts.delay?.wet);
+        case 'reverb.mix':
+          return mix(chain.inserts.reverb?.dry, chain.inserts.reverb?.wet);
+        case 'distort.mix':
+          return mix(chain.inserts.distort?.dry, chain.inserts.distort?.wet);
+        case 'chorus.rate':
+          return proportional(chain.inserts.chorus?.lfo?.frequency);
+        case 'chorus.depth':
+          return proportional(chain.inserts.chorus?.lfoGain?.gain);
+        case 'chorus.mix':
+          return mix(chain.inserts.chorus?.dry, chain.inserts.chorus?.wet);
+        case 'phaser.rate':
+          return proportional(chain.inserts.phaser?.lfo?.frequency);
+        case 'phaser.depth':
+          return proportional(chain.inserts.phaser?.lfoGain?.gain);
+        case 'phaser.mix':
+          return mix(chain.inserts.phaser?.dry, chain.inserts.phaser?.wet);
         default:
           return null;
       }
@@ -1455,65 +1793,270 @@ export class UnifiedAudioEngine {
   }
 
   /**
-   * Create or update an LFO for any supported target parameter
+   * Create or update an LFO on its resolved target params
    */
-  private updateLFO(lfoCfg: LFOModule): void {
+  private updateLFO(lfoCfg: LFOSettings, targets: { param: AudioParam; depthScale: number }[] | null): void {
     if (!Tone.context) return;
     const ac = Tone.context.rawContext as AudioContext;
     const now = ac.currentTime;
     const key = lfoCfg.key.toLowerCase();
 
-    // Resolve the target AudioParam
-    const resolved = this.resolveLFOTarget(lfoCfg);
-    if (!resolved) return;
-    const { param: targetParam, depthScale } = resolved;
+    if (!targets) {
+      this.disposeLFO(key);
+      return;
+    }
 
     let entry = this.lfoMap.get(key);
+    // Oscillator and noise waves need different source nodes
+    if (entry && this.isRandomLFOWave(entry.cfg.wave) !== this.isRandomLFOWave(lfoCfg.wave)) {
+      this.disposeLFO(key);
+      entry = undefined;
+    }
     if (!entry) {
-      const osc = ac.createOscillator();
-      const depthGain = ac.createGain();
-      osc.connect(depthGain);
-      depthGain.connect(targetParam);
-      osc.start();
-      entry = {
-        osc,
-        depthGain,
-        targetParam,
-        scope: lfoCfg.scope,
-        name: lfoCfg.name.toLowerCase(),
-        wave: lfoCfg.wave,
-        rateHz: lfoCfg.rateHz,
-        depth: lfoCfg.depth,
-      };
+      const source = this.createLFOSource(lfoCfg.wave);
+      source.start();
+      entry = { source, outputs: [], cfg: lfoCfg };
       this.lfoMap.set(key, entry);
     }
 
-    // Update target if changed
-    if (entry.targetParam !== targetParam) {
-      try { entry.depthGain.disconnect(); } catch {}
-      entry.depthGain.connect(targetParam);
-      entry.targetParam = targetParam;
-    }
+    const current = entry;
+    current.outputs = this.connectModOutputs(current.source, current.outputs, targets);
 
-    // Update oscillator params
-    entry.osc.type = lfoCfg.wave;
-    entry.osc.frequency.setValueAtTime(lfoCfg.rateHz, now);
-    entry.depth = lfoCfg.depth;
+    // Update source params
+    current.cfg = lfoCfg;
+    if (!this.isRandomLFOWave(lfoCfg.wave)) {
+      (current.source as OscillatorNode).type = lfoCfg.wave as OscillatorType;
+    }
+    this.setLFORate(current.source, lfoCfg, now);
 
     // Scale depth using resolved depth scaling
-    entry.depthGain.gain.setValueAtTime(depthScale * lfoCfg.depth, now);
+    targets.forEach(({ depthScale }, i) => {
+      current.outputs[i].depthGain.gain.setValueAtTime(depthScale * lfoCfg.depth, now);
+    });
+  }
+
+  /**
+   * Depth gains from a modulation source to `targets`, kept while the params are
+   * the same and rebuilt when they change (e.g. a delay line was added).
+   */
+  private connectModOutputs(source: AudioNode, outputs: ModOutput[], targets: { param: AudioParam }[]): ModOutput[] {
+    if (outputs.length === targets.length && outputs.every((output, i) => output.param === targets[i].param)) {
+      return outputs;
+    }
+    const ac = Tone.context.rawContext as AudioContext;
+    try { source.disconnect(); } catch {}
+    outputs.forEach(output => {
+      try { output.depthGain.disconnect(); } catch {}
+    });
+    return targets.map(({ param }) => {
+      const depthGain = ac.createGain();
+      source.connect(depthGain);
+      depthGain.connect(param);
+      return { depthGain, param };
+    });
+  }
+
+  /**
+   * Params a `mod` route moves: the instrument's pitch bus for pitch, else the
+   * same chain params as an instrument LFO on that target.
+   */
+  private resolveModTarget(instrument: string, destination: ModRoute['destination']): { param: AudioParam; depthScale: number }[] | null {
+    if (destination === 'pitch') {
+      return [{ param: this.ensurePitchBus(instrument).offset, depthScale: UnifiedAudioEngine.MOD_PITCH_RANGE }];
+    }
+    return this.resolveLFOTarget({ scope: 'instrument', name: instrument, target: destination });
+  }
+
+  /** LFO `mod` routes as LFOs keyed 'name.modN', with the route amount as depth */
+  private getModLFOs(modMods: Record<string, ModModule>): { settings: LFOSettings; targets: { param: AudioParam; depthScale: number }[] | null }[] {
+    return Object.values(modMods).flatMap(mod => mod.routes.flatMap((route, i) => route.lfo
+      ? [{
+        settings: { key: `${mod.name}.mod${i + 1}`, depth: route.amount, ...route.lfo },
+        targets: this.resolveModTarget(mod.name, route.destination),
+      }]
+      : []));
+  }
+
+  /**
+   * Constant sources for per-hit `mod` routes onto chain params (velocity, step
+   * and envelope routes to anything but amp and pitch), offset 0 between hits.
+   */
+  private updateModSources(modMods: Record<string, ModModule>): void {
+    const ac = Tone.context.rawContext as AudioContext;
+    const now = ac.currentTime;
+    const keys = new Set<string>();
+    Object.values(modMods).forEach(mod => mod.routes.forEach((route, i) => {
+      if (route.source === 'lfo' || route.destination === 'amp' || route.destination === 'pitch') return;
+      const targets = this.resolveModTarget(mod.name, route.destination);
+      if (!targets) return;
+      const key = `${mod.name}.mod${i + 1}`;
+      keys.add(key);
+      let entry = this.modSources.get(key);
+      if (!entry) {
+        const source = ac.createConstantSource();
+        source.offset.value = 0;
+        source.start();
+        entry = { source, outputs: [] };
+        this.modSources.set(key, entry);
+      }
+      entry.outputs = this.connectModOutputs(entry.source, entry.outputs, targets);
+      entry.outputs.forEach((output, j) => output.depthGain.gain.setValueAtTime(targets[j].depthScale, now));
+    }));
+
+    Array.from(this.modSources.keys()).forEach(key => {
+      if (keys.has(key)) return;
+      const entry = this.modSources.get(key)!;
+      try { entry.source.stop(); } catch {}
+      try { entry.source.disconnect(); } catch {}
+      entry.outputs.forEach(output => {
+        try { output.depthGain.disconnect(); } catch {}
+      });
+      this.modSources.delete(key);
+    });
+  }
+
+  private ensurePitchBus(instrument: string): ConstantSourceNode {
+    let bus = this.pitchBuses.get(instrument);
+    if (!bus) {
+      bus = (Tone.context.rawContext as AudioContext).createConstantSource();
+      bus.offset.value = 0;
+      bus.start();
+      this.pitchBuses.set(instrument, bus);
+    }
+    return bus;
+  }
+
+  private isRandomLFOWave(wave: LFOWave): boolean {
+    return wave === 'sample-hold' || wave === 'random-smooth';
+  }
+
+  /**
+   * Oscillator for the periodic waves; a looping noise buffer for the random
+   * ones, with one segment per LFO cycle. Not yet started.
+   */
+  private createLFOSource(wave: LFOWave): OscillatorNode | AudioBufferSourceNode {
+    const ac = Tone.context.rawContext as AudioContext;
+    if (this.isRandomLFOWave(wave)) {
+      const source = ac.createBufferSource();
+      source.buffer = this.getRandomLFOBuffer(wave);
+      source.loop = true;
+      return source;
+    }
+    const osc = ac.createOscillator();
+    osc.type = wave as OscillatorType;
+    return osc;
+  }
+
+  /**
+   * Noise for the random waves: RANDOM_LFO_SEGMENTS random levels, held flat
+   * (sample-hold) or eased into each other (random-smooth), looping seamlessly.
+   */
+  private getRandomLFOBuffer(wave: LFOWave): AudioBuffer {
+    const cached = this.randomLFOBuffers.get(wave);
+    if (cached) return cached;
+    const ac = Tone.context.rawContext as AudioContext;
+    const { RANDOM_LFO_SEGMENTS: segments, RANDOM_LFO_SEGMENT_LENGTH: length } = UnifiedAudioEngine;
+    const buffer = ac.createBuffer(1, segments * length, ac.sampleRate);
+    const data = buffer.getChannelData(0);
+    const levels = Array.from({ length: segments }, () => Math.random() * 2 - 1);
+    for (let i = 0; i < segments * length; i++) {
+      const segment = Math.floor(i / length);
+      const from = levels[segment];
+      if (wave === 'sample-hold') {
+        data[i] = from;
+      } else {
+        const to = levels[(segment + 1) % segments];
+        const t = (i % length) / length;
+        data[i] = from + (to - from) * (1 - Math.cos(Math.PI * t)) / 2;
+      }
+    }
+    this.randomLFOBuffers.set(wave, buffer);
+    return buffer;
+  }
+
+  /**
+   * Set an LFO's cycle rate at `time`: its own Hz, or its synced note value or
+   * bars at the live transport tempo.
+   */
+  private setLFORate(source: OscillatorNode | AudioBufferSourceNode, lfoCfg: LFOSettings, time: number): void {
+    const hz = lfoCfg.sync ? 1 / this.getLFOCycleLength(lfoCfg.sync) : lfoCfg.rateHz;
+    if (this.isRandomLFOWave(lfoCfg.wave)) {
+      const sampleRate = (Tone.context.rawContext as AudioContext).sampleRate;
+      (source as AudioBufferSourceNode).playbackRate.setValueAtTime(hz * UnifiedAudioEngine.RANDOM_LFO_SEGMENT_LENGTH / sampleRate, time);
+    } else {
+      (source as OscillatorNode).frequency.setValueAtTime(hz, time);
+    }
+  }
+
+  /** Seconds per cycle of a synced LFO at the live transport tempo */
+  private getLFOCycleLength(sync: NonNullable<LFOModule['sync']>): number {
+    const sixteenth = getSixteenthDuration(Tone.Transport.bpm.value || this.currentPattern?.tempo || 120);
+    return sync.unit === 'note'
+      ? sync.length * 16 * sixteenth
+      : sync.length * getBarSteps(this.currentPattern?.timeSignature) * sixteenth;
+  }
+
+  /**
+   * Bar start (`bar` counts from the loop start): synced LFOs follow the live
+   * tempo, and LFOs with `reset` restart their cycle, every bar or, for a
+   * multi-bar rate, at the start of each cycle. Random waves restart from a
+   * random level.
+   */
+  private onLFOBar(bar: number, time: number): void {
+    this.lfoMap.forEach(entry => {
+      const { cfg } = entry;
+      const cycleBars = cfg.sync?.unit === 'bar' ? Math.max(1, Math.round(cfg.sync.length)) : 1;
+      if (!cfg.reset || bar % cycleBars !== 0) {
+        if (cfg.sync) this.setLFORate(entry.source, cfg, time);
+        return;
+      }
+      const source = this.createLFOSource(cfg.wave);
+      entry.outputs.forEach(output => source.connect(output.depthGain));
+      this.setLFORate(source, cfg, time);
+      if (this.isRandomLFOWave(cfg.wave)) {
+        const { RANDOM_LFO_SEGMENTS: segments, RANDOM_LFO_SEGMENT_LENGTH: length } = UnifiedAudioEngine;
+        const sampleRate = (Tone.context.rawContext as AudioContext).sampleRate;
+        source.start(time, (Math.floor(Math.random() * segments) * length) / sampleRate);
+      } else {
+        source.start(time);
+      }
+      const previous = entry.source;
+      try { previous.stop(time); } catch {}
+      previous.onended = () => {
+        try { previous.disconnect(); } catch {}
+      };
+      entry.source = source;
+    });
   }
 
   private disposeLFO(key: string): void {
     const entry = this.lfoMap.get(key);
     if (!entry) return;
-    try { entry.osc.stop(); } catch {}
-    try { entry.osc.disconnect(); } catch {}
-    try { entry.depthGain.disconnect(); } catch {}
+    try { entry.source.stop(); } catch {}
+    try { entry.source.disconnect(); } catch {}
+    entry.outputs.forEach(output => {
+      try { output.depthGain.disconnect(); } catch {}
+    });
     this.lfoMap.delete(key);
   }
 
 
+  /**
+   * Impulse response for a reverb size, generated once and shared by every reverb of that size
+   */
+  private getImpulseResponse(decay: number, predelay: number): AudioBuffer {
+    const key = `${decay}:${predelay}`;
+    let buffer = this.impulseResponses.get(key);
+    if (!buffer) {
+      if (this.impulseResponses.size >= UnifiedAudioEngine.MAX_IMPULSE_RESPONSES) {
+        this.impulseResponses.delete(this.impulseResponses.keys().next().value!);
+      }
+      buffer = this.generateImpulseResponse(decay, predelay);
+      this.impulseResponses.set(key, buffer);
+    }
+    return buffer;
+  }
+
   /**
    * Generate an impulse response for convolution reverb
    */
@@ -1550,7 +2093,9 @@ export class UnifiedAudioEngine {
   }
 
   /**
-   * Rebuild the Tone.Part based on the current pattern
+   * Rebuild the Tone.Part based on the current pattern.
+   * In song arrangement mode every section pass is laid out back-to-back and the
+   * whole song loops; otherwise the single pattern loops.
    */
   private rebuildTonePart(): void {
     if (!this.currentPattern) return;
@@ -1563,143 +2108,427 @@ export class UnifiedAudioEngine {
 
     const events: any[] = [];
     const totalSteps = this.currentPattern.totalSteps;
-    const bpm = this.currentPattern.tempo;
-    const stepInterval = 60 / bpm / 4; // 16th note in seconds
+    // Tone converts event seconds to ticks at the live BPM, which differs from the
+    // pattern tempo mid-ramp
+    const bpm = Tone.Transport.bpm.value || this.currentPattern.tempo;
+    const sixteenth = getSixteenthDuration(bpm); // totalSteps and song positions count 16ths
+    const timeline = getSongTimeline(this.currentPattern);
+
+    if (timeline.length > 0) {
+      // Song mode: global tracks play under every section
+      timeline.forEach(entry => {
+        const section = this.currentPattern!.sections![entry.section];
+        const tracks = { ...this.currentPattern!.instruments, ...section.instruments };
+        const sectionStart = entry.startStep * sixteenth;
+        Object.entries(tracks).forEach(([instrumentName, instrumentData]) => {
+          this.buildInstrumentEvents(instrumentName, instrumentData, entry.steps * sixteenth, sixteenth, sectionStart).forEach(event => {
+            events.push({ ...event, time: sectionStart + event.time, section: entry.section });
+          });
+        });
+      });
+    } else {
+      Object.entries(this.currentPattern.instruments).forEach(([instrumentName, instrumentData]) => {
+        events.push(...this.buildInstrumentEvents(instrumentName, instrumentData, totalSteps * sixteenth, sixteenth));
+      });
+    }
 
-    // Calculate events for each instrument
-    Object.entries(this.currentPattern.instruments).forEach(([instrumentName, instrumentData]) => {
-      if (instrumentData.steps.length === 0) return;
+    // Automation lanes are global, so in song mode they restart with every section pass
+    const lanes = Object.values(this.currentPattern.automation || {});
+    const passes = timeline.length > 0 ? timeline : [{ startStep: 0, steps: totalSteps }];
+    passes.forEach(pass => {
+      lanes.forEach(lane => {
+        this.buildAutomationEvents(lane, pass.steps * sixteenth, sixteenth).forEach(event => {
+          events.push({ ...event, time: pass.startStep * sixteenth + event.time });
+        });
+      });
+    });
+    this.restoreAutomatedParams(true);
+    this.automatedLanes = new Map(lanes.map(lane => [lane.key, lane]));
+
+    // Bar starts keep synced LFOs on the live tempo and restart LFOs that reset their phase
+    const lfos = Object.values(this.currentPattern.lfoModules || {});
+    if (lfos.some(lfo => lfo.sync || lfo.reset)) {
+      const barLength = getBarSteps(this.currentPattern.timeSignature) * sixteenth;
+      const loopLength = getSongLength(this.currentPattern) * sixteenth;
+      for (let bar = 0; bar * barLength < loopLength - 1e-9; bar++) {
+        events.push({ time: bar * barLength, lfoBar: bar });
+      }
+    }
 
-      const steps = instrumentData.steps;
-      const velocities = (instrumentData as any).velocities || [];
+    // Create the part
+    this.tonePart = new Tone.Part((time, event) => {
+      if (event.automation) {
+        this.applyAutomationValue(event.automation, event.value, time);
+        return;
+      }
+      if (event.lfoBar !== undefined) {
+        this.onLFOBar(event.lfoBar, time);
+        return;
+      }
 
-      // Use the max of instrument steps and total pattern steps for scheduling
-      const scheduleLimit = Math.max(steps.length, totalSteps);
+      // Conditional trigs (probability, loop ratio, fill, pre) may skip this pass
+      if (event.condition && !this.shouldTrigFire(event)) return;
 
-      for (let step = 0; step < scheduleLimit; step++) {
-        // Determine hit based on overflow mode
-        let isHit = false;
-        let velocity = 0.7;
+      // Diagnostic log (optional, keep for debugging groove)
+      if (event.grooveOffset !== 0) {
+        // Only log sometimes to avoid spam
+        // console.log(`[Groove] ${event.instrument} step ${event.step} offset ${event.grooveOffset.toFixed(4)}s`);
+      }
 
-        if (this.overflowMode === 'loop') {
-          const patternStep = step % steps.length;
-          isHit = steps[patternStep] === true;
-          velocity = velocities[patternStep] ?? 0.7;
-        } else {
-          if (step < steps.length) {
-            isHit = steps[step] === true;
-            velocity = velocities[step] ?? 0.7;
-          }
-        }
+      this.currentVelocity = event.velocity;
+      this.currentPitch = event.pitch ?? null;
+      this.currentDuration = event.duration ?? null;
+      this.currentSlice = event.slice ?? null;
+      this.currentPosition = event.position ?? 0;
+      this.scheduleInstrumentHit(event.instrument, time);
+      this.currentVelocity = 0.7;
+      this.currentPitch = null;
+      this.currentDuration = null;
+      this.currentSlice = null;
+      this.currentPosition = 0;
+    }, events);
 
-        if (isHit) {
-          const isOddStep = step % 2 === 1;
-          const baseTime = step * stepInterval;
+    // Configure looping
+    this.tonePart.loop = true;
+    this.tonePart.loopEnd = getSongLength(this.currentPattern) * sixteenth;
+    this.tonePart.start(0);
 
-          // Apply Groove/Swing
-          const groove = this.currentPattern?.grooveModules?.[instrumentName.toLowerCase()] ||
-                         this.currentPattern?.grooveModules?.['master'];
+    console.log(`[Tone] Rebuilt part with ${events.length} events, loop length: ${this.tonePart.loopEnd.toFixed(3)}s`);
+  }
 
-          let grooveOffset = 0;
-          if (groove) {
-            const amount = groove.amount;
+  /**
+   * Compute the hit events for one instrument over a loop of `loopLength`
+   * seconds, with groove offsets applied. Steps last one 16th unless the line
+   * sets another resolution. Event times are relative to the loop start.
+   * `sectionStart` is set for a song section pass, which doesn't loop on itself.
+   */
+  private buildInstrumentEvents(
+    instrumentName: string,
+    instrumentData: ParsedPattern['instruments'][string],
+    loopLength: number,
+    sixteenth: number,
+    sectionStart?: number
+  ): any[] {
+    const events: any[] = [];
+    if (instrumentData.steps.length === 0) return events;
+
+    const steps = instrumentData.steps;
+    const velocities = (instrumentData as any).velocities || [];
+    const pitches = instrumentData.pitches;
+    const articulations = instrumentData.articulations;
+    const ratchets = instrumentData.ratchets;
+    const conditions = instrumentData.conditions;
+    const lengths = instrumentData.lengths;
+    const articulationCfg = this.currentPattern?.articulationModules?.[instrumentName.toLowerCase()];
+    const flamLead = articulationCfg?.flam ?? 0.03;
+    const rollHits = articulationCfg?.roll ?? 3;
+    const loopCfg = this.currentPattern?.loopModules?.[instrumentName.toLowerCase()];
+    // 16ths covered by one slice of a `loop` line
+    const sliceSpan = loopCfg ? (loopCfg.bars * getBarSteps(this.currentPattern?.timeSignature)) / loopCfg.slices : 0;
+    const modCfg = this.currentPattern?.modModules?.[instrumentName.toLowerCase()];
+
+    // Use the max of instrument steps and the steps that fit in the loop for scheduling
+    const stepSpan = getStepSpan(instrumentData);
+    const stepInterval = sixteenth * stepSpan;
+    const scheduleLimit = Math.max(steps.length, Math.ceil(loopLength / stepInterval - 1e-9));
+
+    for (let step = 0; step < scheduleLimit; step++) {
+      // Determine hit based on overflow mode
+      let isHit = false;
+      let velocity = 0.7;
+      let pitch: number | undefined;
+      let articulation: StepArticulation | null = null;
+      let ratchet: StepRatchet | null = null;
+      let condition: TrigCondition | null = null;
+      let length = 1;
+
+      if (this.overflowMode === 'loop') {
+        const patternStep = step % steps.length;
+        isHit = steps[patternStep] === true;
+        velocity = velocities[patternStep] ?? 0.7;
+        pitch = pitches?.[patternStep];
+        articulation = articulations?.[patternStep] ?? null;
+        ratchet = ratchets?.[patternStep] ?? null;
+        condition = conditions?.[patternStep] ?? null;
+        length = lengths?.[patternStep] || 1;
+      } else {
+        if (step < steps.length) {
+          isHit = steps[step] === true;
+          velocity = velocities[step] ?? 0.7;
+          pitch = pitches?.[step];
+          articulation = articulations?.[step] ?? null;
+          ratchet = ratchets?.[step] ?? null;
+          condition = conditions?.[step] ?? null;
+          length = lengths?.[step] || 1;
+        }
+      }
 
-            // Determine if this step should be affected by groove
-            let isTargeted = false;
-            if (groove.type === 'swing') {
-              if (groove.steps) {
-                // Explicit steps override subdivision-based targeting
-                const targetSteps = groove.steps;
-                if (targetSteps === 'odd') {
-                  isTargeted = isOddStep;
-                } else if (targetSteps === 'even') {
-                  isTargeted = !isOddStep;
-                } else if (targetSteps === 'all') {
-                  isTargeted = true;
-                } else if (targetSteps.includes(',')) {
-                  const indices = targetSteps.split(',').map(s => parseInt(s.trim()));
-                  isTargeted = indices.includes(step);
-                } else if (!isNaN(parseInt(targetSteps))) {
-                  isTargeted = parseInt(targetSteps) === step;
-                }
-              } else {
-                // Subdivision-based targeting (default: 8n for audible swing)
-                const subdivision = groove.subdivision || '8n';
-                const stepsPerSubdiv = subdivision === '4n' ? 4 : subdivision === '8n' ? 2 : 1;
-                isTargeted = Math.floor(step / stepsPerSubdiv) % 2 === 1;
-              }
-            } else {
-              // Other grooves (humanize, rush, drag) usually apply to all or custom
-              const targetSteps = groove.steps || 'all';
-              if (targetSteps === 'all') {
-                isTargeted = true;
-              } else if (targetSteps === 'odd') {
+      if (isHit) {
+        const isOddStep = step % 2 === 1;
+        const baseTime = step * stepInterval;
+
+        // Apply Groove/Swing
+        const groove = this.currentPattern?.grooveModules?.[instrumentName.toLowerCase()] ||
+                       this.currentPattern?.grooveModules?.['master'];
+
+        let grooveOffset = 0;
+        if (groove) {
+          const amount = groove.amount;
+
+          // Determine if this step should be affected by groove
+          let isTargeted = false;
+          if (groove.type === 'swing') {
+            if (groove.steps) {
+              // Explicit steps override subdivision-based targeting
+              const targetSteps = groove.steps;
+              if (targetSteps === 'odd') {
                 isTargeted = isOddStep;
               } else if (targetSteps === 'even') {
                 isTargeted = !isOddStep;
+              } else if (targetSteps === 'all') {
+                isTargeted = true;
               } else if (targetSteps.includes(',')) {
                 const indices = targetSteps.split(',').map(s => parseInt(s.trim()));
                 isTargeted = indices.includes(step);
+              } else if (!isNaN(parseInt(targetSteps))) {
+                isTargeted = parseInt(targetSteps) === step;
               }
+            } else {
+              // Subdivision-based targeting (default: 8n for audible swing)
+              const subdivision = groove.subdivision || '8n';
+              const stepsPerSubdiv = (subdivision === '4n' ? 4 : subdivision === '8n' ? 2 : 1) / stepSpan;
+              isTargeted = Math.floor(step / stepsPerSubdiv) % 2 === 1;
+            }
+          } else {
+            // Other grooves (humanize, rush, drag) usually apply to all or custom
+            const targetSteps = groove.steps || 'all';
+            if (targetSteps === 'all') {
+              isTargeted = true;
+            } else if (targetSteps === 'odd') {
+              isTargeted = isOddStep;
+            } else if (targetSteps === 'even') {
+              isTargeted = !isOddStep;
+            } else if (targetSteps.includes(',')) {
+              const indices = targetSteps.split(',').map(s => parseInt(s.trim()));
+              isTargeted = indices.includes(step);
             }
+          }
 
-            if (isTargeted) {
-              if (groove.type === 'swing') {
-                // Scale offset relative to the subdivision interval
-                const subdivision = groove.subdivision || '8n';
-                const stepsPerSubdiv = subdivision === '4n' ? 4 : subdivision === '8n' ? 2 : 1;
-                grooveOffset = amount * (stepInterval * stepsPerSubdiv) * 0.33;
-              } else if (groove.type === 'humanize') {
-                grooveOffset = (Math.random() - 0.5) * amount * 0.05;
-              } else if (groove.type === 'rush') {
-                grooveOffset = -amount * 0.03;
-              } else if (groove.type === 'drag') {
-                grooveOffset = amount * 0.03;
-              }
+          if (isTargeted) {
+            if (groove.type === 'swing') {
+              // Scale offset relative to the subdivision interval
+              const subdivision = groove.subdivision || '8n';
+              const stepsPerSubdiv = (subdivision === '4n' ? 4 : subdivision === '8n' ? 2 : 1) / stepSpan;
+              grooveOffset = amount * (stepInterval * stepsPerSubdiv) * 0.33;
+            } else if (groove.type === 'humanize') {
+              grooveOffset = (Math.random() - 0.5) * amount * 0.05;
+            } else if (groove.type === 'rush') {
+              grooveOffset = -amount * 0.03;
+            } else if (groove.type === 'drag') {
+              grooveOffset = amount * 0.03;
             }
+          }
 
-            // Template groove: uses per-step offsets from a named preset
-            if (groove.type === 'template' && groove.templateName) {
-              const template = getGrooveTemplate(groove.templateName);
-              if (template) {
-                const applied = applyGrooveTemplate(template, step, amount);
-                grooveOffset = applied.timingOffset * stepInterval;
-                velocity = velocity * applied.velocityScale;
-              }
+          // Template groove: uses per-step offsets from a named preset
+          if (groove.type === 'template' && groove.templateName) {
+            const template = getGrooveTemplate(groove.templateName);
+            if (template) {
+              const applied = applyGrooveTemplate(template, step, amount);
+              grooveOffset = applied.timingOffset * stepInterval;
+              velocity = velocity * applied.velocityScale;
             }
           }
+        }
 
-          events.push({
-            time: baseTime + grooveOffset,
-            instrument: instrumentName,
-            velocity: velocity,
-            step,
-            isOddStep,
-            grooveOffset
-          });
+        // Loop slices follow `order=`, else the slice that sits under the step
+        const slice = loopCfg && (loopCfg.order
+          ? loopCfg.order[step % loopCfg.order.length]
+          : Math.floor((step * stepSpan) / sliceSpan + 1e-9) % loopCfg.slices);
+
+        const hit = {
+          time: baseTime + grooveOffset,
+          instrument: instrumentName,
+          velocity: velocity,
+          step,
+          isOddStep,
+          grooveOffset,
+          ...(pitch && { pitch }),
+          ...(loopCfg && { slice }),
+          ...(modCfg && { position: (step % steps.length) / Math.max(1, steps.length - 1) }),
+          ...(condition && { condition })
+        };
+
+        if (ratchet || articulation === 'roll') {
+          // Ratchet / roll: evenly spaced hits filling the step
+          const hits = ratchet?.hits ?? rollHits;
+          const ramp = ratchet?.ramp ?? 'none';
+          for (let i = 0; i < hits; i++) {
+            // Ramps sweep between 40% and 100% of the step velocity
+            const position = i / (hits - 1);
+            const rampScale = ramp === 'up' ? 0.4 + 0.6 * position : ramp === 'down' ? 1 - 0.6 * position : 1;
+            events.push({
+              ...hit,
+              time: hit.time + (i * stepInterval) / hits,
+              velocity: velocity * rampScale,
+              ...(i > 0 && { sub: true })
+            });
+          }
+        } else {
+          if (articulation === 'flam') {
+            // Flam: softer grace hit just ahead of the main hit. On step 0 it wraps to the
+            // loop end, or in a song leads into the section (never before the song start)
+            const graceTime = sectionStart === undefined
+              ? (hit.time - flamLead + loopLength) % loopLength
+              : Math.max(hit.time - flamLead, -sectionStart);
+            events.push({ ...hit, time: graceTime, velocity: velocity * 0.5, grace: true });
+          }
+          // Tied hits (x---) hold for their whole length; ratchets and rolls stay short
+          events.push(length > 1 ? { ...hit, duration: length * stepInterval } : hit);
         }
       }
+    }
+
+    return events;
+  }
+
+  /**
+   * Compute the parameter events for one automation lane over a loop of
+   * `loopLength` seconds. Held ('.') steps schedule nothing, so the param keeps
+   * its last value; short lanes wrap like short sequences in loop mode.
+   */
+  private buildAutomationEvents(lane: AutomationLane, loopLength: number, sixteenth: number): any[] {
+    const events: any[] = [];
+    const stepInterval = sixteenth * getStepSpan(lane);
+    const stepCount = Math.ceil(loopLength / stepInterval - 1e-9);
+    const scheduleLimit = this.overflowMode === 'loop' ? stepCount : Math.min(stepCount, lane.values.length);
+
+    for (let step = 0; step < scheduleLimit; step++) {
+      const value = lane.values[step % lane.values.length];
+      if (value === null) continue;
+      events.push({ time: step * stepInterval, step, automation: lane, value });
+    }
+    return events;
+  }
+
+  /**
+   * Set an automated param on an instrument chain at `time`. Effect targets
+   * only take effect once the instrument has that effect's line.
+   */
+  private applyAutomationValue(lane: Pick<AutomationLane, 'name' | 'target'>, value: number, time: number): void {
+    const chain = this.ensureInstrumentChain(lane.name);
+    if (!chain) return;
+    switch (lane.target) {
+      case 'amp':
+        chain.preGain.gain.setValueAtTime(this.stepsToLinear(value), time);
+        break;
+      case 'filter.freq':
+        chain.filter.frequency.setValueAtTime(value, time);
+        break;
+      case 'filter.q':
+        chain.filter.Q.setValueAtTime(value, time);
+        break;
+      case 'pan':
+        chain.pan.pan.setValueAtTime(value, time);
+        break;
+      case 'delay.time':
+        chain.inserts.delay?.delay?.delayTime.setValueAtTime(value, time);
+        break;
+      case 'delay.feedback':
+        chain.inserts.delay?.feedback?.gain.setValueAtTime(value, time);
+        break;
+      case 'delay.mix':
+        chain.inserts.delay?.dry.gain.setValueAtTime(1 - value, time);
+        chain.inserts.delay?.wet.gain.setValueAtTime(value, time);
+        break;
+      case 'reverb.mix':
+        chain.inserts.reverb?.dry.gain.setValueAtTime(1 - value, time);
+        chain.inserts.reverb?.wet.gain.setValueAtTime(value, time);
+        break;
+      case 'distort.mix':
+        chain.inserts.distort?.dry.gain.setValueAtTime(1 - value, time);
+        chain.inserts.distort?.wet.gain.setValueAtTime(value, time);
+        break;
+      case 'chorus.rate':
+        chain.inserts.chorus?.lfo?.frequency.setValueAtTime(value, time);
+        break;
+      case 'chorus.depth':
+        chain.inserts.chorus?.lfoGain?.gain.setValueAtTime(value * 0.005, time);
+        break;
+      case 'chorus.mix':
+        chain.inserts.chorus?.dry.gain.setValueAtTime(1 - value, time);
+        chain.inserts.chorus?.wet.gain.setValueAtTime(value, time);
+        break;
+      case 'phaser.rate':
+        chain.inserts.phaser?.lfo?.frequency.setValueAtTime(value, time);
+        break;
+      case 'phaser.depth':
+        chain.inserts.phaser?.lfoGain?.gain.setValueAtTime(value * 2000, time);
+        break;
+      case 'phaser.mix':
+        chain.inserts.phaser?.dry.gain.setValueAtTime(1 - value, time);
+        chain.inserts.phaser?.wet.gain.setValueAtTime(value, time);
+        break;
+    }
+  }
+
+  /**
+   * Return automated params to their module (or default) values. With
+   * `removedOnly`, only lanes missing from the current pattern are reset, so
+   * live edits don't interrupt a running sweep.
+   */
+  private restoreAutomatedParams(removedOnly: boolean): void {
+    if (!Tone.context) return;
+    const now = (Tone.context.rawContext as AudioContext).currentTime;
+    this.automatedLanes.forEach((lane, key) => {
+      if (removedOnly && this.currentPattern?.automation?.[key]) return;
+      this.applyAutomationValue(lane, getAutomationBaseValue(this.currentPattern, lane.name, lane.target), now);
     });
+    if (!removedOnly) this.automatedLanes.clear();
+  }
 
-    // Create the part
-    this.tonePart = new Tone.Part((time, event) => {
-      // Diagnostic log (optional, keep for debugging groove)
-      if (event.grooveOffset !== 0) {
-        // Only log sometimes to avoid spam
-        // console.log(`[Groove] ${event.instrument} step ${event.step} offset ${event.grooveOffset.toFixed(4)}s`);
-      }
+  /**
+   * Decide whether a conditional event plays on this pass of the loop.
+   * Main hits advance the trig's pass counter; grace hits (which precede their
+   * main hit) and ratchet/roll sub-hits (which follow it) reuse its decision.
+   */
+  private shouldTrigFire(event: any): boolean {
+    const trackKey = `${event.section ?? ''}:${event.instrument}`;
+    const key = `${trackKey}:${event.step}`;
+    const fired = this.trigIterations.get(key) ?? 0;
+    let iteration = fired;
+    if (event.sub) {
+      iteration = Math.max(0, fired - 1);
+    } else if (!event.grace) {
+      this.trigIterations.set(key, fired + 1);
+    }
 
-      this.currentVelocity = event.velocity;
-      this.scheduleInstrumentHit(event.instrument, time);
-      this.currentVelocity = 0.7;
-    }, events);
+    const decisionKey = `${key}#${iteration}`;
+    const cached = this.trigDecisions.get(decisionKey);
+    if (cached !== undefined) return cached;
 
-    // Configure looping
-    this.tonePart.loop = true;
-    this.tonePart.loopEnd = totalSteps * stepInterval;
-    this.tonePart.start(0);
+    const result = evaluateTrigCondition(event.condition, {
+      seed: this.currentPattern?.seed ?? DEFAULT_TRIG_SEED,
+      key,
+      iteration,
+      fill: this.fillMode,
+      previous: this.lastTrigResults.get(trackKey) ?? null,
+    });
+    this.trigDecisions.set(decisionKey, result);
+    this.trigDecisions.delete(`${key}#${iteration - 2}`);
+    // PRE trigs follow the last other condition rather than chaining off each other
+    if (event.condition.type !== 'pre') {
+      this.lastTrigResults.set(trackKey, result);
+    }
+    return result;
+  }
 
-    console.log(`[Tone] Rebuilt part with ${events.length} events, loop length: ${this.tonePart.loopEnd.toFixed(3)}s`);
+  /**
+   * Forget loop passes and decisions so conditional trigs start from the first loop
+   */
+  private resetTrigState(): void {
+    this.trigIterations.clear();
+    this.trigDecisions.clear();
+    this.lastTrigResults.clear();
   }
 
   /**
@@ -1714,6 +2543,69 @@ export class UnifiedAudioEngine {
    * Obsolete custom scheduling method removed — Tone.Part handles this
    */
 
+  /**
+   * Dip every chain sidechained to this instrument: down by `depth` over `attack`,
+   * then back to unity over `release`. setTargetAtTime glides on from wherever the
+   * previous dip left the gain, so hits closer together than the release don't click.
+   */
+  private scheduleDucking(source: string, time: number): void {
+    Object.values(this.currentPattern?.duckModules || {}).forEach((duck: DuckModule) => {
+      if (duck.sidechain !== source) return;
+      const chain = this.instrumentChains.get(duck.name);
+      if (!chain) return;
+      chain.duck.gain.setTargetAtTime(1 - duck.depth, time, duck.attack / 3);
+      chain.duck.gain.setTargetAtTime(1, time + duck.attack, duck.release / 3);
+    });
+  }
+
+  private resetDuck(duck: GainNode, now: number): void {
+    duck.gain.cancelScheduledValues(now);
+    duck.gain.setValueAtTime(1, now);
+  }
+
+  /**
+   * Cut voices of the other choke group members that are still ringing at `time`
+   * with a short fade. Hits of the same instrument never choke each other.
+   */
+  private chokeOtherVoices(group: string, instrument: string, time: number): void {
+    this.chokeVoices = this.chokeVoices.filter(voice => {
+      if (voice.group !== group || voice.instrument === instrument || voice.startTime >= time) return true;
+      voice.choke(time);
+      return false;
+    });
+  }
+
+  private trackChokeVoice(
+    group: string,
+    instrument: string,
+    startTime: number,
+    gate: GainNode,
+    sources: (AudioScheduledSourceNode | null)[]
+  ): void {
+    const playing = sources.filter((src): src is AudioScheduledSourceNode => src !== null);
+    const voice = {
+      group,
+      instrument,
+      startTime,
+      choke: (at: number) => {
+        const end = at + UnifiedAudioEngine.CHOKE_FADE;
+        gate.gain.setValueAtTime(1, at);
+        gate.gain.linearRampToValueAtTime(0, end);
+        playing.forEach(src => {
+          try { src.stop(end); } catch { /* ignore */ }
+        });
+      }
+    };
+    this.chokeVoices.push(voice);
+    playing.forEach(src => {
+      if (typeof src.addEventListener === 'function') {
+        src.addEventListener('ended', () => {
+          this.chokeVoices = this.chokeVoices.filter(v => v !== voice);
+        });
+      }
+    });
+  }
+
   /**
    * Schedule an instrument hit
    */
@@ -1723,37 +2615,113 @@ export class UnifiedAudioEngine {
     const ac = Tone.context.rawContext as AudioContext;
     const envelope = ac.createGain();
     const lowerName = instrumentName.toLowerCase();
-    // Determine velocity for this hit (default 0.7 = normal)
-    const velocity = this.currentVelocity;
+    const modRoutes = this.getModRoutes(lowerName);
+    // Voice level for this hit: its velocity (default 0.7 = normal) unless `mod` lines say otherwise
+    const level = this.getModLevel(modRoutes);
+    // Pitch for this hit: per-step note, else the instrument's note module
+    const hitPitch = this.currentPitch ?? this.currentPattern?.noteModules?.[lowerName]?.pitch ?? null;
+    this.scheduleDucking(lowerName, time);
+    const chokeGroup = Object.values(this.currentPattern?.chokeModules || {})
+      .find(group => group.members.includes(lowerName))?.name ?? null;
+    if (chokeGroup) this.chokeOtherVoices(chokeGroup, lowerName, time);
+    // Envelope `mod` routes onto amp shape their own gain after the envelope
+    const ampMod = modRoutes.some(route => route.destination === 'amp' && this.getModEnvelope(route, lowerName, time)) ? ac.createGain() : null;
+    if (ampMod) envelope.connect(ampMod);
+    // Choke group voices pass through their own gate so a choke can fade them without touching the envelope
+    const gate = chokeGroup ? ac.createGain() : null;
+    if (gate) (ampMod ?? envelope).connect(gate);
+    const voiceOut = gate ?? ampMod ?? envelope;
     const hasInstrumentEffects = !!(
       this.currentPattern?.eqModules?.[lowerName] ||
       this.currentPattern?.ampModules?.[lowerName] ||
       this.currentPattern?.compModules?.[lowerName] ||
       this.currentPattern?.filterModules?.[lowerName] ||
-      this.currentPattern?.panModules?.[lowerName]
+      this.currentPattern?.panModules?.[lowerName] ||
+      this.currentPattern?.sendModules?.[lowerName] ||
+      this.currentPattern?.duckModules?.[lowerName] ||
+      this.currentPattern?.distortModules?.[lowerName] ||
+      this.currentPattern?.chorusModules?.[lowerName] ||
+      this.currentPattern?.phaserModules?.[lowerName] ||
+      this.currentPattern?.delayModules?.[lowerName] ||
+      this.currentPattern?.reverbModules?.[lowerName] ||
+      this.currentPattern?.modModules?.[lowerName] ||
+      Object.values(this.currentPattern?.automation || {}).some(lane => lane.name === lowerName)
     );
     const targetChain = hasInstrumentEffects ? this.ensureInstrumentChain(lowerName) : null;
     if (targetChain) {
-      envelope.connect(targetChain.input);
+      voiceOut.connect(targetChain.input);
     } else if (this.masterChainInput) {
-      envelope.connect(this.masterChainInput);
+      voiceOut.connect(this.masterChainInput);
     } else {
       // Fallback
-      envelope.connect(this.masterGain);
+      voiceOut.connect(this.masterGain);
     }
 
-    // Prefer sample playback when available (explicit mapping or matching name)
-    const mappedSampleName = this.currentPattern?.sampleModules?.[lowerName]?.sample || lowerName;
-    const sampleBuffer = this.sampleBuffers.get(mappedSampleName);
+    // Synth and FM lines come first, then a drum voice, then loop slices or sample playback when available (explicit mapping or matching name)
+    const synthCfg = this.currentPattern?.synthModules?.[lowerName];
+    const fmCfg = this.currentPattern?.fmModules?.[lowerName];
+    const loopCfg = this.currentPattern?.loopModules?.[lowerName];
+    const mappedSampleName = loopCfg?.sample || this.currentPattern?.sampleModules?.[lowerName]?.sample || lowerName;
+    const sampleBuffer = this.drumBuffers.get(lowerName)?.buffer ?? this.getSampleBuffer(mappedSampleName, lowerName);
     let scheduledOsc: OscillatorNode | null = null;
     let scheduledNoise: AudioBufferSourceNode | null = null;
-
-    if (sampleBuffer) {
+    // Oscillators beyond the first for voices that layer several
+    let extraOscs: OscillatorNode[] = [];
+
+    if (synthCfg) {
+      const [mainOsc, ...layers] = this.scheduleSynthVoice(synthCfg, lowerName, envelope, time, hitPitch ?? 440, level);
+      scheduledOsc = mainOsc;
+      extraOscs = layers;
+      this.activeOscillators.push(mainOsc, ...layers);
+    } else if (fmCfg) {
+      const [carrier, modulator] = this.scheduleFmVoice(fmCfg, lowerName, envelope, time, hitPitch ?? 440, level);
+      scheduledOsc = carrier;
+      extraOscs = [modulator];
+      this.activeOscillators.push(carrier, modulator);
+    } else if (sampleBuffer) {
+      // A loop line takes the place of the sample line's options
+      const sampleCfg = loopCfg ? undefined : this.currentPattern?.sampleModules?.[lowerName];
       const source = Tone.context.createBufferSource();
-      source.buffer = sampleBuffer;
+      source.buffer = sampleCfg?.reverse ? this.getReversedBuffer(sampleBuffer) : sampleBuffer;
+      let playbackRate: number;
+      let regionStart: number;
+      let regionEnd: number;
+      if (loopCfg) {
+        // One slice of the loop, re-pitched so the whole loop lasts `bars` bars at the current tempo
+        const sliceLength = sampleBuffer.duration / loopCfg.slices;
+        regionStart = (this.currentSlice ?? 0) * sliceLength;
+        regionEnd = regionStart + sliceLength;
+        playbackRate = sampleBuffer.duration / this.getLoopDuration(loopCfg);
+      } else {
+        // Per-step notes repitch the sample relative to its root (note module, else C4), `pitch=` on top
+        const rootPitch = this.currentPattern?.noteModules?.[lowerName]?.pitch ?? UnifiedAudioEngine.SAMPLE_ROOT_PITCH;
+        const noteRate = this.currentPitch ? this.currentPitch / rootPitch : 1;
+        playbackRate = noteRate * Math.pow(2, (sampleCfg?.pitch ?? 0) / 12);
+        // Played region in buffer seconds; in a reversed buffer the region sits mirrored
+        regionStart = (sampleCfg?.start ?? 0) * sampleBuffer.duration;
+        regionEnd = (sampleCfg?.end ?? 1) * sampleBuffer.duration;
+      }
+      if (playbackRate !== 1) {
+        source.playbackRate.setValueAtTime(playbackRate, time);
+      }
+      const regionLength = regionEnd - regionStart;
+      const offset = sampleCfg?.reverse ? sampleBuffer.duration - regionEnd : regionStart;
+      if (sampleCfg?.loop) {
+        source.loop = true;
+        source.loopStart = offset;
+        source.loopEnd = offset + regionLength;
+      }
+      // A looped region rings like a sample that never ends: to the end of a tied note, else the 1.5s cut
+      const sampleDuration = sampleCfg?.loop
+        ? Math.max(1.5, this.currentDuration ?? 0)
+        : regionLength / playbackRate;
+      const startSource = () => {
+        if (sampleCfg?.loop) source.start(time, offset);
+        else source.start(time, offset, regionLength);
+      };
       source.connect(envelope);
-      const gainSteps = this.currentPattern?.sampleModules?.[lowerName]?.gain ?? 0;
-      const baseGain = this.stepsToLinear(gainSteps) * velocity;
+      const gainSteps = sampleCfg?.gain ?? 0;
+      const baseGain = this.stepsToLinear(gainSteps) * level;
       const envCfg = this.currentPattern?.envelopeModules?.[lowerName];
       if (envCfg) {
         // ADSR envelope
@@ -1762,16 +2730,28 @@ export class UnifiedAudioEngine {
         envelope.gain.setValueAtTime(0, time);
         envelope.gain.linearRampToValueAtTime(peakGain, time + envCfg.attack);
         envelope.gain.linearRampToValueAtTime(sustainGain, time + envCfg.attack + envCfg.decay);
-        // Hold sustain, then release
-        const holdEnd = time + Math.max(sampleBuffer.duration, envCfg.attack + envCfg.decay + 0.05);
+        // Hold sustain (to the end of a tied note, else of the sample), then release
+        const holdEnd = this.currentDuration !== null
+          ? this.getReleaseStart(time, envCfg, 0.05)
+          : time + Math.max(sampleDuration, envCfg.attack + envCfg.decay + 0.05);
         envelope.gain.setValueAtTime(sustainGain, holdEnd);
         envelope.gain.linearRampToValueAtTime(0.001, holdEnd + envCfg.release);
-        source.start(time);
+        startSource();
         source.stop(holdEnd + envCfg.release + 0.01);
       } else {
-        envelope.gain.setValueAtTime(baseGain, time);
-        source.start(time);
-        source.stop(time + Math.min(sampleBuffer.duration + 0.01, 1.5));
+        // Tied hits may ring past the usual 1.5s cut, up to the end of the sample
+        const stopTime = time + Math.min(sampleDuration + 0.01, Math.max(1.5, this.currentDuration ?? 0));
+        const fade = Math.min(sampleCfg?.fade ?? 0, (stopTime - time) / 2);
+        if (fade > 0) {
+          envelope.gain.setValueAtTime(0, time);
+          envelope.gain.linearRampToValueAtTime(baseGain, time + fade);
+          envelope.gain.setValueAtTime(baseGain, stopTime - fade);
+          envelope.gain.linearRampToValueAtTime(0, stopTime);
+        } else {
+          envelope.gain.setValueAtTime(baseGain, time);
+        }
+        startSource();
+        source.stop(stopTime);
       }
       // Track and schedule
       this.activeNoiseSources.push(source);
@@ -1786,22 +2766,22 @@ export class UnifiedAudioEngine {
 
       switch (lowerName) {
         case 'kick': {
-          const noteFreq = this.currentPattern?.noteModules?.[lowerName]?.pitch ?? 60;
+          const noteFreq = hitPitch ?? 60;
           oscillator.type = 'sine';
           oscillator.frequency.setValueAtTime(noteFreq, time);
           oscillator.frequency.exponentialRampToValueAtTime(noteFreq * 0.5, time + 0.1);
           const envK = this.currentPattern?.envelopeModules?.[lowerName];
           if (envK) {
             envelope.gain.setValueAtTime(0, time);
-            envelope.gain.linearRampToValueAtTime(0.8 * velocity, time + envK.attack);
-            envelope.gain.linearRampToValueAtTime(0.8 * velocity * envK.sustain, time + envK.attack + envK.decay);
-            const endK = time + envK.attack + envK.decay + 0.05;
-            envelope.gain.setValueAtTime(0.8 * velocity * envK.sustain, endK);
+            envelope.gain.linearRampToValueAtTime(0.8 * level, time + envK.attack);
+            envelope.gain.linearRampToValueAtTime(0.8 * level * envK.sustain, time + envK.attack + envK.decay);
+            const endK = this.getReleaseStart(time, envK, 0.05);
+            envelope.gain.setValueAtTime(0.8 * level * envK.sustain, endK);
             envelope.gain.linearRampToValueAtTime(0.001, endK + envK.release);
             oscillator.start(time);
             oscillator.stop(endK + envK.release + 0.01);
           } else {
-            envelope.gain.setValueAtTime(0.8 * velocity, time);
+            envelope.gain.setValueAtTime(0.8 * level, time);
             envelope.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
             oscillator.start(time);
             oscillator.stop(time + 0.2);
@@ -1822,15 +2802,15 @@ export class UnifiedAudioEngine {
           const envS = this.currentPattern?.envelopeModules?.[lowerName];
           if (envS) {
             envelope.gain.setValueAtTime(0, time);
-            envelope.gain.linearRampToValueAtTime(0.3 * velocity, time + envS.attack);
-            envelope.gain.linearRampToValueAtTime(0.3 * velocity * envS.sustain, time + envS.attack + envS.decay);
-            const endS = time + envS.attack + envS.decay + 0.02;
-            envelope.gain.setValueAtTime(0.3 * velocity * envS.sustain, endS);
+            envelope.gain.linearRampToValueAtTime(0.3 * level, time + envS.attack);
+            envelope.gain.linearRampToValueAtTime(0.3 * level * envS.sustain, time + envS.attack + envS.decay);
+            const endS = this.getReleaseStart(time, envS, 0.02);
+            envelope.gain.setValueAtTime(0.3 * level * envS.sustain, endS);
             envelope.gain.linearRampToValueAtTime(0.001, endS + envS.release);
             noise.start(time);
             noise.stop(endS + envS.release + 0.01);
           } else {
-            envelope.gain.setValueAtTime(0.3 * velocity, time);
+            envelope.gain.setValueAtTime(0.3 * level, time);
             envelope.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
             noise.start(time);
             noise.stop(time + 0.1);
@@ -1843,14 +2823,15 @@ export class UnifiedAudioEngine {
           const envH = this.currentPattern?.envelopeModules?.[lowerName];
           if (envH) {
             envelope.gain.setValueAtTime(0, time);
-            envelope.gain.linearRampToValueAtTime(0.1 * velocity, time + envH.attack);
-            envelope.gain.linearRampToValueAtTime(0.1 * velocity * envH.sustain, time + envH.attack + envH.decay);
-            const endH = time + envH.attack + envH.decay + 0.02;
+            envelope.gain.linearRampToValueAtTime(0.1 * level, time + envH.attack);
+            envelope.gain.linearRampToValueAtTime(0.1 * level * envH.sustain, time + envH.attack + envH.decay);
+            const endH = this.getReleaseStart(time, envH, 0.02);
+            envelope.gain.setValueAtTime(0.1 * level * envH.sustain, endH);
             envelope.gain.linearRampToValueAtTime(0.001, endH + envH.release);
             oscillator.start(time);
             oscillator.stop(endH + envH.release + 0.01);
           } else {
-            envelope.gain.setValueAtTime(0.1 * velocity, time);
+            envelope.gain.setValueAtTime(0.1 * level, time);
             envelope.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
             oscillator.start(time);
             oscillator.stop(time + 0.05);
@@ -1858,21 +2839,29 @@ export class UnifiedAudioEngine {
           break;
         }
         default: {
-          const noteFreqDef = this.currentPattern?.noteModules?.[lowerName]?.pitch ?? 440;
+          const noteFreqDef = hitPitch ?? 440;
           oscillator.type = 'sine';
           oscillator.frequency.setValueAtTime(noteFreqDef, time);
           const envD = this.currentPattern?.envelopeModules?.[lowerName];
           if (envD) {
             envelope.gain.setValueAtTime(0, time);
-            envelope.gain.linearRampToValueAtTime(0.3 * velocity, time + envD.attack);
-            envelope.gain.linearRampToValueAtTime(0.3 * velocity * envD.sustain, time + envD.attack + envD.decay);
-            const endD = time + envD.attack + envD.decay + 0.05;
-            envelope.gain.setValueAtTime(0.3 * velocity * envD.sustain, endD);
+            envelope.gain.linearRampToValueAtTime(0.3 * level, time + envD.attack);
+            envelope.gain.linearRampToValueAtTime(0.3 * level * envD.sustain, time + envD.attack + envD.decay);
+            const endD = this.getReleaseStart(time, envD, 0.05);
+            envelope.gain.setValueAtTime(0.3 * level * envD.sustain, endD);
             envelope.gain.linearRampToValueAtTime(0.001, endD + envD.release);
             oscillator.start(time);
             oscillator.stop(endD + envD.release + 0.01);
+          } else if (this.currentDuration !== null) {
+            // Tied note: hold the level for its length, then fade out
+            const endD = time + this.currentDuration;
+            envelope.gain.setValueAtTime(0.3 * level, time);
+            envelope.gain.setValueAtTime(0.3 * level, endD);
+            envelope.gain.exponentialRampToValueAtTime(0.01, endD + 0.1);
+            oscillator.start(time);
+            oscillator.stop(endD + 0.1);
           } else {
-            envelope.gain.setValueAtTime(0.3 * velocity, time);
+            envelope.gain.setValueAtTime(0.3 * level, time);
             envelope.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
             oscillator.start(time);
             oscillator.stop(time + 0.1);
@@ -1882,16 +2871,22 @@ export class UnifiedAudioEngine {
       }
     }
 
+    const voiceSources = [scheduledOsc, ...extraOscs, scheduledNoise]
+      .filter((source): source is OscillatorNode | AudioBufferSourceNode => source !== null);
+    this.applyModRoutes(lowerName, modRoutes, time, voiceSources, ampMod);
+
     // Track scheduled sources so we can cancel future events on live edits
     const now = Tone.context.currentTime;
     const cleanupFns: Array<() => void> = [];
     if (scheduledOsc) {
-      const osc = scheduledOsc;
+      const oscs = [scheduledOsc, ...extraOscs];
       cleanupFns.push(() => {
-        try { osc.stop(now); } catch (e) { /* ignore */ }
-        try { osc.disconnect(); } catch (e) { /* ignore */ }
+        oscs.forEach(osc => {
+          try { osc.stop(now); } catch (e) { /* ignore */ }
+          try { osc.disconnect(); } catch (e) { /* ignore */ }
+        });
         try { envelope.disconnect(); } catch (e) { /* ignore */ }
-        this.activeOscillators = this.activeOscillators.filter(o => o !== osc);
+        this.activeOscillators = this.activeOscillators.filter(o => !oscs.includes(o));
       });
     } else {
       cleanupFns.push(() => {
@@ -1915,13 +2910,310 @@ export class UnifiedAudioEngine {
     }, delayMs);
     this.scheduledEvents.push(pruneId);
 
+    if (chokeGroup && gate) {
+      this.trackChokeVoice(chokeGroup, lowerName, time, gate, [scheduledOsc, scheduledNoise, ...extraOscs]);
+    }
+
     // Auto-cleanup when audio ends
-    if (scheduledOsc && typeof scheduledOsc.addEventListener === 'function') {
-      const cleanup = () => {
-        this.activeOscillators = this.activeOscillators.filter(osc => osc !== scheduledOsc);
-      };
-      scheduledOsc.addEventListener('ended', cleanup);
+    [scheduledOsc, ...extraOscs].forEach(endedOsc => {
+      if (endedOsc && typeof endedOsc.addEventListener === 'function') {
+        const cleanup = () => {
+          this.activeOscillators = this.activeOscillators.filter(osc => osc !== endedOsc);
+        };
+        endedOsc.addEventListener('ended', cleanup);
+      }
+    });
+  }
+
+  /**
+   * Subtractive voice for an instrument with a `synth` line: the main oscillator,
+   * an optional detuned osc2 and a square sub an octave down are mixed into a
+   * resonant lowpass whose cutoff opens by `fenv` and decays back, then into the
+   * hit's amp envelope (the instrument's `env` line, else DEFAULT_SYNTH_ENV).
+   * With glide, every oscillator slides from the previous note's pitch.
+   * Returns the started oscillators, main oscillator first.
+   */
+  private scheduleSynthVoice(
+    synth: SynthModule,
+    instrument: string,
+    envelope: GainNode,
+    time: number,
+    pitch: number,
+    level: number
+  ): OscillatorNode[] {
+    const ac = Tone.context.rawContext as AudioContext;
+    const env = this.currentPattern?.envelopeModules?.[instrument] ?? UnifiedAudioEngine.DEFAULT_SYNTH_ENV;
+    const releaseStart = this.getReleaseStart(time, env, 0.05);
+    const end = releaseStart + env.release + 0.01;
+
+    const filter = ac.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.setValueAtTime(synth.res, time);
+    filter.frequency.setValueAtTime(synth.cutoff, time);
+    if (synth.fenv > 0) {
+      const peak = Math.min(20000, synth.cutoff * Math.pow(2, synth.fenv * 4));
+      filter.frequency.exponentialRampToValueAtTime(peak, time + synth.fattack);
+      filter.frequency.exponentialRampToValueAtTime(synth.cutoff, time + synth.fattack + synth.fdecay);
+    }
+    filter.connect(envelope);
+
+    // Layers as [wave, frequency ratio, level], normalised so the mix never exceeds one oscillator
+    const layers: [SynthWave, number, number][] = [
+      [synth.osc, 1, 1],
+      ...(synth.osc2 ? [[synth.osc2, Math.pow(2, synth.detune / 1200), 1] as [SynthWave, number, number]] : []),
+      ...(synth.sub > 0 ? [['square', 0.5, synth.sub] as [SynthWave, number, number]] : []),
+    ];
+    const total = layers.reduce((sum, [, , level]) => sum + level, 0);
+    const glideFrom = synth.glide > 0 ? this.lastSynthPitch.get(instrument) : undefined;
+    this.lastSynthPitch.set(instrument, pitch);
+
+    const oscillators = layers.map(([wave, ratio, level]) => {
+      const osc = Tone.context.createOscillator();
+      const layerGain = ac.createGain();
+      osc.type = UnifiedAudioEngine.SYNTH_OSC_TYPES[wave];
+      if (glideFrom !== undefined) {
+        osc.frequency.setValueAtTime(glideFrom * ratio, time);
+        osc.frequency.exponentialRampToValueAtTime(pitch * ratio, time + synth.glide);
+      } else {
+        osc.frequency.setValueAtTime(pitch * ratio, time);
+      }
+      layerGain.gain.setValueAtTime(level / total, time);
+      osc.connect(layerGain);
+      layerGain.connect(filter);
+      osc.start(time);
+      osc.stop(end);
+      return osc;
+    });
+
+    const peakGain = 0.3 * level;
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(peakGain, time + env.attack);
+    envelope.gain.linearRampToValueAtTime(peakGain * env.sustain, time + env.attack + env.decay);
+    envelope.gain.setValueAtTime(peakGain * env.sustain, releaseStart);
+    envelope.gain.linearRampToValueAtTime(0.001, releaseStart + env.release);
+    return oscillators;
+  }
+
+  /**
+   * Buffer for a mapped sample. A sample that is not loaded (e.g. a `user:` sample
+   * deleted from the library) falls back to the instrument's built-in sound, with
+   * one console warning per sample name.
+   */
+  private getSampleBuffer(sampleName: string, instrument: string): AudioBuffer | undefined {
+    const buffer = this.sampleBuffers.get(sampleName);
+    if (buffer || sampleName === instrument) return buffer;
+    if (!this.missingSamples.has(sampleName)) {
+      this.missingSamples.add(sampleName);
+      console.warn(`[Unified] Sample ${sampleName} is not loaded; ${instrument} plays its built-in sound`);
+    }
+    return this.sampleBuffers.get(instrument);
+  }
+
+  /**
+   * Seconds a `loop` line's sample should last: its bars at the live transport
+   * tempo, so slices keep in time through tempo ramps.
+   */
+  private getLoopDuration(loop: LoopModule): number {
+    const bpm = Tone.Transport.bpm.value || this.currentPattern?.tempo || 120;
+    return loop.bars * getBarSteps(this.currentPattern?.timeSignature) * getSixteenthDuration(bpm);
+  }
+
+  /**
+   * Reversed copy of a sample buffer for `reverse` samples, made on first use and
+   * reused for every later hit of the same buffer.
+   */
+  private getReversedBuffer(buffer: AudioBuffer): AudioBuffer {
+    const cached = this.reversedBuffers.get(buffer);
+    if (cached) return cached;
+    const reversed = Tone.context.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      reversed.getChannelData(channel).set(buffer.getChannelData(channel).slice().reverse());
+    }
+    this.reversedBuffers.set(buffer, reversed);
+    return reversed;
+  }
+
+  /**
+   * Two-operator FM voice for an instrument with an `fm` line: a sine modulator at
+   * `ratio` times the pitch drives the frequency of a sine carrier. The peak
+   * deviation is index × modulator frequency, with the index scaled by the hit's
+   * level (an accent gets the full index) and, with `ienv`, falling away after the hit.
+   * Returns [carrier, modulator], both started.
+   */
+  private scheduleFmVoice(
+    fm: FmModule,
+    instrument: string,
+    envelope: GainNode,
+    time: number,
+    pitch: number,
+    level: number
+  ): [OscillatorNode, OscillatorNode] {
+    const ac = Tone.context.rawContext as AudioContext;
+    const env = this.currentPattern?.envelopeModules?.[instrument] ?? UnifiedAudioEngine.DEFAULT_SYNTH_ENV;
+    const releaseStart = this.getReleaseStart(time, env, 0.05);
+    const end = releaseStart + env.release + 0.01;
+
+    const carrier = Tone.context.createOscillator();
+    const modulator = Tone.context.createOscillator();
+    const depth = ac.createGain();
+    carrier.type = 'sine';
+    modulator.type = 'sine';
+    carrier.frequency.setValueAtTime(pitch, time);
+    modulator.frequency.setValueAtTime(pitch * fm.ratio, time);
+
+    const deviation = fm.index * level * pitch * fm.ratio;
+    depth.gain.setValueAtTime(deviation, time);
+    if (fm.ienv > 0) {
+      depth.gain.setTargetAtTime(0, time, fm.ienv / 3);
     }
+    modulator.connect(depth);
+    depth.connect(carrier.frequency);
+    carrier.connect(envelope);
+
+    [carrier, modulator].forEach(osc => {
+      osc.start(time);
+      osc.stop(end);
+    });
+
+    const peakGain = 0.3 * level;
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(peakGain, time + env.attack);
+    envelope.gain.linearRampToValueAtTime(peakGain * env.sustain, time + env.attack + env.decay);
+    envelope.gain.setValueAtTime(peakGain * env.sustain, releaseStart);
+    envelope.gain.linearRampToValueAtTime(0.001, releaseStart + env.release);
+    return [carrier, modulator];
+  }
+
+  /**
+   * Audition an FM voice outside the pattern, e.g. a SampleLibrary preset: one
+   * accented note at `pitch` straight into the master chain.
+   */
+  previewFmVoice(fm: FmModule, pitch = 261.63): void {
+    if (!this.isInitialized || !this.masterGain) return;
+
+    const ac = Tone.context.rawContext as AudioContext;
+    const envelope = ac.createGain();
+    envelope.connect((this.masterChainInput ?? this.masterGain)!);
+    const voices = this.scheduleFmVoice(fm, fm.name, envelope, ac.currentTime + 0.01, pitch, 1);
+    voices[0].addEventListener('ended', () => {
+      try { envelope.disconnect(); } catch { /* ignore */ }
+    });
+  }
+
+  /**
+   * When an enveloped hit leaves its sustain stage: at the end of a tied note,
+   * but never before attack and decay (plus `hold` seconds) have played.
+   */
+  private getReleaseStart(time: number, env: EnvelopeModule, hold: number): number {
+    return time + Math.max(this.currentDuration ?? 0, env.attack + env.decay + hold);
+  }
+
+  /**
+   * An instrument's `mod` routes, plus velocity to amp at full amount unless
+   * they route velocity to amp themselves. Module routes keep their indexes.
+   */
+  private getModRoutes(instrument: string): ModRoute[] {
+    const routes = this.currentPattern?.modModules?.[instrument]?.routes ?? [];
+    return routes.some(route => route.source === 'velocity' && route.destination === 'amp')
+      ? routes
+      : [...routes, UnifiedAudioEngine.DEFAULT_MOD_ROUTE];
+  }
+
+  /** Value of a per-hit `mod` source for the hit being scheduled, 0 to 1 */
+  private getModValue(source: ModRoute['source']): number {
+    return source === 'velocity' ? this.currentVelocity : this.currentPosition;
+  }
+
+  /**
+   * Voice level from the velocity and step routes onto amp: a positive amount
+   * scales from 1 - amt (source at 0) to 1, a negative one dips to 1 + amt.
+   */
+  private getModLevel(routes: ModRoute[]): number {
+    return routes.reduce((level, route) => {
+      if (route.destination !== 'amp' || (route.source !== 'velocity' && route.source !== 'step')) return level;
+      const value = this.getModValue(route.source);
+      return level * (route.amount >= 0 ? 1 - route.amount + route.amount * value : 1 + route.amount * value);
+    }, 1);
+  }
+
+  /**
+   * Breakpoints [seconds after the hit, level] of an envelope `mod` source: env1
+   * follows the instrument's `env` line (DEFAULT_SYNTH_ENV without one) through
+   * its release, env2 is the route's own attack-decay. Null for other sources.
+   */
+  private getModEnvelope(route: ModRoute, instrument: string, time: number): [number, number][] | null {
+    if (route.source === 'env2' && route.env2) {
+      const { attack, decay } = route.env2;
+      return [[0, 0], [attack, 1], [attack + decay, 0]];
+    }
+    if (route.source === 'env1') {
+      const env = this.currentPattern?.envelopeModules?.[instrument] ?? UnifiedAudioEngine.DEFAULT_SYNTH_ENV;
+      const releaseStart = this.getReleaseStart(time, env, 0.05) - time;
+      return [[0, 0], [env.attack, 1], [env.attack + env.decay, env.sustain], [releaseStart, env.sustain], [releaseStart + env.release, 0]];
+    }
+    return null;
+  }
+
+  /**
+   * Apply an instrument's per-hit `mod` routes to the hit at `time`. Pitch routes
+   * detune every voice source, envelope routes onto amp shape `ampMod`, and routes
+   * onto chain params set or shape their constant source. Static pitch routes add
+   * up; of several envelope routes onto pitch or amp, the last applies. Velocity
+   * and step routes onto amp are already in the voice level, and LFO routes run
+   * on their own (pitch through the instrument's pitch bus).
+   */
+  private applyModRoutes(
+    instrument: string,
+    routes: ModRoute[],
+    time: number,
+    sources: (OscillatorNode | AudioBufferSourceNode)[],
+    ampMod: GainNode | null
+  ): void {
+    const pitchBus = this.pitchBuses.get(instrument);
+    if (pitchBus) {
+      sources.forEach(source => {
+        pitchBus.connect(source.detune);
+        source.addEventListener('ended', () => {
+          try { pitchBus.disconnect(source.detune); } catch { /* ignore */ }
+        });
+      });
+    }
+
+    const range = UnifiedAudioEngine.MOD_PITCH_RANGE;
+    const staticPitch = routes
+      .filter(route => route.destination === 'pitch' && (route.source === 'velocity' || route.source === 'step'))
+      .reduce((cents, route) => cents + route.amount * range * this.getModValue(route.source), 0);
+    if (staticPitch !== 0) {
+      sources.forEach(source => source.detune.setValueAtTime(staticPitch, time));
+    }
+
+    routes.forEach((route, i) => {
+      if (route.source === 'lfo') return;
+      const envelope = this.getModEnvelope(route, instrument, time);
+      if (route.destination === 'pitch') {
+        if (envelope) sources.forEach(source => this.shapeModParam(source.detune, time, staticPitch, route.amount * range, envelope));
+      } else if (route.destination === 'amp') {
+        if (envelope && ampMod) this.shapeModParam(ampMod.gain, time, route.amount >= 0 ? 1 - route.amount : 1, route.amount, envelope);
+      } else {
+        const offset = this.modSources.get(`${instrument}.mod${i + 1}`)?.source.offset;
+        if (!offset) return;
+        if (envelope) {
+          this.shapeModParam(offset, time, 0, route.amount, envelope);
+        } else {
+          offset.cancelScheduledValues(time);
+          offset.setValueAtTime(route.amount * this.getModValue(route.source), time);
+        }
+      }
+    });
+  }
+
+  /** Move `param` from `base` by `scale` × each envelope breakpoint, from `time` on */
+  private shapeModParam(param: AudioParam, time: number, base: number, scale: number, envelope: [number, number][]): void {
+    param.cancelScheduledValues(time);
+    envelope.forEach(([at, value], i) => {
+      if (i === 0) param.setValueAtTime(base + scale * value, time + at);
+      else param.linearRampToValueAtTime(base + scale * value, time + at);
+    });
   }
 
   /**
@@ -1949,6 +3241,8 @@ export class UnifiedAudioEngine {
       }
     });
     this.activeNoiseSources = [];
+    this.chokeVoices = [];
+    this.lastSynthPitch.clear();
 
     // Use master gain for immediate volume cut
     if (this.masterGain && this.audioContext) {
@@ -1977,6 +3271,8 @@ export class UnifiedAudioEngine {
       }
     }
     this.pendingSources = remaining;
+    // Cancelled voices never start, so they would never end and leave the choke list
+    this.chokeVoices = this.chokeVoices.filter(voice => voice.startTime < now);
   }
 
   /**
@@ -1998,6 +3294,13 @@ export class UnifiedAudioEngine {
     }
   }
 
+  /**
+   * Hold or release fill mode for `@fill` / `@!fill` trigs (applies from the next trig)
+   */
+  setFillMode(enabled: boolean): void {
+    this.fillMode = enabled;
+  }
+
   /**
    * Cleanup
    */
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { UserSampleService } from './userSampleService';
+
+describe('UserSampleService', () => {
+  it('should derive DSL names from file names', () => {
+    expect(UserSampleService.toSampleName('My Kick (2).wav')).toBe('my-kick-2');
+    expect(UserSampleService.toSampleName('snare_tight.AIFF')).toBe('snare-tight');
+    expect(UserSampleService.toSampleName('???.ogg')).toBe('sample');
+  });
+
+  it('should accept WAV, AIFF and OGG files', () => {
+    const file = (name: string) => new File([new Uint8Array(4)], name);
+    expect(UserSampleService.isSupportedFile(file('kick.wav'))).toBe(true);
+    expect(UserSampleService.isSupportedFile(file('kick.aif'))).toBe(true);
+    expect(UserSampleService.isSupportedFile(file('kick.OGG'))).toBe(true);
+    expect(UserSampleService.isSupportedFile(file('kick.mp3'))).toBe(false);
+    expect(UserSampleService.isSupportedFile(file('kick'))).toBe(false);
+  });
+
+  it('should recognise user library references', () => {
+    expect(UserSampleService.isUserSampleRef('user:my-kick')).toBe(true);
+    expect(UserSampleService.isUserSampleRef('kick')).toBe(false);
+  });
+
+  it('should treat a browser without IndexedDB as an empty library', async () => {
+    expect(typeof indexedDB).toBe('undefined');
+    await expect(UserSampleService.list()).resolves.toEqual([]);
+    await expect(UserSampleService.save({
+      name: 'kick', fileName: 'kick.wav', type: 'audio/wav', size: 4, duration: 0.1,
+      sampleRate: 44100, channels: 1, addedAt: new Date(), data: new ArrayBuffer(4)
+    })).rejects.toThrow('Sample storage is not available in this browser');
+  });
+});
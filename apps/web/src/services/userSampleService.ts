@@ -0,0 +1,134 @@
+// User sample service: audio files imported in the Sample Library, kept in IndexedDB
+import { STORAGE_CONSTANTS } from '@ascii-sequencer/shared';
+
+export interface UserSample {
+  name: string;        // referenced from the DSL as `user:<name>`
+  fileName: string;
+  type: string;        // MIME type of the imported file
+  size: number;        // bytes
+  duration: number;    // seconds
+  sampleRate: number;
+  channels: number;
+  addedAt: Date;
+}
+
+export interface StoredUserSample extends UserSample {
+  data: ArrayBuffer;   // the file as imported; decoded again on every load
+}
+
+type UserSampleListener = (samples: UserSample[]) => void;
+
+export class UserSampleService {
+  static readonly PREFIX = 'user:';
+  static readonly EXTENSIONS = ['wav', 'wave', 'aif', 'aiff', 'aifc', 'ogg', 'oga'];
+  private static readonly DB_NAME = STORAGE_CONSTANTS.USER_SAMPLES_DB;
+  private static readonly STORE_NAME = 'samples';
+  private static listeners = new Set<UserSampleListener>();
+
+  /**
+   * WAV, AIFF and OGG files, by extension since browsers disagree on AIFF MIME types
+   */
+  static isSupportedFile(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return this.EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * DSL name for a file: "My Kick (2).wav" -> "my-kick-2"
+   */
+  static toSampleName(fileName: string): string {
+    const base = fileName.replace(/\.[^.]+$/, '').toLowerCase();
+    return base.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'sample';
+  }
+
+  /**
+   * Whether a `sample` line refers to the user library, e.g. "user:my-kick"
+   */
+  static isUserSampleRef(sample: string): boolean {
+    return sample.startsWith(this.PREFIX);
+  }
+
+  /**
+   * Get all stored samples including their audio data
+   */
+  static async getAll(): Promise<StoredUserSample[]> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return [];
+      const samples = await this.request<StoredUserSample[]>(
+        db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME).getAll()
+      );
+      db.close();
+      return samples.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error loading user samples:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get sample metadata without the audio data
+   */
+  static async list(): Promise<UserSample[]> {
+    const samples = await this.getAll();
+    return samples.map(({ data: _data, ...meta }) => meta);
+  }
+
+  /**
+   * Store a sample, replacing any sample with the same name
+   */
+  static async save(sample: StoredUserSample): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) throw new Error('Sample storage is not available in this browser');
+    const tx = db.transaction(this.STORE_NAME, 'readwrite');
+    await this.request(tx.objectStore(this.STORE_NAME).put(sample));
+    db.close();
+    await this.notify();
+  }
+
+  /**
+   * Delete a sample by name
+   */
+  static async remove(name: string): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+    const tx = db.transaction(this.STORE_NAME, 'readwrite');
+    await this.request(tx.objectStore(this.STORE_NAME).delete(name));
+    db.close();
+    await this.notify();
+  }
+
+  /**
+   * Listen for library changes; returns the unsubscribe function
+   */
+  static subscribe(listener: UserSampleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static async notify(): Promise<void> {
+    const samples = await this.list();
+    this.listeners.forEach(listener => listener(samples));
+  }
+
+  /**
+   * Open (and on first use create) the database; null where IndexedDB is unavailable
+   */
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    const open = indexedDB.open(this.DB_NAME, 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(this.STORE_NAME, { keyPath: 'name' });
+    };
+    return this.request(open);
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -19,6 +19,7 @@ vi.mock('../../services/unifiedAudioEngine', () => ({
       isInitialized: true,
       isPlaying: false,
       currentTime: 0,
+      position: 0,
       tempo: 120,
       volume: 0.9,
       error: null
@@ -14,6 +14,8 @@ export const mockAudioContext = {
     gain: {
       value: 0.5,
       setValueAtTime: vi.fn(),
+      setTargetAtTime: vi.fn(),
+      cancelScheduledValues: vi.fn(),
       exponentialRampToValueAtTime: vi.fn(),
       linearRampToValueAtTime: vi.fn()
     },
@@ -23,6 +25,7 @@ export const mockAudioContext = {
   createOscillator: vi.fn(() => ({
     type: 'sine',
     frequency: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+    detune: { value: 0, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), cancelScheduledValues: vi.fn() },
     connect: vi.fn(),
     disconnect: vi.fn(),
     start: vi.fn(),
@@ -31,7 +34,7 @@ export const mockAudioContext = {
   })),
   createBiquadFilter: vi.fn(() => ({
     type: 'peaking' as BiquadFilterType,
-    frequency: { setValueAtTime: vi.fn() },
+    frequency: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
     Q: { setValueAtTime: vi.fn() },
     gain: { setValueAtTime: vi.fn(), value: 0 },
     connect: vi.fn(),
@@ -71,14 +74,32 @@ export const mockAudioContext = {
     getChannelData: vi.fn(() => new Float32Array(4410)),
     duration: 0.1,
   })),
+  decodeAudioData: vi.fn(async () => ({
+    getChannelData: vi.fn(() => new Float32Array(22050)),
+    duration: 0.5,
+    sampleRate: 44100,
+    numberOfChannels: 2,
+  })),
   createBufferSource: vi.fn(() => ({
     buffer: null,
+    loop: false,
+    loopStart: 0,
+    loopEnd: 0,
+    playbackRate: { setValueAtTime: vi.fn(), value: 1 },
+    detune: { value: 0, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), cancelScheduledValues: vi.fn() },
     connect: vi.fn(),
     disconnect: vi.fn(),
     start: vi.fn(),
     stop: vi.fn(),
     addEventListener: vi.fn(),
   })),
+  createConstantSource: vi.fn(() => ({
+    offset: { value: 1, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), cancelScheduledValues: vi.fn() },
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    start: vi.fn(),
+    stop: vi.fn(),
+  })),
   resume: vi.fn().mockResolvedValue(undefined),
 };
 
@@ -112,12 +133,14 @@ export function createMockToneContext() {
 }
 
 export const mockToneTransport = {
-  bpm: { value: 120 },
+  bpm: { value: 120, rampTo: vi.fn(), cancelScheduledValues: vi.fn() },
   start: vi.fn(),
   stop: vi.fn(),
   pause: vi.fn(),
   position: 0,
   seconds: 0,
+  ticks: 0,
+  PPQ: 192,
 };
 
 export const mockTonePart = {
@@ -19,17 +19,46 @@ vi.mock('tone', () => mockTone);
 // The engine is a singleton, so we need to reset it between tests.
 // We do this by accessing the private static instance field.
 import { UnifiedAudioEngine } from '../services/unifiedAudioEngine';
+import { UserSampleService } from '../services/userSampleService';
+
+// Engine internals and Part events are read without their types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Loose = any;
+type PartCallback = (time: number, event: Loose) => void;
 
 function resetEngineInstance() {
   // Reset the singleton so each test starts fresh
-  (UnifiedAudioEngine as any).instance = null;
+  (UnifiedAudioEngine as unknown as Loose).instance = null;
+}
+
+/** The engine's private fields, for inspecting the audio graph it built */
+function internals(engine: UnifiedAudioEngine): Loose {
+  return engine as unknown as Loose;
+}
+
+/** The callback and events of the last Tone.Part constructor call */
+function getLastPart() {
+  const [callback, events] = vi.mocked(mockTone.Part).mock.calls.at(-1) as unknown as [PartCallback, Loose[]];
+  return { callback, events };
 }
 
 /** Extract the events array from the last Tone.Part constructor call */
-function getLastPartEvents(): any[] {
-  const calls = (mockTone.Part as any).mock.calls;
-  const lastCall = calls[calls.length - 1];
-  return lastCall[1] as any[];
+function getLastPartEvents(): Loose[] {
+  return getLastPart().events;
+}
+
+/** Nodes a mocked factory has created since its `from`th call */
+function newNodes<T>(factory: () => T, from = 0): T[] {
+  return vi.mocked(factory).mock.results.slice(from).map(result => result.value);
+}
+
+/** Initializes the engine, loads the pattern and plays it, returning the scheduled Part */
+async function playPattern(pattern: string) {
+  const engine = UnifiedAudioEngine.getInstance();
+  await engine.initialize();
+  engine.loadPattern(pattern);
+  await engine.play();
+  return getLastPart();
 }
 
 describe('UnifiedAudioEngine', () => {
@@ -43,6 +72,8 @@ describe('UnifiedAudioEngine', () => {
     mockToneTransport.bpm.value = 120;
     mockToneTransport.position = 0;
     mockToneTransport.seconds = 0;
+    mockToneTransport.ticks = 0;
+    mockToneTransport.bpm.rampTo.mockClear();
     mockToneTransport.start.mockClear();
     mockToneTransport.stop.mockClear();
     mockToneTransport.pause.mockClear();
@@ -127,7 +158,7 @@ seq hihat: x.x.x.x.x.x.x.x.`;
 
       // The masterGain mock should have had setValueAtTime(1, ...) called.
       // stopAllAudio sets it to 0, then play restores it to 1.
-      const masterGain = (engine as any).masterGain;
+      const masterGain = internals(engine).masterGain;
       expect(masterGain).toBeTruthy();
       const calls = masterGain.gain.setValueAtTime.mock.calls;
       // After stopAllAudio (gain=0), play restores (gain=1)
@@ -151,8 +182,7 @@ seq hihat: x.x.x.x.x.x.x.x.`;
 
       // Tone.Part should be constructed with events
       expect(mockTone.Part).toHaveBeenCalled();
-      const calls = (mockTone.Part as any).mock.calls;
-      const [callback, events] = calls[calls.length - 1];
+      const { callback, events } = getLastPart();
       expect(typeof callback).toBe('function');
       expect(events.length).toBeGreaterThan(0);
     });
@@ -226,7 +256,7 @@ seq hihat: x.x.x.x.x.x.x.x.`;
       await engine.play();
       engine.stop();
 
-      const masterGain = (engine as any).masterGain;
+      const masterGain = internals(engine).masterGain;
       const lastCall = masterGain.gain.setValueAtTime.mock.calls.slice(-1)[0];
       expect(lastCall[0]).toBe(1); // Restored to 1
     });
@@ -294,6 +324,924 @@ seq hihat: x.x.x.x.x.x.x.x.`;
     });
   });
 
+  describe('tempo ramps', () => {
+    const RAMP_PATTERN = 'TEMPO 120 -> 140 over 8 bars\nseq kick: x...x...x...x...';
+
+    it('ramps the transport BPM to the target over the ramp length', async () => {
+      await playPattern(RAMP_PATTERN);
+
+      expect(mockToneTransport.bpm.value).toBe(120);
+      // 32 beats from 120 to 140 on an exponential ramp
+      const seconds = (60 * 32 * Math.log(140 / 120)) / 20;
+      expect(mockToneTransport.bpm.rampTo).toHaveBeenCalledWith(140, expect.closeTo(seconds));
+    });
+
+    it('resumes a paused ramp from the current beat', async () => {
+      await playPattern(RAMP_PATTERN);
+      mockToneTransport.ticks = 16 * mockToneTransport.PPQ; // halfway through the ramp
+      engine.pause();
+      expect(mockToneTransport.bpm.value).toBe(130);
+
+      mockToneTransport.bpm.rampTo.mockClear();
+      await engine.play();
+      expect(mockToneTransport.bpm.rampTo).toHaveBeenCalledWith(140, expect.closeTo((60 * 16 * Math.log(140 / 130)) / 10));
+    });
+
+    it('holds the target after the ramp and reports the live tempo', async () => {
+      await playPattern(RAMP_PATTERN);
+      mockToneTransport.ticks = 40 * mockToneTransport.PPQ; // past the 32-beat ramp
+      engine.loadPattern(RAMP_PATTERN.replace('140', '150'));
+
+      const state = engine.getState();
+      expect(state.tempo).toBe(150);
+      expect(state.tempoRamp).toEqual({ to: 150, bars: 8 });
+    });
+
+    it('reports the transport position in 16ths and the clock in seconds', async () => {
+      await playPattern(RAMP_PATTERN);
+      mockToneTransport.ticks = 41.5 * mockToneTransport.PPQ; // beat 1.5 of the 11th loop
+      mockToneTransport.seconds = 19.2;
+
+      const state = engine.getState();
+      expect(state.position).toBeCloseTo(6);
+      expect(state.currentTime).toBe(19.2);
+    });
+
+    it('keeps a steady tempo without a ramp', async () => {
+      await playPattern('TEMPO 92.5\nseq kick: x...x...x...x...');
+
+      expect(mockToneTransport.bpm.value).toBe(92.5);
+      expect(mockToneTransport.bpm.rampTo).not.toHaveBeenCalled();
+      expect(engine.getState().tempoRamp).toBeUndefined();
+    });
+  });
+
+  describe('automation lanes', () => {
+    const AUTO_PATTERN = `TEMPO 120
+seq kick: x...x...x...x...
+auto kick.filter.freq: 200 400 . 1200`;
+
+    it('schedules one event per automated step, wrapping short lanes', async () => {
+      await playPattern(AUTO_PATTERN);
+
+      const events = getLastPartEvents().filter(e => e.automation);
+      expect(events.map(e => e.value)).toEqual([200, 400, 1200, 200, 400, 1200, 200, 400, 1200, 200, 400, 1200]);
+      expect(events[2].time).toBeCloseTo(3 * 0.125); // the held step schedules nothing
+    });
+
+    it('sets the chain param at the event time', async () => {
+      const { callback, events } = await playPattern(AUTO_PATTERN);
+
+      callback(2.5, events.find(e => e.automation && e.value === 400));
+      const chain = internals(engine).instrumentChains.get('kick');
+      expect(chain.filter.frequency.setValueAtTime).toHaveBeenCalledWith(400, 2.5);
+    });
+
+    it('restores the chain default when a lane is removed', async () => {
+      await playPattern(AUTO_PATTERN);
+      const chain = internals(engine).instrumentChains.get('kick');
+      chain.filter.frequency.setValueAtTime.mockClear();
+
+      engine.loadPattern('TEMPO 120\nseq kick: x...x...x...x...');
+
+      expect(chain.filter.frequency.setValueAtTime).toHaveBeenCalledWith(20000, expect.any(Number));
+      expect(getLastPartEvents().some(e => e.automation)).toBe(false);
+    });
+
+    it('sets insert params on the instrument chain', async () => {
+      const { callback, events } = await playPattern('TEMPO 120\nphaser pad: rate=0.5 depth=0.6 stages=4 mix=0.2\nauto pad.phaser.depth: 0.5 1\nseq pad: x...x...');
+
+      callback(1.5, events.find(e => e.automation && e.value === 0.5));
+      const { phaser } = internals(engine).instrumentChains.get('pad').inserts;
+      expect(phaser.lfoGain.gain.setValueAtTime).toHaveBeenCalledWith(1000, 1.5);
+    });
+  });
+
+  describe('lfos', () => {
+    const lfo = (key: string) => internals(engine).lfoMap.get(key);
+
+    it('runs a synced rate at the transport tempo', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nlfo kick.filter.freq: rate=1/8 depth=0.5\nlfo snare.pan: rate=2bar\nseq kick: x...\nseq snare: x...');
+
+      // An 8th lasts 0.25s and two bars 4s at 120 BPM
+      expect(lfo('kick.filter.freq').source.frequency.setValueAtTime).toHaveBeenLastCalledWith(4, expect.any(Number));
+      expect(lfo('snare.pan').source.frequency.setValueAtTime).toHaveBeenLastCalledWith(0.25, expect.any(Number));
+    });
+
+    it('loops a noise buffer for the random waves', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nlfo kick.amp: rate=2Hz wave=sample-hold\nseq kick: x...');
+
+      const { source } = lfo('kick.amp');
+      expect(source.loop).toBe(true);
+      expect(source.buffer).toBeDefined();
+      // One 128-sample level per cycle
+      expect(source.playbackRate.setValueAtTime).toHaveBeenLastCalledWith(expect.closeTo(2 * 128 / 44100), expect.any(Number));
+    });
+
+    it('moves wet and dry in opposite directions for a mix target', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\ndelay master: time=0.25 feedback=0.3 mix=0.5\nlfo master.delay.mix: rate=1Hz depth=0.4\nseq kick: x...');
+
+      const { outputs } = lfo('master.delay.mix');
+      expect(outputs.map((o: Loose) => o.param)).toEqual([
+        internals(engine).masterDelayWetGain.gain,
+        internals(engine).masterDelayDryGain.gain
+      ]);
+      expect(outputs[0].depthGain.gain.setValueAtTime).toHaveBeenLastCalledWith(expect.closeTo(0.2), expect.any(Number));
+      expect(outputs[1].depthGain.gain.setValueAtTime).toHaveBeenLastCalledWith(expect.closeTo(-0.2), expect.any(Number));
+    });
+
+    it('modulates chorus and distort inserts on an instrument', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchorus pad: rate=1.5 depth=0.4 mix=0.3\ndistort pad: amount=0.5 mix=0.4\nlfo pad.chorus.rate: rate=1/4 depth=0.5\nlfo pad.distort.mix: rate=1Hz depth=0.4\nseq pad: x...');
+
+      const { chorus, distort } = internals(engine).instrumentChains.get('pad').inserts;
+      expect(lfo('pad.chorus.rate').outputs[0].param).toBe(chorus.lfo.frequency);
+      expect(lfo('pad.distort.mix').outputs.map((o: Loose) => o.param)).toEqual([distort.wet.gain, distort.dry.gain]);
+    });
+
+    it('stacks several LFOs on one target', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nlfo kick.eq.low: rate=1/4\nlfo kick.eq.low: rate=0.3Hz wave=random-smooth\nseq kick: x...');
+
+      const chain = internals(engine).instrumentChains.get('kick');
+      expect(lfo('kick.eq.low').outputs[0].param).toBe(chain.eqLow.gain);
+      expect(lfo('kick.eq.low#2').outputs[0].param).toBe(chain.eqLow.gain);
+      expect(lfo('kick.eq.low#2').source).not.toBe(lfo('kick.eq.low').source);
+    });
+
+    it('restarts synced LFOs on each bar start', async () => {
+      const { callback, events } = await playPattern('TEMPO 120\nlfo kick.pan: rate=1/4\nlfo snare.pan: rate=2Hz\nseq kick: x...x...x...x...|x...x...x...x...\nseq snare: x...');
+
+      const bars = events.filter(e => e.lfoBar !== undefined);
+      expect(bars.map(e => [e.time, e.lfoBar])).toEqual([[0, 0], [2, 1]]);
+
+      const previous = lfo('kick.pan').source;
+      const free = lfo('snare.pan').source;
+      callback(2, bars[1]);
+      const restarted = lfo('kick.pan').source;
+      expect(restarted).not.toBe(previous);
+      expect(previous.stop).toHaveBeenCalledWith(2);
+      expect(restarted.start).toHaveBeenCalledWith(2);
+      expect(restarted.connect).toHaveBeenCalledWith(lfo('kick.pan').outputs[0].depthGain);
+      // Free-running LFOs keep their phase unless reset=bar
+      expect(lfo('snare.pan').source).toBe(free);
+    });
+
+    it('adds no bar events without synced or resetting LFOs', async () => {
+      const { events } = await playPattern('TEMPO 120\nlfo kick.amp: rate=2Hz\nseq kick: x...');
+      expect(events.some(e => e.lfoBar !== undefined)).toBe(false);
+    });
+  });
+
+  describe('mod routes', () => {
+    const hit = (event: Record<string, unknown>, time = 1) => {
+      getLastPart().callback(time, { instrument: 'pad', velocity: 0.7, pitch: 440, grooveOffset: 0, ...event });
+      return {
+        envelope: newNodes(mockAudioContext.createGain).at(-1)!,
+        osc: newNodes(mockTone.context.createOscillator).at(-1)!
+      };
+    };
+
+    it('scales the voice level by velocity without mod lines', async () => {
+      await playPattern('TEMPO 120\nnotes pad: A4 . . .');
+
+      expect(hit({ velocity: 0.5 }).envelope.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.3 * 0.5), 1);
+    });
+
+    it('replaces the velocity scaling with a velocity route onto amp', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=velocity dst=amp amt=0.5\nnotes pad: A4 . . .');
+
+      // Half sensitivity: 0.5 + 0.5 × velocity
+      expect(hit({ velocity: 0.5 }).envelope.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.3 * 0.75), 1);
+    });
+
+    it('passes the step position to the hit for step routes', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=step dst=amp amt=1\nnotes pad: A4 . A4 . A4 . . A4');
+
+      // The 8-step line plays twice per bar, from 0 to 1 each time
+      const positions = getLastPartEvents().map(e => e.position);
+      expect(positions).toEqual([0, 2 / 7, 4 / 7, 1, 0, 2 / 7, 4 / 7, 1].map(p => expect.closeTo(p)));
+      expect(hit({ position: 0.5 }).envelope.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.3 * 0.7 * 0.5), 1);
+    });
+
+    it('sets a chain param from velocity on every hit', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=velocity dst=pan amt=-0.6\nnotes pad: A4 . . .');
+
+      const modSource = internals(engine).modSources.get('pad.mod1');
+      expect(modSource.outputs[0].param).toBe(internals(engine).instrumentChains.get('pad').pan.pan);
+      hit({ velocity: 1 }, 2);
+      expect(modSource.source.offset.setValueAtTime).toHaveBeenLastCalledWith(expect.closeTo(-0.6), 2);
+    });
+
+    it('sweeps voice pitch with the second envelope', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=env2 dst=pitch amt=0.5 attack=0 decay=0.1\nnotes pad: A4 . . .');
+
+      const { detune } = hit({}).osc;
+      expect(detune.setValueAtTime).toHaveBeenCalledWith(0, 1);
+      expect(detune.linearRampToValueAtTime.mock.calls).toEqual([[1200, 1], [0, expect.closeTo(1.1)]]);
+    });
+
+    it('shapes the voice level with an envelope route onto amp', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=env2 dst=amp amt=0.8 attack=0.01 decay=0.2\nnotes pad: A4 . . .');
+
+      const gains = mockAudioContext.createGain.mock.results.length;
+      hit({});
+      const [envelope, ampMod] = newNodes(mockAudioContext.createGain, gains);
+      expect(envelope.connect).toHaveBeenCalledWith(ampMod);
+      expect(ampMod.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.2), 1);
+      expect(ampMod.gain.linearRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(1), expect.closeTo(1.01));
+    });
+
+    it('runs LFO routes onto pitch through the pitch bus', async () => {
+      await playPattern('TEMPO 120\nmod pad: src=lfo dst=pitch amt=0.1 rate=5Hz wave=triangle\nnotes pad: A4 . . .');
+
+      const lfo = internals(engine).lfoMap.get('pad.mod1');
+      const bus = internals(engine).pitchBuses.get('pad');
+      expect(lfo.outputs[0].param).toBe(bus.offset);
+      expect(lfo.outputs[0].depthGain.gain.setValueAtTime).toHaveBeenLastCalledWith(expect.closeTo(240), expect.any(Number));
+      expect(bus.connect).toHaveBeenCalledWith(hit({}).osc.detune);
+    });
+
+    it('drops routes removed from the pattern', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nmod pad: src=env1 dst=eq.low amt=0.5\nmod pad: src=lfo dst=pan rate=1/4\nnotes pad: A4 . . .');
+      const modSource = internals(engine).modSources.get('pad.mod1').source;
+      expect(internals(engine).lfoMap.has('pad.mod2')).toBe(true);
+
+      engine.loadPattern('TEMPO 120\nnotes pad: A4 . . .');
+      expect(modSource.stop).toHaveBeenCalled();
+      expect(internals(engine).modSources.size).toBe(0);
+      expect(internals(engine).lfoMap.has('pad.mod2')).toBe(false);
+    });
+  });
+
+  describe('effect chain order', () => {
+    const outputs = (stages: Loose[]) => stages.map(stage => stage.output);
+
+    it('wires instrument stages in the default order', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nfilter kick: type=lowpass freq=800\nseq kick: x...');
+
+      const chain = internals(engine).instrumentChains.get('kick');
+      expect(outputs(chain.stages)).toEqual([chain.filter, chain.comp, chain.duck, chain.eqHigh]);
+      expect(chain.preGain.connect).toHaveBeenCalledWith(chain.filter);
+      expect(chain.eqHigh.connect).toHaveBeenCalledWith(chain.pan);
+    });
+
+    it('puts listed stages first and keeps the rest in default order', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchain kick: eq > filter\nfilter kick: type=lowpass freq=800\nseq kick: x...');
+
+      const chain = internals(engine).instrumentChains.get('kick');
+      expect(outputs(chain.stages)).toEqual([chain.eqHigh, chain.filter, chain.comp, chain.duck]);
+      expect(chain.preGain.connect).toHaveBeenCalledWith(chain.eqLow);
+      expect(chain.eqHigh.connect).toHaveBeenCalledWith(chain.filter);
+      expect(chain.duck.connect).toHaveBeenCalledWith(chain.pan);
+    });
+
+    it('re-patches a live chain without rebuilding it', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nfilter kick: type=lowpass freq=800\nseq kick: x...');
+      const chain = internals(engine).instrumentChains.get('kick');
+
+      engine.loadPattern('TEMPO 120\nchain kick: comp > filter\nfilter kick: type=lowpass freq=800\nseq kick: x...');
+      expect(internals(engine).instrumentChains.get('kick')).toBe(chain);
+      expect(chain.preGain.disconnect).toHaveBeenCalledWith(chain.filter);
+      expect(chain.filter.disconnect).toHaveBeenCalledWith(chain.comp);
+      expect(chain.preGain.connect).toHaveBeenCalledWith(chain.comp);
+      expect(chain.comp.connect).toHaveBeenCalledWith(chain.filter);
+      expect(chain.filter.connect).toHaveBeenCalledWith(chain.duck);
+    });
+
+    it('patches distort and reverb inserts in while their lines are present', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\ndistort kick: amount=0.5 mix=0.4\nreverb kick: mix=0.3\nchain kick: reverb > distort > filter\nseq kick: x...');
+
+      const chain = internals(engine).instrumentChains.get('kick');
+      const { distort, reverb } = chain.inserts;
+      expect(distort.wet.gain.setValueAtTime).toHaveBeenCalledWith(0.4, expect.any(Number));
+      expect(chain.stages.slice(0, 3)).toEqual([reverb.stage, distort.stage, expect.objectContaining({ output: chain.filter })]);
+      expect(chain.preGain.connect).toHaveBeenCalledWith(reverb.convolver);
+      expect(reverb.stage.output.connect).toHaveBeenCalledWith(distort.shaper);
+
+      engine.loadPattern('TEMPO 120\nreverb kick: mix=0.3\nseq kick: x...');
+      expect(chain.inserts.distort).toBeUndefined();
+      expect(chain.stages).not.toContain(distort.stage);
+      expect(chain.stages.at(-1)).toBe(reverb.stage);
+      expect(distort.stage.output.disconnect).toHaveBeenCalledWith(chain.filter);
+    });
+
+    it('routes an instrument with only a delay line through its chain', async () => {
+      const { callback, events } = await playPattern('TEMPO 120\ndelay hat: time=0.25 feedback=0.4 mix=0.3\nseq hat: x...');
+      const chain = internals(engine).instrumentChains.get('hat');
+      const { delay } = chain.inserts;
+      expect(delay.delay.delayTime.setValueAtTime).toHaveBeenCalledWith(0.25, expect.any(Number));
+      expect(chain.stages.at(-1)).toBe(delay.stage);
+      expect(delay.stage.output.connect).toHaveBeenCalledWith(chain.pan);
+
+      callback(1, events[0]);
+      const connected = newNodes(mockAudioContext.createGain)
+        .some(gain => gain.connect.mock.calls.some(([node]: unknown[]) => node === chain.input));
+      expect(connected).toBe(true);
+    });
+
+    it('builds inserts for instruments that only play inside a song section', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nsection verse:\nseq lead: x...x...\nreverb lead: mix=0.5\ndelay lead: time=0.25 mix=0.3\nsong: verse*2');
+
+      const chain = internals(engine).instrumentChains.get('lead');
+      const { reverb, delay } = chain.inserts;
+      expect(reverb.wet.gain.setValueAtTime).toHaveBeenCalledWith(0.5, expect.any(Number));
+      expect(chain.stages.slice(-2)).toEqual([delay.stage, reverb.stage]);
+    });
+
+    it('patches instrument chorus and phaser inserts in chain order', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchorus pad: rate=1.5 depth=0.4 mix=0.3\nphaser pad: rate=0.5 depth=0.6 stages=4 mix=0.2\nchain pad: phaser > chorus\nseq pad: x...');
+
+      const chain = internals(engine).instrumentChains.get('pad');
+      const { chorus, phaser } = chain.inserts;
+      expect(chain.stages.slice(0, 2)).toEqual([phaser.stage, chorus.stage]);
+      expect(chain.preGain.connect).toHaveBeenCalledWith(phaser.stage.inputs[1]);
+      expect(phaser.stage.output.connect).toHaveBeenCalledWith(chorus.delay);
+      expect(chorus.lfo.frequency.setValueAtTime).toHaveBeenCalledWith(1.5, expect.any(Number));
+      // The master chorus and phaser stay out of the master chain
+      expect(internals(engine).masterStages.map((stage: Loose) => stage.output)).not.toContain(internals(engine).chorusMerge);
+    });
+
+    it('reuses a released insert for another instrument once its tail has died away', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nreverb kick: decay=1.5 mix=0.3\nseq kick: x...\nseq snare: ..x.');
+      const insert = internals(engine).instrumentChains.get('kick').inserts.reverb;
+
+      engine.loadPattern('TEMPO 120\nseq kick: x...\nseq snare: ..x.');
+      expect(internals(engine).instrumentChains.get('kick').inserts.reverb).toBeUndefined();
+      expect(insert.wet.gain.setValueAtTime).toHaveBeenLastCalledWith(0, 0);
+
+      // Still ringing: the snare gets new nodes
+      mockAudioContext.currentTime = 1;
+      engine.loadPattern('TEMPO 120\nreverb snare: decay=1.5 mix=0.3\nseq kick: x...\nseq snare: ..x.');
+      expect(internals(engine).instrumentChains.get('snare').inserts.reverb).not.toBe(insert);
+
+      mockAudioContext.currentTime = 2;
+      const convolvers = mockAudioContext.createConvolver.mock.calls.length;
+      engine.loadPattern('TEMPO 120\nreverb hat: decay=1.5 mix=0.4\nreverb snare: decay=1.5 mix=0.3\nseq hat: x...\nseq snare: ..x.');
+      expect(internals(engine).instrumentChains.get('hat').inserts.reverb).toBe(insert);
+      expect(mockAudioContext.createConvolver).toHaveBeenCalledTimes(convolvers);
+      expect(insert.wet.gain.setValueAtTime).toHaveBeenLastCalledWith(0.4, 2);
+    });
+
+    it('stops the LFO of a pooled insert and starts a new one on reuse', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchorus pad: rate=1.5 depth=0.4 mix=0.3\nseq pad: x...\nseq lead: x...');
+      const insert = internals(engine).instrumentChains.get('pad').inserts.chorus;
+      const lfo = insert.lfo;
+
+      engine.loadPattern('TEMPO 120\nseq pad: x...\nseq lead: x...');
+      expect(lfo.stop).toHaveBeenCalledWith(0);
+      expect(lfo.disconnect).toHaveBeenCalled();
+      expect(insert.nodes).not.toContain(lfo);
+
+      mockAudioContext.currentTime = 1;
+      engine.loadPattern('TEMPO 120\nchorus lead: rate=2 depth=0.4 mix=0.3\nseq pad: x...\nseq lead: x...');
+      expect(internals(engine).instrumentChains.get('lead').inserts.chorus).toBe(insert);
+      expect(insert.lfo).not.toBe(lfo);
+      expect(insert.lfo.connect).toHaveBeenCalledWith(insert.lfoGain);
+      expect(insert.lfo.start).toHaveBeenCalledWith(1);
+      expect(insert.lfo.frequency.setValueAtTime).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('shares one impulse response between reverbs of the same size', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nreverb kick: decay=1.5 mix=0.3\nreverb snare: decay=1.5 mix=0.6\nseq kick: x...\nseq snare: ..x.');
+
+      const chains = internals(engine).instrumentChains;
+      const kick = chains.get('kick').inserts.reverb;
+      const snare = chains.get('snare').inserts.reverb;
+      expect(kick).not.toBe(snare);
+      expect(kick.convolver.buffer).toBeTruthy();
+      expect(kick.convolver.buffer).toBe(snare.convolver.buffer);
+    });
+
+    it('swaps a phaser insert when its stage count changes', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nphaser pad: rate=0.5 depth=0.6 stages=4 mix=0.2\nseq pad: x...');
+      const chain = internals(engine).instrumentChains.get('pad');
+      const first = chain.inserts.phaser;
+
+      engine.loadPattern('TEMPO 120\nphaser pad: rate=0.5 depth=0.6 stages=8 mix=0.2\nseq pad: x...');
+      expect(chain.inserts.phaser).not.toBe(first);
+      expect(chain.stages).toContain(chain.inserts.phaser.stage);
+      expect(chain.stages).not.toContain(first.stage);
+    });
+
+    it('reorders the master chain from its fixed input', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchain master: reverb > comp\nseq kick: x...');
+
+      const e = internals(engine);
+      expect(outputs(e.masterStages)).toEqual([e.masterReverbMerge, e.masterComp, e.masterEQHigh, e.masterDistortMerge, e.masterDelayMerge]);
+      expect(e.masterChainInput.connect).toHaveBeenCalledWith(e.masterReverb);
+      expect(e.masterChainInput.connect).toHaveBeenCalledWith(e.masterReverbDryGain);
+      expect(e.masterDelayMerge.connect).toHaveBeenCalledWith(e.masterPreGain);
+    });
+
+    it('patches master chorus and phaser in only while their lines are present', async () => {
+      await engine.initialize();
+      engine.loadPattern('TEMPO 120\nchorus master: rate=1.5 depth=0.4 mix=0.3\nphaser master: rate=0.5 depth=0.6 stages=4 mix=0.2\nchain master: phaser > eq\nseq kick: x...');
+
+      const e = internals(engine);
+      expect(outputs(e.masterStages)[0]).toBe(e.phaserMerge);
+      expect(outputs(e.masterStages).at(-1)).toBe(e.chorusMerge);
+
+      engine.loadPattern('TEMPO 120\nseq kick: x...');
+      expect(outputs(e.masterStages)).not.toContain(e.chorusMerge);
+      expect(outputs(e.masterStages)).not.toContain(e.phaserMerge);
+      expect(e.chorusMerge.disconnect).toHaveBeenCalledWith(e.masterPreGain);
+    });
+  });
+
+  describe('send/return buses', () => {
+    const BUS_PATTERN = `TEMPO 120
+bus verb: reverb decay=3 mix=1
+send snare: verb=0.4
+seq snare: ....x.......x...`;
+
+    it('feeds the instrument chain output into the bus through a send gain', async () => {
+      await engine.initialize();
+      engine.loadPattern(BUS_PATTERN);
+
+      const bus = internals(engine).buses.get('verb');
+      const send = internals(engine).busSends.get('snare>verb');
+      const chain = internals(engine).instrumentChains.get('snare');
+      expect(chain.output.connect).toHaveBeenCalledWith(send);
+      expect(send.connect).toHaveBeenCalledWith(bus.input);
+      expect(send.gain.linearRampToValueAtTime).toHaveBeenCalledWith(0.4, expect.any(Number));
+      expect(bus.output.connect).toHaveBeenCalledWith(internals(engine).masterChainInput);
+    });
+
+    it('updates a bus in place when only its mix or levels change', async () => {
+      await engine.initialize();
+      engine.loadPattern(BUS_PATTERN);
+      const bus = internals(engine).buses.get('verb');
+      const send = internals(engine).busSends.get('snare>verb');
+
+      engine.loadPattern(BUS_PATTERN.replace('mix=1', 'mix=0.5').replace('verb=0.4', 'verb=0.8'));
+
+      expect(internals(engine).buses.get('verb')).toBe(bus);
+      expect(internals(engine).busSends.get('snare>verb')).toBe(send);
+      expect(bus.wet.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0.5, expect.any(Number));
+      expect(send.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0.8, expect.any(Number));
+    });
+
+    it('fades out and rebuilds a bus whose effect changes', async () => {
+      vi.useFakeTimers();
+      try {
+        await engine.initialize();
+        engine.loadPattern(BUS_PATTERN);
+        const oldBus = internals(engine).buses.get('verb');
+        const oldSend = internals(engine).busSends.get('snare>verb');
+
+        engine.loadPattern(BUS_PATTERN.replace('reverb decay=3', 'delay time=0.25'));
+
+        const newBus = internals(engine).buses.get('verb');
+        expect(newBus).not.toBe(oldBus);
+        expect(newBus.module.effect).toBe('delay');
+        expect(oldBus.output.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0, expect.any(Number));
+        expect(oldSend.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0, expect.any(Number));
+        expect(oldBus.output.disconnect).not.toHaveBeenCalled();
+
+        vi.runAllTimers();
+        expect(oldBus.output.disconnect).toHaveBeenCalled();
+        expect(oldSend.disconnect).toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('routes hits through the chain of an instrument with sends', async () => {
+      const { callback, events } = await playPattern(BUS_PATTERN);
+      const chain = internals(engine).instrumentChains.get('snare');
+
+      callback(1, events[0]);
+
+      const connected = newNodes(mockAudioContext.createGain)
+        .some(gain => gain.connect.mock.calls.some(([node]: unknown[]) => node === chain.input));
+      expect(connected).toBe(true);
+    });
+  });
+
+  describe('choke groups', () => {
+    const CHOKE_PATTERN = `TEMPO 120
+choke hats: hihat openhat
+seq hihat: x.x.x.x.x.x.x.x.
+seq openhat: .x...x...x...x..
+seq kick: x...x...x...x...`;
+
+    async function playChokePattern() {
+      const { callback, events } = await playPattern(CHOKE_PATTERN);
+      // Returns the gate and the source (sample or synth) created for the hit
+      return (instrument: string, time: number) => {
+        const gains = mockAudioContext.createGain.mock.results.length;
+        const samples = mockTone.context.createBufferSource.mock.results.length;
+        const oscillators = mockTone.context.createOscillator.mock.results.length;
+        callback(time, events.find(e => e.instrument === instrument));
+        return {
+          gate: newNodes(mockAudioContext.createGain, gains)[1],
+          source: newNodes(mockTone.context.createBufferSource, samples)[0] ?? newNodes(mockTone.context.createOscillator, oscillators)[0],
+        };
+      };
+    }
+
+    it('fades out a ringing voice of another member when a member hits', async () => {
+      const hit = await playChokePattern();
+      const open = hit('openhat', 1);
+      open.source.stop.mockClear();
+
+      hit('hihat', 1.25);
+
+      expect(open.gate.gain.linearRampToValueAtTime).toHaveBeenCalledWith(0, expect.closeTo(1.26));
+      expect(open.source.stop).toHaveBeenCalledWith(expect.closeTo(1.26));
+    });
+
+    it('lets repeated hits of one member and other instruments ring', async () => {
+      const hit = await playChokePattern();
+      const open = hit('openhat', 1);
+
+      hit('openhat', 1.25);
+      hit('kick', 1.5);
+
+      expect(open.gate.gain.linearRampToValueAtTime).not.toHaveBeenCalled();
+    });
+
+    it('forgets voices once they end', async () => {
+      const hit = await playChokePattern();
+      const open = hit('openhat', 1);
+      const ended = open.source.addEventListener.mock.calls.filter(([event]: unknown[]) => event === 'ended');
+      ended.forEach(([, listener]: Loose[]) => listener());
+
+      hit('hihat', 1.25);
+
+      expect(open.gate.gain.linearRampToValueAtTime).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('synth voices', () => {
+    const SYNTH_PATTERN = `TEMPO 120
+synth lead: osc=saw osc2=square detune=1200 sub=0.5 cutoff=1000 res=4 fenv=0.5 fattack=0.01 fdecay=0.2 glide=0.05
+notes lead: A2 . A3 . . . . . . . . . . . . .`;
+
+    async function playSynthPattern(pattern = SYNTH_PATTERN) {
+      const { callback, events } = await playPattern(pattern);
+      const notes = events.filter(e => e.instrument === 'lead');
+      // Plays the nth lead note and returns the oscillators and filter it created
+      return (index: number, time: number) => {
+        const oscillators = mockTone.context.createOscillator.mock.results.length;
+        const filters = mockAudioContext.createBiquadFilter.mock.results.length;
+        callback(time, notes[index]);
+        return {
+          oscillators: newNodes(mockTone.context.createOscillator, oscillators),
+          filter: newNodes(mockAudioContext.createBiquadFilter, filters)[0],
+        };
+      };
+    }
+
+    it('layers osc2 at the detune ratio and a square sub an octave down', async () => {
+      const note = await playSynthPattern();
+      const { oscillators } = note(0, 1);
+
+      expect(oscillators.map(o => o.type)).toEqual(['sawtooth', 'square', 'square']);
+      expect(oscillators[0].frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(110), 1);
+      expect(oscillators[1].frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(220), 1);
+      expect(oscillators[2].frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(55), 1);
+      oscillators.forEach(o => expect(o.start).toHaveBeenCalledWith(1));
+    });
+
+    it('sweeps a resonant lowpass with the filter envelope', async () => {
+      const note = await playSynthPattern();
+      const { filter } = note(0, 1);
+
+      expect(filter.type).toBe('lowpass');
+      expect(filter.Q.setValueAtTime).toHaveBeenCalledWith(4, 1);
+      expect(filter.frequency.exponentialRampToValueAtTime).toHaveBeenNthCalledWith(1, 4000, expect.closeTo(1.01));
+      expect(filter.frequency.exponentialRampToValueAtTime).toHaveBeenNthCalledWith(2, 1000, expect.closeTo(1.21));
+    });
+
+    it('glides from the previous note', async () => {
+      const note = await playSynthPattern();
+      note(0, 1);
+      const { oscillators } = note(1, 1.25);
+
+      expect(oscillators[0].frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(110), 1.25);
+      expect(oscillators[0].frequency.exponentialRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(220), expect.closeTo(1.3));
+    });
+
+    it('uses the env line for the amp envelope', async () => {
+      const note = await playSynthPattern(`TEMPO 120
+synth lead: osc=triangle
+env lead: attack=0.1 decay=0.2 sustain=0.5 release=0.4
+notes lead: A2 . . .`);
+      const gains = () => mockAudioContext.createGain.mock.results;
+      const before = gains().length;
+      const { oscillators } = note(0, 1);
+      const envelope = gains()[before].value;
+
+      expect(oscillators).toHaveLength(1);
+      expect(envelope.gain.linearRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.21), expect.closeTo(1.1));
+      expect(oscillators[0].stop).toHaveBeenCalledWith(expect.closeTo(1.76));
+    });
+  });
+
+  describe('fm voices', () => {
+    const FM_PATTERN = `TEMPO 120
+fm bell: ratio=3.5 index=4 ienv=0.3
+seq bell: X.x.............`;
+
+    async function playFmPattern(pattern = FM_PATTERN) {
+      const { callback, events } = await playPattern(pattern);
+      const hits = events.filter(e => e.instrument === 'bell');
+      // Plays the nth bell hit and returns its carrier, modulator and index gain
+      return (index: number, time: number) => {
+        const oscillators = mockTone.context.createOscillator.mock.results.length;
+        callback(time, hits[index]);
+        const [carrier, modulator] = newNodes(mockTone.context.createOscillator, oscillators);
+        const depth = newNodes(mockAudioContext.createGain).at(-1)!;
+        return { carrier, modulator, depth };
+      };
+    }
+
+    it('runs a sine modulator at the ratio into the carrier frequency', async () => {
+      const hit = await playFmPattern(FM_PATTERN.replace('seq bell: X.x.............', 'notes bell: A4 . . .'));
+      const { carrier, modulator, depth } = hit(0, 1);
+
+      expect([carrier.type, modulator.type]).toEqual(['sine', 'sine']);
+      expect(carrier.frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(440), 1);
+      expect(modulator.frequency.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(1540), 1);
+      expect(modulator.connect).toHaveBeenCalledWith(depth);
+      expect(depth.connect).toHaveBeenCalledWith(carrier.frequency);
+    });
+
+    it('scales the modulation index with velocity and decays it by ienv', async () => {
+      const hit = await playFmPattern();
+      const accent = hit(0, 1);
+      const normal = hit(1, 1.25);
+
+      // Peak deviation = index × velocity × modulator frequency (440 × 3.5)
+      expect(accent.depth.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(4 * 1540), 1);
+      expect(normal.depth.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(4 * 0.7 * 1540), 1.25);
+      expect(accent.depth.gain.setTargetAtTime).toHaveBeenCalledWith(0, 1, expect.closeTo(0.1));
+    });
+
+    it('previews a voice through the master chain at full velocity', async () => {
+      await engine.initialize();
+      const oscillators = mockTone.context.createOscillator.mock.results.length;
+
+      engine.previewFmVoice({ name: 'bass', ratio: 0.5, index: 3, ienv: 0 }, 55);
+
+      const [carrier, modulator] = newNodes(mockTone.context.createOscillator, oscillators);
+      expect(carrier.frequency.setValueAtTime).toHaveBeenCalledWith(55, expect.any(Number));
+      expect(modulator.frequency.setValueAtTime).toHaveBeenCalledWith(27.5, expect.any(Number));
+      expect(carrier.start).toHaveBeenCalled();
+    });
+  });
+
+  describe('drum voices', () => {
+    const DRUM_PATTERN = `TEMPO 120
+drum kick: model=808 tune=-3 decay=0.9
+seq kick: x...x...x...x...
+seq snare: ....x.......x...`;
+
+    it('renders a buffer per drum line and plays it for the instrument', async () => {
+      await engine.initialize();
+      const rendered = mockAudioContext.createBuffer.mock.results.length;
+      engine.loadPattern(DRUM_PATTERN);
+      expect(mockAudioContext.createBuffer.mock.results.length).toBe(rendered + 1);
+      const drumBuffer = newNodes(mockAudioContext.createBuffer).at(-1)!;
+
+      await engine.play();
+      const { callback, events } = getLastPart();
+      callback(1, events.find(e => e.instrument === 'kick'));
+      expect(newNodes(mockTone.context.createBufferSource).at(-1)!.buffer).toBe(drumBuffer);
+
+      // Instruments without a drum line keep the built-in sample
+      callback(1.5, events.find(e => e.instrument === 'snare'));
+      expect(newNodes(mockTone.context.createBufferSource).at(-1)!.buffer).not.toBe(drumBuffer);
+    });
+
+    it('only re-renders voices whose parameters changed', async () => {
+      await engine.initialize();
+      engine.loadPattern(DRUM_PATTERN);
+      const rendered = mockAudioContext.createBuffer.mock.results.length;
+
+      engine.loadPattern(DRUM_PATTERN + '\nseq hihat: x.x.x.x.x.x.x.x.');
+      expect(mockAudioContext.createBuffer.mock.results.length).toBe(rendered);
+
+      engine.loadPattern(DRUM_PATTERN.replace('tune=-3', 'tune=-5'));
+      expect(mockAudioContext.createBuffer.mock.results.length).toBe(rendered + 1);
+    });
+  });
+
+  describe('user samples', () => {
+    const USER_PATTERN = `TEMPO 120
+sample kick: user:my-kick
+seq kick: x...x...x...x...`;
+
+    const playedBuffer = async (pattern: string, instrument: string) => {
+      engine.loadPattern(pattern);
+      await engine.play();
+      const { callback, events } = getLastPart();
+      callback(1, events.find(e => e.instrument === instrument));
+      return newNodes(mockTone.context.createBufferSource).at(-1)!.buffer;
+    };
+
+    it('decodes an imported file, stores it and plays it from the DSL', async () => {
+      const save = vi.spyOn(UserSampleService, 'save').mockResolvedValue();
+      await engine.initialize();
+
+      // jsdom's File has no arrayBuffer()
+      const file = Object.assign(new File([new Uint8Array(8)], 'My Kick.wav', { type: 'audio/wav' }), {
+        arrayBuffer: async () => new ArrayBuffer(8)
+      });
+      const sample = await engine.importUserSample(file);
+      const decoded = await newNodes(mockAudioContext.decodeAudioData).at(-1)!;
+
+      expect(sample).toMatchObject({ name: 'my-kick', fileName: 'My Kick.wav', duration: 0.5, sampleRate: 44100, channels: 2 });
+      expect(save).toHaveBeenCalledWith(expect.objectContaining({ name: 'my-kick', data: expect.any(ArrayBuffer) }));
+      expect(await playedBuffer(USER_PATTERN, 'kick')).toBe(decoded);
+      save.mockRestore();
+    });
+
+    it('rejects files it cannot import', async () => {
+      await engine.initialize();
+      await expect(engine.importUserSample(new File([new Uint8Array(8)], 'kick.mp3')))
+        .rejects.toThrow('Unsupported file type: kick.mp3. Use WAV, AIFF or OGG');
+    });
+
+    it('loads the stored library on initialize', async () => {
+      const getAll = vi.spyOn(UserSampleService, 'getAll').mockResolvedValue([{
+        name: 'my-kick', fileName: 'my-kick.wav', type: 'audio/wav', size: 8, duration: 0.5,
+        sampleRate: 44100, channels: 2, addedAt: new Date(), data: new ArrayBuffer(8)
+      }]);
+      await engine.initialize();
+      const decoded = await newNodes(mockAudioContext.decodeAudioData).at(-1)!;
+
+      expect(await playedBuffer(USER_PATTERN, 'kick')).toBe(decoded);
+      getAll.mockRestore();
+    });
+
+    it('falls back to the built-in sound for a missing sample, warning once', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await engine.initialize();
+      const builtIn = await playedBuffer('TEMPO 120\nseq kick: x...x...', 'kick');
+
+      expect(await playedBuffer(USER_PATTERN, 'kick')).toBe(builtIn);
+      const { callback, events } = getLastPart();
+      callback(2, events.find(e => e.instrument === 'kick'));
+      expect(warn.mock.calls.filter(([message]) => String(message).includes('user:my-kick'))).toHaveLength(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('loop slices', () => {
+    // The mocked built-in snare buffer is 0.1s long; one bar at 120 BPM lasts 2s
+    const playLoop = async (pattern: string) => {
+      const { callback, events } = await playPattern(pattern);
+      const slices = events.filter(e => e.instrument === 'break');
+      const sources = mockTone.context.createBufferSource.mock.results.length;
+      slices.forEach(event => callback(event.time, event));
+      return {
+        events: slices,
+        sources: newNodes(mockTone.context.createBufferSource, sources)
+      };
+    };
+
+    it('plays the slice under each step, re-pitched to the bar length', async () => {
+      const { events, sources } = await playLoop('TEMPO 120\nloop break: snare bars=1 slices=4\nseq break: x...x...x...x...');
+
+      expect(events.map(e => e.slice)).toEqual([0, 1, 2, 3]);
+      sources.forEach((source, i) => {
+        expect(source.playbackRate.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.05), events[i].time);
+        expect(source.start).toHaveBeenCalledWith(events[i].time, expect.closeTo(0.025 * i), expect.closeTo(0.025));
+      });
+      // A 0.025s slice at 1/20 speed lasts half a second
+      expect(sources[0].stop).toHaveBeenCalledWith(expect.closeTo(0.51));
+    });
+
+    it('follows the slice order', async () => {
+      const { events } = await playLoop('TEMPO 120\nloop break: snare slices=4 order=3,2,1,0\nseq break: xx.xx...........');
+      // One entry per step, so rests skip theirs
+      expect(events.map(e => e.slice)).toEqual([3, 2, 0, 3]);
+    });
+
+    it('stretches the loop over several bars', async () => {
+      const { events, sources } = await playLoop('TEMPO 120\nloop break: snare bars=2 slices=4\nseq break: x.......x.......|x.......x.......');
+      expect(events.map(e => e.slice)).toEqual([0, 1, 2, 3]);
+      expect(sources[0].playbackRate.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.025), 0);
+    });
+  });
+
+  describe('sample playback options', () => {
+    // The mocked built-in snare buffer is 0.1s long
+    const playSnare = async (options: string, times = [1]) => {
+      const { callback, events } = await playPattern(`TEMPO 120\nsample snare: snare ${options}\nseq snare: x...x...`);
+      const event = events.find(e => e.instrument === 'snare');
+      const sources = mockTone.context.createBufferSource.mock.results.length;
+      times.forEach(time => callback(time, event));
+      return newNodes(mockTone.context.createBufferSource, sources);
+    };
+
+    it('plays the region between start and end, transposed by pitch', async () => {
+      const [source] = await playSnare('start=0.25 end=0.75 pitch=12');
+      expect(source.playbackRate.setValueAtTime).toHaveBeenCalledWith(2, 1);
+      expect(source.start).toHaveBeenCalledWith(1, expect.closeTo(0.025), expect.closeTo(0.05));
+      // Half a 0.05s region at double speed
+      expect(source.stop).toHaveBeenCalledWith(expect.closeTo(1.035));
+    });
+
+    it('reverses the buffer once and reuses it for later hits', async () => {
+      await engine.initialize();
+      const rendered = mockAudioContext.createBuffer.mock.results.length;
+      const [first, second] = await playSnare('end=0.5 reverse', [1, 1.5]);
+
+      expect(mockAudioContext.createBuffer.mock.results.length).toBe(rendered + 1);
+      expect(first.buffer).toBe(newNodes(mockAudioContext.createBuffer).at(-1)!);
+      expect(second.buffer).toBe(first.buffer);
+      // The first half of the sample sits at the end of the reversed buffer
+      expect(first.start).toHaveBeenCalledWith(1, expect.closeTo(0.05), expect.closeTo(0.05));
+    });
+
+    it('loops the region until the usual cut', async () => {
+      const [source] = await playSnare('start=0.5 loop');
+      expect(source.loop).toBe(true);
+      expect(source.loopStart).toBeCloseTo(0.05);
+      expect(source.loopEnd).toBeCloseTo(0.1);
+      expect(source.start).toHaveBeenCalledWith(1, expect.closeTo(0.05));
+      expect(source.stop).toHaveBeenCalledWith(2.5);
+    });
+
+    it('fades in and out of the region', async () => {
+      const gains = mockAudioContext.createGain.mock.results.length;
+      await playSnare('fade=0.02');
+      const envelope = newNodes(mockAudioContext.createGain, gains)
+        .find(g => g.gain.linearRampToValueAtTime.mock.calls.some(([value]: number[]) => value === 0))!;
+
+      expect(envelope.gain.setValueAtTime).toHaveBeenCalledWith(0, 1);
+      expect(envelope.gain.linearRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.7), expect.closeTo(1.02));
+      expect(envelope.gain.linearRampToValueAtTime).toHaveBeenCalledWith(0, expect.closeTo(1.11));
+    });
+  });
+
+  describe('sidechain ducking', () => {
+    const DUCK_PATTERN = `TEMPO 120
+duck bass: sidechain=kick depth=0.75 attack=0.03 release=0.3
+seq kick: x...x...x...x...
+notes bass: . . A1 . . . A1 . . . A1 . . . A1 .`;
+
+    it('inserts a unity duck gain after the chain compressor', async () => {
+      await engine.initialize();
+      engine.loadPattern(DUCK_PATTERN);
+
+      const chain = internals(engine).instrumentChains.get('bass');
+      expect(chain.comp.connect).toHaveBeenCalledWith(chain.duck);
+      expect(chain.duck.connect).toHaveBeenCalledWith(chain.eqLow);
+      expect(chain.duck.gain.setValueAtTime).toHaveBeenCalledWith(1, expect.any(Number));
+    });
+
+    it('dips the ducked chain on each sidechain hit and recovers over the release', async () => {
+      const { callback, events } = await playPattern(DUCK_PATTERN);
+
+      callback(2, events.find(e => e.instrument === 'kick'));
+
+      const duckGain = internals(engine).instrumentChains.get('bass').duck.gain;
+      expect(duckGain.setTargetAtTime).toHaveBeenCalledWith(0.25, 2, expect.closeTo(0.01));
+      expect(duckGain.setTargetAtTime).toHaveBeenCalledWith(1, expect.closeTo(2.03), expect.closeTo(0.1));
+    });
+
+    it('does not duck on hits of other instruments', async () => {
+      const { callback, events } = await playPattern(DUCK_PATTERN);
+
+      callback(2, events.find(e => e.instrument === 'bass'));
+
+      expect(internals(engine).instrumentChains.get('bass').duck.gain.setTargetAtTime).not.toHaveBeenCalled();
+    });
+
+    it('reports gain reduction in dB and resets it when the module is removed', async () => {
+      await engine.initialize();
+      engine.loadPattern(DUCK_PATTERN);
+      const duckGain = internals(engine).instrumentChains.get('bass').duck.gain;
+      duckGain.value = 0.5;
+      expect(engine.getState().gainReduction?.bass).toBeCloseTo(6.02, 1);
+
+      engine.loadPattern(DUCK_PATTERN.split('\n').filter(line => !line.startsWith('duck')).join('\n'));
+      expect(duckGain.cancelScheduledValues).toHaveBeenCalled();
+      expect(duckGain.setValueAtTime).toHaveBeenLastCalledWith(1, expect.any(Number));
+      expect(engine.getState().gainReduction).toEqual({});
+    });
+  });
+
   describe('groove/swing events', () => {
     it('includes groove offsets in Tone.Part events for swing patterns', async () => {
       await engine.initialize();
@@ -307,7 +1255,7 @@ groove master: type=swing amount=0.6`);
       const events = getLastPartEvents();
 
       // Swing delays odd steps — with all 16 hits, 8 should have non-zero offset
-      const offsetEvents = events.filter((e: any) => e.grooveOffset !== 0);
+      const offsetEvents = events.filter(e => e.grooveOffset !== 0);
       expect(offsetEvents.length).toBeGreaterThan(0);
     });
 
@@ -326,11 +1274,11 @@ groove master: type=swing amount=0.6 subdivision=8n`);
       const onBeatSteps = [0, 1, 4, 5, 8, 9, 12, 13];
 
       for (const s of offBeatSteps) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBeGreaterThan(0);
       }
       for (const s of onBeatSteps) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBe(0);
       }
     });
@@ -347,11 +1295,11 @@ groove master: type=swing amount=0.6 subdivision=16n`);
       // subdivision=16n, stepsPerSubdiv=1: off-beats where floor(step/1)%2===1
       // That's odd steps: 1,3,5,7,9,11,13,15
       for (const s of [1, 3, 5, 7, 9, 11, 13, 15]) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBeGreaterThan(0);
       }
       for (const s of [0, 2, 4, 6, 8, 10, 12, 14]) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBe(0);
       }
     });
@@ -371,11 +1319,11 @@ groove master: type=swing amount=0.6 subdivision=4n`);
       const onBeatSteps = [0, 1, 2, 3, 8, 9, 10, 11];
 
       for (const s of offBeatSteps) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBeGreaterThan(0);
       }
       for (const s of onBeatSteps) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBe(0);
       }
     });
@@ -389,7 +1337,7 @@ seq kick: xxxxxxxxxxxxxxxx
 groove master: type=swing amount=0.6 subdivision=16n`);
       await engine.play();
       const events16n = getLastPartEvents();
-      const offset16n = events16n.find((e: any) => e.step === 1)?.grooveOffset;
+      const offset16n = events16n.find(e => e.step === 1)?.grooveOffset;
 
       // 8n swing
       engine.stop();
@@ -399,7 +1347,7 @@ seq kick: xxxxxxxxxxxxxxxx
 groove master: type=swing amount=0.6 subdivision=8n`);
       await engine.play();
       const events8n = getLastPartEvents();
-      const offset8n = events8n.find((e: any) => e.step === 2)?.grooveOffset;
+      const offset8n = events8n.find(e => e.step === 2)?.grooveOffset;
 
       // 4n swing
       engine.stop();
@@ -409,7 +1357,7 @@ seq kick: xxxxxxxxxxxxxxxx
 groove master: type=swing amount=0.6 subdivision=4n`);
       await engine.play();
       const events4n = getLastPartEvents();
-      const offset4n = events4n.find((e: any) => e.step === 4)?.grooveOffset;
+      const offset4n = events4n.find(e => e.step === 4)?.grooveOffset;
 
       // 8n offset should be 2x the 16n offset, 4n should be 4x
       expect(offset8n).toBeCloseTo(offset16n! * 2, 5);
@@ -437,8 +1385,8 @@ groove master: type=swing amount=0.6 subdivision=8n`);
 
       // Both should produce the same offsets for each step
       for (let s = 0; s < 16; s++) {
-        const evDef = eventsDefault.find((e: any) => e.step === s);
-        const ev8n = events8n.find((e: any) => e.step === s);
+        const evDef = eventsDefault.find(e => e.step === s);
+        const ev8n = events8n.find(e => e.step === s);
         expect(evDef?.grooveOffset).toBeCloseTo(ev8n?.grooveOffset ?? 0, 5);
       }
     });
@@ -454,11 +1402,11 @@ groove master: type=swing amount=0.6 steps=odd`);
 
       // steps=odd should target odd steps (1,3,5,...) regardless of subdivision
       for (const s of [1, 3, 5, 7, 9, 11, 13, 15]) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBeGreaterThan(0);
       }
       for (const s of [0, 2, 4, 6, 8, 10, 12, 14]) {
-        const ev = events.find((e: any) => e.step === s);
+        const ev = events.find(e => e.step === s);
         expect(ev?.grooveOffset).toBe(0);
       }
     });
@@ -470,11 +1418,258 @@ seq kick: x.x.x.x.x.x.x.x.`);
       await engine.play();
 
       const events = getLastPartEvents();
-      const offsetEvents = events.filter((e: any) => e.grooveOffset !== 0);
+      const offsetEvents = events.filter(e => e.grooveOffset !== 0);
       expect(offsetEvents.length).toBe(0);
     });
   });
 
+  describe('song arrangement', () => {
+    it('schedules each section pass at its offset on the song timeline', async () => {
+      const { events } = await playPattern(`TEMPO 120
+section intro:
+seq kick: x...............
+section verse:
+seq snare: ....x...........
+song: intro verse*2`);
+
+      const stepInterval = 60 / 120 / 4;
+      const snares = events.filter(e => e.instrument === 'snare');
+      expect(events.filter(e => e.instrument === 'kick')).toHaveLength(1);
+      expect(snares).toHaveLength(2);
+      expect(snares[0].time).toBeCloseTo((16 + 4) * stepInterval);
+      expect(snares[1].time).toBeCloseTo((32 + 4) * stepInterval);
+      expect(snares[0].section).toBe('verse');
+    });
+
+    it('plays global sequences under every section and loops the whole song', async () => {
+      const { events } = await playPattern(`TEMPO 120
+seq hihat: x...............
+section a:
+seq kick: x...............
+section b:
+seq kick: x...............
+song: a b*2`);
+
+      expect(events.filter(e => e.instrument === 'hihat')).toHaveLength(3);
+      const part = newNodes(mockTone.Part).at(-1)!;
+      expect(part.loopEnd).toBeCloseTo(48 * (60 / 120 / 4));
+    });
+  });
+
+  describe('melodic notes', () => {
+    it('carries per-step pitch on Tone.Part events', async () => {
+      const { events } = await playPattern(`TEMPO 120
+notes bass: C2 . A4 .`);
+
+      expect(events).toHaveLength(8); // 4-step line loops 4 times over 16 steps
+      expect(events[0].pitch).toBeCloseTo(65.41, 1);
+      expect(events[1].pitch).toBeCloseTo(440);
+    });
+
+    it('tunes the synth voice to the note of each hit', async () => {
+      const { callback } = await playPattern(`TEMPO 120
+notes bass: A4 . . .`);
+
+      callback(1, { instrument: 'bass', velocity: 0.7, pitch: 110, grooveOffset: 0 });
+      const osc = newNodes(mockTone.context.createOscillator).at(-1)!;
+      expect(osc.frequency.setValueAtTime).toHaveBeenCalledWith(110, 1);
+    });
+  });
+
+  describe('flam and roll', () => {
+    it('adds a softer grace hit ahead of flam steps', async () => {
+      const { events } = await playPattern(`TEMPO 120
+articulation snare: flam=0.02
+seq snare: ....f...........`);
+
+      const grace = events.find(e => e.grace);
+      const main = events.find(e => !e.grace);
+      expect(events).toHaveLength(2);
+      expect(main.time - grace.time).toBeCloseTo(0.02);
+      expect(grace.velocity).toBeCloseTo(main.velocity * 0.5);
+    });
+
+    it('wraps the grace hit of a flam on step 0 to the loop end', async () => {
+      await playPattern(`TEMPO 120
+seq snare: f...............`);
+
+      const grace = getLastPartEvents().find(e => e.grace);
+      expect(grace.time).toBeCloseTo(16 * (60 / 120 / 4) - 0.03);
+    });
+
+    it('leads a step 0 flam into its song section instead of wrapping', async () => {
+      await playPattern(`TEMPO 120
+section a:
+seq kick: x...............
+section b:
+seq snare: f...............
+song: b a b`);
+
+      const stepInterval = 60 / 120 / 4;
+      const graces = getLastPartEvents().filter(e => e.grace).map(e => e.time);
+      // The first pass can't start before the song, the last leads in from the end of section a
+      expect(graces).toHaveLength(2);
+      expect(graces[0]).toBe(0);
+      expect(graces[1]).toBeCloseTo(32 * stepInterval - 0.03);
+    });
+
+    it('splits roll steps into evenly spaced hits', async () => {
+      await playPattern(`TEMPO 120
+articulation snare: roll=4
+seq snare: ........r.......`);
+
+      const stepInterval = 60 / 120 / 4;
+      const times = getLastPartEvents().map(e => e.time);
+      expect(times).toHaveLength(4);
+      times.forEach((t: number, i: number) => {
+        expect(t).toBeCloseTo(8 * stepInterval + (i * stepInterval) / 4);
+      });
+    });
+  });
+
+  describe('ties', () => {
+    it('carries the tied length on hit events', async () => {
+      const { events } = await playPattern('TEMPO 120\nseq pad: x---....x.......');
+
+      expect(events).toHaveLength(2);
+      expect(events[0].duration).toBeCloseTo(4 * 0.125);
+      expect(events[1].duration).toBeUndefined();
+    });
+
+    it('starts the envelope release at the end of a tied note', async () => {
+      const { callback } = await playPattern(`TEMPO 120
+env pad: attack=0.01 decay=0.1 sustain=0.5 release=0.3
+notes pad: A4 - - - - - - - . . . . . . . .`);
+
+      callback(1, { instrument: 'pad', velocity: 0.8, pitch: 440, duration: 1, grooveOffset: 0 });
+      const envelope = newNodes(mockAudioContext.createGain).at(-1)!;
+      const osc = newNodes(mockTone.context.createOscillator).at(-1)!;
+      expect(envelope.gain.setValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.3 * 0.8 * 0.5), 2);
+      expect(envelope.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0.001, 2.3);
+      expect(osc.stop).toHaveBeenCalledWith(expect.closeTo(2.31));
+    });
+
+    it('holds an unenveloped synth note for its length', async () => {
+      const { callback } = await playPattern('TEMPO 120\nnotes pad: A4 - - - . . . .');
+
+      callback(1, { instrument: 'pad', velocity: 0.7, pitch: 440, duration: 0.5, grooveOffset: 0 });
+      const osc = newNodes(mockTone.context.createOscillator).at(-1)!;
+      expect(osc.stop).toHaveBeenCalledWith(expect.closeTo(1.6));
+    });
+  });
+
+  describe('ratchets', () => {
+    it('subdivides a ratcheted step into evenly spaced hits', async () => {
+      await playPattern(`TEMPO 120
+seq hihat: ....x3...........`);
+
+      const stepInterval = 60 / 120 / 4;
+      const events = getLastPartEvents();
+      expect(events).toHaveLength(3);
+      events.forEach((e, i) => {
+        expect(e.time).toBeCloseTo(4 * stepInterval + (i * stepInterval) / 3);
+        expect(e.velocity).toBeCloseTo(0.7);
+      });
+    });
+
+    it('ramps velocity across ratchet hits', async () => {
+      await playPattern(`TEMPO 120
+seq hihat: X{4}<...X{4}>...........`);
+
+      const velocities = getLastPartEvents().map(e => e.velocity);
+      expect(velocities.slice(0, 4)).toEqual([0.4, 0.6, 0.8, 1].map(v => expect.closeTo(v)));
+      expect(velocities.slice(4, 8)).toEqual([1, 0.8, 0.6, 0.4].map(v => expect.closeTo(v)));
+    });
+  });
+
+  describe('time signatures and step resolution', () => {
+    it('loops one bar of the TIME signature', async () => {
+      await playPattern(`TEMPO 120
+TIME 7/8
+seq kick: x.....x.......`);
+
+      const part = newNodes(mockTone.Part).at(-1)!;
+      expect(part.loopEnd).toBeCloseTo(14 * (60 / 120 / 4));
+    });
+
+    it('spaces steps by each line\'s resolution', async () => {
+      await playPattern(`TEMPO 120
+seq kick: x...x...x...x...
+seq hihat: xxxxxxxxxxxx res=16t
+seq bass: x...x... res=8n`);
+
+      const sixteenth = 60 / 120 / 4;
+      const events = getLastPartEvents();
+      const hats = events.filter(e => e.instrument === 'hihat');
+      const bass = events.filter(e => e.instrument === 'bass');
+      // 12 triplet steps span 8 sixteenths, so they loop twice in the bar
+      expect(hats).toHaveLength(24);
+      expect(hats[3].time).toBeCloseTo(3 * sixteenth * 2 / 3);
+      expect(bass.map(e => e.time)).toEqual([0, 8 * sixteenth].map(t => expect.closeTo(t)));
+    });
+
+    it('fits ratchets inside a longer step', async () => {
+      const { events } = await playPattern(`TEMPO 120
+seq hihat: x2....... res=8n`);
+
+      expect(events[1].time).toBeCloseTo(60 / 120 / 4); // half of an 8th
+    });
+  });
+
+  describe('trig conditions', () => {
+    async function playAndSpy(pattern: string) {
+      const part = await playPattern(pattern);
+      const hits = vi.spyOn(internals(engine), 'scheduleInstrumentHit').mockImplementation(() => {});
+      return { hits, ...part };
+    }
+
+    it('fires ratio trigs on the matching loop pass', async () => {
+      const { hits, callback, events } = await playAndSpy(`TEMPO 120
+seq snare: x@2:3...............`);
+      for (let loop = 0; loop < 6; loop++) callback(loop, events[0]);
+      expect(hits.mock.calls.map(call => call[1])).toEqual([1, 4]);
+    });
+
+    it('reuses the decision for every hit of a conditional ratchet', async () => {
+      const { hits, callback, events } = await playAndSpy(`TEMPO 120
+seq hihat: x4@1:2...............`);
+      for (let loop = 0; loop < 2; loop++) {
+        events.forEach(e => callback(loop, e));
+      }
+      expect(hits).toHaveBeenCalledTimes(4);
+      expect(hits.mock.calls.every(call => call[1] === 0)).toBe(true);
+    });
+
+    it('repeats probability decisions for the same seed', async () => {
+      const pattern = `TEMPO 120
+SEED 99
+seq hihat: x?50...............`;
+      const run = async () => {
+        const { hits, callback, events } = await playAndSpy(pattern);
+        for (let loop = 0; loop < 32; loop++) callback(loop, events[0]);
+        engine.stop();
+        const fired = hits.mock.calls.map(call => call[1]);
+        hits.mockRestore();
+        return fired;
+      };
+      const first = await run();
+      const second = await run();
+      expect(first.length).toBeGreaterThan(0);
+      expect(first.length).toBeLessThan(32);
+      expect(second).toEqual(first);
+    });
+
+    it('plays fill trigs only while fill mode is held', async () => {
+      const { hits, callback, events } = await playAndSpy(`TEMPO 120
+seq snare: x@fill.x@!fill.............`);
+      events.forEach(e => callback(0, e));
+      engine.setFillMode(true);
+      events.forEach(e => callback(1, e));
+      expect(hits.mock.calls.map(call => call[1])).toEqual([0, 1]);
+      expect(engine.getState().fillMode).toBe(true);
+    });
+  });
+
   describe('overflow mode', () => {
     it('defaults to loop mode', () => {
       expect(engine.getState().overflowMode).toBe('loop');
@@ -64,6 +64,55 @@ export interface EnvelopeModule {
   release: number;  // 0.01-5.0 seconds
 }
 
+export type SynthWave = 'sine' | 'square' | 'saw' | 'triangle';
+
+/** `synth lead: osc=saw osc2=square detune=7 sub=0.5 cutoff=1200 res=4 fenv=0.6`; amp envelope comes from `env` */
+export interface SynthModule {
+  name: string;
+  osc: SynthWave;     // main oscillator
+  osc2?: SynthWave;   // second oscillator; only set when used
+  detune: number;     // osc2 offset in cents, -1200..1200
+  sub: number;        // square sub-oscillator one octave down, level 0-1
+  cutoff: number;     // lowpass cutoff, 20-20000 Hz
+  res: number;        // resonance (Q), 0.1-30
+  fenv: number;       // filter envelope amount 0-1 (up to 4 octaves above cutoff)
+  fattack: number;    // filter envelope attack, 0.001-2 seconds
+  fdecay: number;     // filter envelope decay back to cutoff, 0.01-5 seconds
+  glide: number;      // portamento from the previous note, 0-1 seconds
+}
+
+/** `fm bell: ratio=3.5 index=4 ienv=0.3`: a sine modulator driving a sine carrier; amp envelope comes from `env` */
+export interface FmModule {
+  name: string;
+  ratio: number;      // modulator frequency as a multiple of the note pitch, 0.125-16
+  index: number;      // modulation index at full velocity, 0-20
+  ienv: number;       // seconds for the index to fall away after the hit, 0-5 (0 holds it)
+}
+
+export type DrumModel = 'kick' | '808' | 'snare' | 'tom' | 'hat' | 'openhat' | 'clap' | 'rim' | 'cowbell' | 'shaker' | 'crash' | 'perc';
+
+/** `drum kick: model=808 tune=-3 decay=0.9 click=0.4 tone=0.2`; defaults render the built-in sample of that model */
+export interface DrumModule {
+  name: string;
+  model: DrumModel;
+  tune: number;       // semitones, -24..24
+  decay: number;      // length multiplier, 0.1-4
+  click: number;      // attack transient level, 0-1
+  tone: number;       // brightness: drive for kick/808/tom, treble lift for the rest, 0-1
+}
+
+/**
+ * `loop break: user:amen bars=1 slices=16`: a loop re-pitched to last `bars` bars at
+ * the current tempo and cut into equal slices; each `seq` hit plays one slice
+ */
+export interface LoopModule {
+  name: string;       // instrument name
+  sample: string;     // sample identifier, as on a `sample` line
+  bars: number;       // loop length in bars of the TIME signature, 0.25-16
+  slices: number;     // equal slices, 1-64
+  order?: number[];   // slice for each step (wrapping); else the slice under the step
+}
+
 export interface ChorusModule {
   name: string;
   rate: number;     // 0.1-10 Hz
@@ -79,23 +128,166 @@ export interface PhaserModule {
   mix: number;      // 0-1 (dry/wet)
 }
 
+/** `choke hats: hihat openhat`: a hit on any member cuts the ringing voices of the others */
+export interface ChokeModule {
+  name: string;       // group name
+  members: string[];  // instrument names, at least two
+}
+
+/** `duck bass: sidechain=kick depth=0.6`: dips an instrument's level on every hit of another */
+export interface DuckModule {
+  name: string;       // ducked instrument
+  sidechain: string;  // instrument whose hits trigger the dip
+  depth: number;      // 0-1 (gain reduction at the bottom of the dip)
+  attack: number;     // 0.001-0.5 seconds to reach the dip
+  release: number;    // 0.01-2 seconds to recover
+}
+
+export type BusEffect = 'reverb' | 'delay' | 'chorus' | 'phaser' | 'distort';
+
+/** `bus verb: reverb decay=3 mix=1`: a shared return effect fed by `send` lines */
+export type BusModule = { name: string } & (
+  | { effect: 'reverb'; settings: ReverbModule }
+  | { effect: 'delay'; settings: DelayModule }
+  | { effect: 'chorus'; settings: ChorusModule }
+  | { effect: 'phaser'; settings: PhaserModule }
+  | { effect: 'distort'; settings: DistortModule }
+);
+
+/** `send snare: verb=0.4 echo=0.2`: post-pan send levels from an instrument into buses */
+export interface SendModule {
+  name: string;                   // instrument name
+  levels: Record<string, number>; // bus name -> 0-1
+}
+
 export interface NoteModule {
   name: string;
   pitch: number;    // frequency in Hz (converted from MIDI if needed)
 }
 
-export type LFOWave = 'sine' | 'triangle' | 'square' | 'sawtooth';
-export type LFOTarget = 'amp' | 'filter.freq' | 'filter.q' | 'pan' | 'delay.time' | 'delay.feedback';
+export type ScaleMode = 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'locrian';
+
+/** Key set by `SCALE <root> <mode> [transpose=N]`; scale degrees on notes lines resolve against it */
+export interface ScaleSetting {
+  root: string;       // root note name as written, e.g. 'A', 'F#'
+  mode: ScaleMode;
+  rootMidi: number;   // MIDI note of degree 1 (root in octave 3 unless given, e.g. A2)
+  transpose: number;  // semitones applied to every notes line (-24..24)
+}
+
+export type StepArticulation = 'flam' | 'roll';
+
+/** Length of one step on a seq/notes line: 8th, 16th, 16th triplet or 32nd */
+export type StepResolution = '8n' | '16n' | '16t' | '32n';
+
+/** `TEMPO 120 -> 140 over 8 bars`: glide from the start tempo, then hold the target */
+export interface TempoRamp {
+  to: number;   // target BPM (20-300)
+  bars: number; // ramp length in bars of the TIME signature (1-64)
+}
+
+/** Meter set by `TIME 7/8`; one bar is the shortest loop */
+export interface TimeSignature {
+  beats: number; // numerator, 1-32
+  unit: number;  // denominator: 2, 4, 8 or 16
+}
+
+/** A step split into evenly spaced hits (`x3`, `X{4}`), optionally ramping velocity (`<` up, `>` down) */
+export interface StepRatchet {
+  hits: number;     // 2-8 hits within one step
+  ramp: 'up' | 'down' | 'none';
+}
+
+/**
+ * Step condition evaluated by the engine on every loop:
+ * `x?50` probability, `x@1:4` first of every four loops, `x@fill` / `x@!fill`
+ * while fill mode is (not) held, `x@pre` / `x@!pre` when the previous
+ * conditional trig on the track did (not) fire.
+ */
+export type TrigCondition =
+  | { type: 'probability'; percent: number }   // 1-100
+  | { type: 'ratio'; hit: number; every: number } // 1-8, hit <= every
+  | { type: 'fill'; negate: boolean }
+  | { type: 'pre'; negate: boolean };
+
+/** Per-instrument timing for `f` (flam) and `r` (roll) steps */
+export interface ArticulationModule {
+  name: string;
+  flam: number;     // grace hit lead time, 0.005-0.1 seconds
+  roll: number;     // hits per roll step, 2-8
+}
+
+export type LFOWave = 'sine' | 'triangle' | 'square' | 'sawtooth' | 'sample-hold' | 'random-smooth';
+export type LFOTarget =
+  | 'amp' | 'filter.freq' | 'filter.q' | 'pan'
+  | 'eq.low' | 'eq.mid' | 'eq.high' | 'comp.threshold' | 'comp.ratio'
+  | 'delay.time' | 'delay.feedback' | 'delay.mix' | 'reverb.mix' | 'distort.mix'
+  | 'chorus.rate' | 'chorus.depth' | 'chorus.mix' | 'phaser.rate' | 'phaser.depth' | 'phaser.mix';
+
+/** Tempo-synced LFO cycle from `rate=1/8` (note value, `t` triplet, `.` dotted) or `rate=2bar` */
+export interface LFOSync {
+  label: string;          // as written, e.g. '1/8t' or '2bar'
+  unit: 'note' | 'bar';
+  length: number;         // whole notes for 'note' (1/8 = 0.125), bars of the TIME signature for 'bar'
+}
 
 export interface LFOModule {
-  // key like 'master.amp' or 'kick.filter.freq'
+  // key like 'master.amp' or 'kick.filter.freq'; further LFOs on the same target get '#2', '#3'
   key: string;
   scope: 'master' | 'instrument';
   target: LFOTarget;
   name: string; // instrument name or 'master'
-  rateHz: number; // 0.1..20
+  rateHz: number; // 0.1..20; free-running rate, unused when synced
+  sync?: LFOSync;
   depth: number;  // 0..1
   wave: LFOWave;
+  reset: boolean; // restart the cycle on the downbeat (default for synced rates)
+}
+
+export type ModSource = 'velocity' | 'env1' | 'env2' | 'step' | 'lfo';
+// 'amp' and 'pitch' act on each voice (an LFO's 'amp' moves the chain level); the rest are instrument chain params
+export type ModDestination = 'pitch' | LFOTarget;
+
+/**
+ * One `mod lead: src=velocity dst=filter.freq amt=0.6` route. Velocity and step
+ * set their destination on every hit, the envelopes shape it over each hit and
+ * an LFO moves it continuously.
+ */
+export interface ModRoute {
+  source: ModSource;
+  destination: ModDestination;
+  amount: number;   // -1..1; pitch swings ±24 semitones, chain params like an LFO at that depth
+  env2?: { attack: number; decay: number }; // src=env2: its own attack-decay, in seconds
+  lfo?: Pick<LFOModule, 'rateHz' | 'sync' | 'wave' | 'reset'>; // src=lfo
+}
+
+/** Every `mod` line of one instrument, in order */
+export interface ModModule {
+  name: string;
+  routes: ModRoute[];
+}
+
+// A processing stage an instrument or the master chain can reorder; filter and duck are instrument-only
+export type ChainStage = 'filter' | 'comp' | 'duck' | 'eq' | 'distort' | 'delay' | 'reverb' | 'chorus' | 'phaser';
+
+/** `chain kick: distort > filter > comp > eq` - the stages in processing order */
+export interface ChainModule {
+  name: string;
+  order: ChainStage[]; // as written; stages left out follow in their default order
+}
+
+export type AutomationTarget =
+  | 'amp' | 'filter.freq' | 'filter.q' | 'pan'
+  | 'delay.time' | 'delay.feedback' | 'delay.mix' | 'reverb.mix' | 'distort.mix'
+  | 'chorus.rate' | 'chorus.depth' | 'chorus.mix' | 'phaser.rate' | 'phaser.depth' | 'phaser.mix';
+
+/** `auto kick.filter.freq: 200 400 . 1200`: one value per step on an instrument chain param */
+export interface AutomationLane {
+  key: string;      // 'kick.filter.freq'
+  name: string;     // instrument name
+  target: AutomationTarget;
+  values: (number | null)[]; // null for '.' (hold the previous value)
+  resolution?: StepResolution; // res=8n on the line; 16n when absent
 }
 
 export interface SampleModule {
@@ -105,6 +297,17 @@ export interface SampleModule {
   sample: string;
   // optional gain in steps (-3..+3) applied at trigger
   gain?: number;
+  // played region as positions in the sample, 0 (beginning) to 1 (end)
+  start?: number;
+  end?: number;
+  // transpose in semitones (-24..24), on top of any per-step note
+  pitch?: number;
+  // play the region backwards
+  reverse?: boolean;
+  // repeat the region until the hit ends
+  loop?: boolean;
+  // fade in/out of the region in seconds (0-1), when no env line shapes the hit
+  fade?: number;
 }
 
 export type GrooveType = 'swing' | 'humanize' | 'rush' | 'drag' | 'template';
@@ -152,12 +355,35 @@ export interface GrooveModule {
   templateName?: string;
 }
 
+/**
+ * A named block of sequences declared with `section <name>:`.
+ * Module lines (eq, filter, ...) stay global; only `seq` lines are scoped.
+ */
+export interface SongSection {
+  name: string;
+  instruments: ParsedPattern['instruments'];
+  totalSteps: number; // loop length of one pass through the section, in 16th notes
+}
+
+/** One entry of the `song:` order line, e.g. `verse*4` */
+export interface SongOrderEntry {
+  section: string;
+  repeats: number; // 1..64
+}
+
 export interface ParsedPattern {
-  tempo: number;
+  tempo: number;           // start tempo in BPM (quarter notes, may be fractional)
+  tempoRamp?: TempoRamp;   // TEMPO line with `-> <bpm> over <n> bars`
   instruments: {
     [instrumentName: string]: {
       steps: boolean[];
       velocities?: number[];  // 0-1 per step (X=1.0, x=0.7, o=0.3, .=0)
+      pitches?: number[];     // Hz per step from a `notes` line (0 = rest)
+      articulations?: (StepArticulation | null)[]; // f = flam, r = roll; only set when used
+      ratchets?: (StepRatchet | null)[];            // x3 / X{4} ratchets; only set when used
+      conditions?: (TrigCondition | null)[];        // x?50 / x@1:4 trig conditions; only set when used
+      lengths?: number[];                           // steps each hit is held for (x--- = 4, 0 off hits); only set when ties are used
+      resolution?: StepResolution;                  // res=16t on the line; 16n when absent
       name: string;
     };
   };
@@ -206,7 +432,52 @@ export interface ParsedPattern {
   grooveModules?: {
     [moduleName: string]: GrooveModule;
   };
-  totalSteps: number;
+  articulationModules?: {
+    [moduleName: string]: ArticulationModule;
+  };
+  synthModules?: {
+    [instrumentName: string]: SynthModule;
+  };
+  drumModules?: {
+    [instrumentName: string]: DrumModule;
+  };
+  fmModules?: {
+    [instrumentName: string]: FmModule;
+  };
+  loopModules?: {
+    [instrumentName: string]: LoopModule;
+  };
+  chokeModules?: {
+    [groupName: string]: ChokeModule;
+  };
+  duckModules?: {
+    [instrumentName: string]: DuckModule;
+  };
+  busModules?: {
+    [busName: string]: BusModule;
+  };
+  sendModules?: {
+    [instrumentName: string]: SendModule;
+  };
+  modModules?: {
+    [instrumentName: string]: ModModule;
+  };
+  chainModules?: {
+    [chainName: string]: ChainModule; // an instrument or 'master'
+  };
+  automation?: {
+    [key: string]: AutomationLane; // keyed by 'name.target' (e.g., 'kick.filter.freq'); only set when used
+  };
+  // Song arrangement mode: sequences scoped to named sections, played in `song` order.
+  // Top-level `instruments` keep playing underneath every section.
+  sections?: {
+    [sectionName: string]: SongSection;
+  };
+  song?: SongOrderEntry[];
+  scale?: ScaleSetting;
+  seed?: number;        // SEED line; makes probability trigs reproducible
+  timeSignature?: TimeSignature; // TIME line; 4/4 when absent
+  totalSteps: number;   // loop length in 16th notes, at least one bar
 }
 
 export interface ValidationResult {
@@ -234,12 +505,16 @@ export interface UnifiedAudioState {
   isPaused: boolean;
   tempo: number;
   volume: number;
-  currentTime: number;
+  currentTime: number; // wall-clock seconds since the transport started
+  position: number; // transport position in 16ths within the loop (the whole song in song mode)
   error: string | null;
   // Unified-specific state
   effectsEnabled: boolean;
   audioQuality: 'low' | 'medium' | 'high';
   overflowMode?: 'loop' | 'rest';
+  fillMode?: boolean;
+  tempoRamp?: TempoRamp; // active ramp; `tempo` reports the live BPM while it runs
+  gainReduction?: Record<string, number>; // current ducking in dB per instrument with a duck module
 }
 
 export interface UIState {
@@ -276,6 +551,8 @@ export interface AppActions {
   setTempo: (tempo: number) => void;
   setVolume: (volume: number) => void;
   setOverflowMode?: (mode: 'loop' | 'rest') => void;
+  setFillMode?: (enabled: boolean) => void;
+  previewFmVoice?: (fm: FmModule, pitch?: number) => void;
 
   // UI actions
   setActiveTab: (tab: UIState['activeTab']) => void;
@@ -1,8 +1,8 @@
 // Audio Constants
 export const AUDIO_CONSTANTS = {
   DEFAULT_TEMPO: 120,
-  MIN_TEMPO: 60,
-  MAX_TEMPO: 200,
+  MIN_TEMPO: 20,
+  MAX_TEMPO: 300,
   // Musical timing: number of sequencer steps per beat (e.g., 4 = 16th notes)
   STEPS_PER_BEAT: 4,
   DEFAULT_VOLUME: 0.8,
@@ -103,6 +103,7 @@ export const STORAGE_CONSTANTS = {
   USER_PREFERENCES_KEY: 'ascii-sequencer-preferences',
   CHAT_HISTORY_KEY: 'ascii-sequencer-chat-history',
   SESSION_KEY: 'ascii-sequencer-session',
+  USER_SAMPLES_DB: 'ascii-sequencer-samples', // IndexedDB database for imported samples
   CACHE_EXPIRY: 24 * 60 * 60 * 1000, // 24 hours
 } as const;
 
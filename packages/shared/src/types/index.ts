@@ -22,7 +22,7 @@ export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
 
 // Pattern Types
 export const PatternMetadataSchema = z.object({
-  tempo: z.number().min(60).max(200).default(120),
+  tempo: z.number().min(20).max(300).default(120),
   timeSignature: z.string().default('4/4'),
   instruments: z.array(z.string()).default([]),
   duration: z.number().min(0).default(0),
@@ -83,7 +83,7 @@ export const InstrumentStateSchema = z.object({
 
 export const AudioEngineStateSchema = z.object({
   isPlaying: z.boolean().default(false),
-  tempo: z.number().min(60).max(200).default(120),
+  tempo: z.number().min(20).max(300).default(120),
   currentTime: z.number().min(0).default(0),
   volume: z.number().min(0).max(1).default(0.8),
   instruments: z.array(InstrumentStateSchema).default([]),